@@ -0,0 +1,119 @@
+/**
+ * Command line interface
+ * ----------------------
+ * Subcommands of `node index.js`, see HELP below and commands.ts. Without a subcommand
+ * the legacy flags still work: `--serve`, `--report-duplicates`, otherwise an ingest run.
+ *
+ * `--help` and `config check` work with an invalid configuration: the commands, which
+ * resolve it, are only loaded afterwards.
+ */
+
+import { ConfigError, loadConfig } from './config/configLoader';
+import { CliUsageError, parseArgs, ParsedArgs } from './utils/cliArgs';
+
+const HELP = `Usage: node index.js <command> [options]
+
+Commands:
+  ingest          Fetch, upload and register images for the selected products (default)
+  retry-failed    Re-run the failed products of the latest run, or of --run=<runId>
+  status          Progress of the latest run, or of --run=<runId>
+  purge           Forget the selected products in the perceptual hash index,
+                  with --assets also unregister their images in Laravel and delete
+                  their storage folders (to redo them from scratch),
+                  or with --runs [--keep=10], delete all but the latest run journals
+                  and their reports
+  verify          Check that the registered images of the selected products are reachable
+  reconcile       Compare stored and registered images of the selected products and
+                  report orphans, missing and mismatched images; --repair fixes them
+  report          duplicates: clusters of near-duplicate registered images (default)
+                  failures: failed products of the latest run (or --run) by error class
+  config check    Show every setting and where it comes from, validate the config files
+                  and ping every configured dependency
+  serve           Start the HTTP control API on HOST:PORT
+  consume         Serve the control API and the product webhook (POST /webhooks/products),
+                  and process the queued product-created events until SIGTERM, then drain
+  queue           dead-letters: events that kept failing; --requeue queues them again
+
+Selectors (ingest, retry-failed, purge, verify, reconcile), all of them apply when combined:
+  --products=12,45,10-50     product IDs and inclusive ID ranges
+  --category=hoodies,denim   category slugs (also --categories)
+  --status=active            product statuses
+  --fewer-than=4             products with fewer than N images registered in Laravel
+                             (ingest and retry-failed only)
+  --limit=20                 keep the first N selected products
+  --shuffle-seed=abc         shuffle the selection reproducibly, before --limit
+
+Ingest options:
+  --dry-run                  print the plan, upload and register nothing
+  --plan-out=plan.json       with --dry-run, save the plan
+  --apply=plan.json          run exactly a saved plan
+  --resume=<runId>           continue an interrupted run
+  --useFailed                same as retry-failed
+
+Examples:
+  node index.js ingest --category=hoodies
+  node index.js ingest --products=10-50 --status=active --limit=5 --shuffle-seed=1
+  node index.js ingest --category=denim --fewer-than=4 --dry-run --plan-out=plan.json
+  node index.js retry-failed --category=hoodies
+  node index.js verify --category=hoodies
+  node index.js purge --category=hoodies --assets
+  node index.js reconcile --products=10-50 --repair
+  QUEUE_BACKEND=redis node index.js consume
+`;
+
+/*
+ * Command name of the legacy flag-only invocations
+ */
+function legacyCommand(args: ParsedArgs): { command: string; args: ParsedArgs } {
+  if (args.flags.serve) return { command: 'serve', args };
+  if (args.flags['report-duplicates']) {
+    return { command: 'report', args: { ...args, positionals: ['report', 'duplicates'] } };
+  }
+  return { command: 'ingest', args };
+}
+
+/*
+ * Print every problem of an invalid configuration, for `config check`
+ */
+function invalidConfiguration(): boolean {
+  try {
+    loadConfig();
+    return false;
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+
+    console.error(`\n${error.message}\n\nSee .env.example for every setting.\n`);
+    return true;
+  }
+}
+
+export async function runCli(argv: string[]): Promise<number | undefined> {
+  try {
+    const parsed = parseArgs(argv);
+    if (parsed.flags.help) {
+      console.log(HELP);
+      return 0;
+    }
+
+    const [name] = parsed.positionals;
+    const { command, args } = name ? { command: name, args: parsed } : legacyCommand(parsed);
+
+    // Listed here: loading the commands would fail on an invalid configuration
+    if (command === 'config' && invalidConfiguration()) {
+      return 1;
+    }
+
+    const { COMMANDS } = await import('./commands');
+    const run = COMMANDS[command];
+    if (!run) {
+      throw new CliUsageError(`Unknown command ${command}`);
+    }
+    return await run(args);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error;
+
+    console.error(`${error.message}\n`);
+    console.error(HELP);
+    return 2;
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Commands of the command line interface (see cli.ts)
+ * ---------------------------------------------------
+ * Loading this module resolves the configuration, so cli.ts only loads it once
+ * `--help` and an invalid configuration for `config check` are handled.
+ *
+ * Every command returns its exit code, `undefined` keeps the process running (serve).
+ */
+
+import { env } from './config/env';
+import { buildServer } from './server';
+import { ConfigCheckService } from './services/ConfigCheckService';
+import { createEventQueue } from './services/EventQueueFactory';
+import { ImageIngestionWorker } from './workers/ImageIngestionWorker';
+import { IngestionManager } from './services/IngestionManager';
+import { PerceptualHashIndex } from './services/PerceptualHashIndex';
+import { ProductEventConsumer } from './services/ProductEventConsumer';
+import { ProductEventIntake } from './services/ProductEventIntake';
+import { PurgeService } from './services/PurgeService';
+import { hasSelectors, ProductCatalog } from './services/ProductCatalog';
+import { ReconciliationService } from './services/ReconciliationService';
+import { RedisEventInbox } from './services/RedisEventInbox';
+import { RunJournal } from './services/RunJournal';
+import { VerificationService } from './services/VerificationService';
+import { CliUsageError, ParsedArgs, workerOptionsFrom } from './utils/cliArgs';
+import { logger } from './utils/logger';
+import { printRunSummary, removeRunReport } from './utils/runReport';
+import { WorkerOptions } from './types/ingestion';
+
+export type Command = (args: ParsedArgs) => Promise<number | undefined>;
+
+function flag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+async function runIdFrom(args: ParsedArgs): Promise<string> {
+  const runId = flag(args, 'run') ?? (await RunJournal.latestRunId());
+  if (!runId) {
+    throw new CliUsageError('No run journal found, start a run with `ingest` first');
+  }
+  return runId;
+}
+
+/*
+ * Selected products of the catalog, for commands that do not run the pipeline
+ */
+async function selectedProductIds(args: ParsedArgs): Promise<number[]> {
+  const options = workerOptionsFrom(args);
+  if (options.fewerThanImages !== undefined) {
+    throw new CliUsageError('--fewer-than is only supported by ingest and retry-failed');
+  }
+
+  const catalog = await ProductCatalog.load();
+  return (await catalog.select(options)).map((product) => product.id);
+}
+
+/*
+ * Run the pipeline, then print the summary of the run (a dry run prints its plan instead)
+ */
+async function runWorker(options: WorkerOptions): Promise<number> {
+  const status = await new ImageIngestionWorker(options).run();
+  if (!options.dryRun) {
+    printRunSummary(status);
+  }
+  return 0;
+}
+
+async function ingest(args: ParsedArgs): Promise<number> {
+  return await runWorker(workerOptionsFrom(args));
+}
+
+async function retryFailed(args: ParsedArgs): Promise<number> {
+  return await runWorker({
+    ...workerOptionsFrom(args),
+    useFailed: true,
+    failedRunId: flag(args, 'run'),
+  });
+}
+
+async function status(args: ParsedArgs): Promise<number> {
+  const runId = await runIdFrom(args);
+  const run = await new IngestionManager().get(runId);
+  if (!run) {
+    throw new CliUsageError(`Run ${runId} not found`);
+  }
+
+  console.log(`\nRun ${run.runId}: ${run.state} (started ${run.startedAt})`);
+  for (const [state, count] of Object.entries(run.counts)) {
+    if (count > 0) console.log(`   ${state}: ${count}`);
+  }
+
+  const failed = run.products.filter((product) => product.error !== undefined);
+  if (failed.length > 0) {
+    console.log('\nFailed products:');
+    for (const product of failed) {
+      console.log(`   ${product.productId} [${product.errorClass ?? 'unknown'}] ${product.error}`);
+    }
+  }
+  console.log('');
+  return 0;
+}
+
+async function purge(args: ParsedArgs): Promise<number> {
+  if (args.flags.runs) {
+    const keep = Number(flag(args, 'keep') ?? 10);
+    if (!Number.isInteger(keep) || keep < 0) {
+      throw new CliUsageError('--keep expects a non-negative integer');
+    }
+
+    const runIds = await RunJournal.runIds();
+    const stale = runIds.slice(0, Math.max(0, runIds.length - keep));
+    for (const runId of stale) {
+      await RunJournal.remove(runId);
+      await removeRunReport(runId);
+    }
+    console.log(
+      `Deleted ${stale.length} run journals, kept the latest ${runIds.length - stale.length}.`,
+    );
+    return 0;
+  }
+
+  // Never purge the whole catalog by accident
+  if (!hasSelectors(workerOptionsFrom(args))) {
+    throw new CliUsageError('purge needs a selector (e.g. --category=hoodies) or --runs');
+  }
+
+  const productIds = await selectedProductIds(args);
+  if (args.flags.assets) {
+    return await purgeAssets(productIds);
+  }
+
+  const hashIndex = await PerceptualHashIndex.load();
+  const removed = await hashIndex.forget(productIds);
+  console.log(
+    `Forgot ${removed} perceptual hash entries of ${productIds.length} products, ` +
+      'their photos may be used by other products again.',
+  );
+  return 0;
+}
+
+async function purgeAssets(productIds: number[]): Promise<number> {
+  const results = await new PurgeService().purge(productIds);
+
+  const failed = results.filter((result) => result.error);
+  for (const result of failed) {
+    console.log(`✖ Product ${result.productId}: ${result.error}`);
+  }
+
+  const removed = results.reduce((sum, result) => sum + result.removedImages, 0);
+  console.log(
+    `\nPurged ${results.length - failed.length} of ${results.length} products: ` +
+      `${removed} stored images deleted, their Laravel images unregistered.\n`,
+  );
+  return failed.length > 0 ? 1 : 0;
+}
+
+async function verify(args: ParsedArgs): Promise<number> {
+  const productIds = await selectedProductIds(args);
+  const results = await new VerificationService().verify(productIds);
+
+  const broken = results.filter((result) => result.status === 'missing-images');
+  const unregistered = results.filter((result) => result.status === 'not-registered');
+  const ok = results.length - broken.length - unregistered.length;
+
+  for (const result of broken) {
+    console.log(`✖ Product ${result.productId} (run ${result.runId}):`);
+    for (const check of result.images.filter((image) => !image.ok)) {
+      console.log(`   ${check.publicId}  ${check.url}  ${check.error}`);
+    }
+  }
+
+  console.log(
+    `\nVerified ${results.length} products: ${ok} ok, ` +
+      `${broken.length} with missing images, ${unregistered.length} never registered.\n`,
+  );
+  return broken.length > 0 ? 1 : 0;
+}
+
+async function reconcile(args: ParsedArgs): Promise<number> {
+  const productIds = await selectedProductIds(args);
+  const repair = args.flags.repair === true;
+  const results = await new ReconciliationService().reconcile(productIds, { repair });
+
+  for (const result of results.filter((result) => result.status !== 'in-sync')) {
+    console.log(
+      `${result.status === 'repaired' ? '✔' : '✖'} Product ${result.productId} ` +
+        `(${result.stored} stored, ${result.registered} registered): ${result.status}`,
+    );
+    if (result.error) console.log(`   ${result.error}`);
+    for (const drift of result.drift) {
+      const outcome =
+        drift.repair ?? (drift.repairError ? `repair failed: ${drift.repairError}` : '');
+      const run = drift.runId ? ` (run ${drift.runId})` : '';
+      console.log(`   ${drift.kind.padEnd(10)} ${drift.publicId}${run}  ${outcome}`);
+    }
+  }
+
+  const count = (status: string) => results.filter((result) => result.status === status).length;
+  console.log(
+    `\nReconciled ${results.length} products: ${count('in-sync')} in sync, ` +
+      `${count('repaired')} repaired, ${count('drift')} with drift, ${count('error')} errors.`,
+  );
+  if (!repair && count('drift') > 0) {
+    console.log('Run again with --repair to fix the drift.');
+  }
+  console.log('');
+  return count('drift') + count('error') > 0 ? 1 : 0;
+}
+
+async function reportDuplicates(): Promise<void> {
+  const hashIndex = await PerceptualHashIndex.load();
+  const clusters = hashIndex.duplicateClusters();
+
+  console.log(`\nFound ${clusters.length} clusters of near-duplicate registered images.\n`);
+  clusters.forEach((cluster, i) => {
+    const products = [...new Set(cluster.entries.map((entry) => entry.productId))];
+    console.log(`#${i + 1} (${cluster.entries.length} images, products ${products.join(',')})`);
+    cluster.entries.forEach((entry) => {
+      console.log(
+        `   product ${entry.productId} image_${entry.index}  ${entry.hash}  ${entry.url}`,
+      );
+    });
+  });
+}
+
+async function reportFailures(args: ParsedArgs): Promise<void> {
+  const journal = await RunJournal.open(await runIdFrom(args));
+
+  const byClass = new Map<string, number[]>();
+  for (const productId of journal.failedProductIds()) {
+    const errorClass = journal.progressFor(productId)?.errorClass ?? 'unknown';
+    byClass.set(errorClass, [...(byClass.get(errorClass) ?? []), productId]);
+  }
+
+  console.log(`\nRun ${journal.runId}: ${journal.failedProductIds().length} failed products.\n`);
+  for (const [errorClass, productIds] of byClass) {
+    console.log(`${errorClass} (${productIds.length}): ${productIds.join(',')}`);
+  }
+  console.log('');
+}
+
+async function report(args: ParsedArgs): Promise<number> {
+  const kind = args.positionals[1] ?? 'duplicates';
+  if (kind === 'duplicates') {
+    await reportDuplicates();
+  } else if (kind === 'failures') {
+    await reportFailures(args);
+  } else {
+    throw new CliUsageError(`Unknown report ${kind} (expected duplicates or failures)`);
+  }
+  return 0;
+}
+
+async function configCheck(): Promise<number> {
+  const result = await new ConfigCheckService().check();
+
+  const origin = [
+    result.profile && `profile ${result.profile}`,
+    result.configFile && `file ${result.configFile}`,
+  ].filter(Boolean);
+  console.log(`\nConfiguration${origin.length > 0 ? ` (${origin.join(', ')})` : ''}:`);
+  for (const setting of result.settings) {
+    const source = setting.source ? `  (${setting.source})` : '';
+    console.log(`   ${setting.env}=${setting.value}${source}`);
+  }
+
+  console.log('\nConfig files:');
+  for (const file of result.files) {
+    console.log(`${file.error ? '✖' : '✔'} ${file.name}  ${file.path}`);
+    if (file.error) console.log(`   ${file.error.replace(/\n/g, '\n   ')}`);
+  }
+
+  console.log('\nDependencies:');
+  for (const dependency of result.dependencies) {
+    const detail = dependency.detail ? `  ${dependency.detail}` : '';
+    console.log(
+      `${dependency.status === 'ok' ? '✔' : '✖'} ${dependency.name}: ${dependency.status} ` +
+        `(${dependency.latencyMs} ms)${detail}`,
+    );
+  }
+
+  const failed =
+    result.files.filter((file) => file.error).length +
+    result.dependencies.filter((dependency) => dependency.status !== 'ok').length;
+  console.log(failed > 0 ? `\nFailed checks: ${failed}.\n` : '\nAll checks passed.\n');
+  return failed > 0 ? 1 : 0;
+}
+
+async function config(args: ParsedArgs): Promise<number> {
+  const action = args.positionals[1] ?? 'check';
+  if (action !== 'check') {
+    throw new CliUsageError(`Unknown config action ${action} (expected check)`);
+  }
+  return await configCheck();
+}
+
+async function serve(): Promise<undefined> {
+  if (!env.controlApiToken) {
+    throw new CliUsageError(
+      'serve needs CONTROL_API_TOKEN, the control API is not served without it',
+    );
+  }
+  const server = buildServer();
+  await server.listen({ port: env.port, host: env.host });
+  return undefined;
+}
+
+/*
+ * Run until SIGTERM (or SIGINT), then stop taking events in and drain the consumer.
+ * Exits with 1 when the current batch did not finish within CONSUMER_DRAIN_TIMEOUT_MS.
+ */
+async function consume(): Promise<number> {
+  const useInbox = env.queueBackend === 'redis';
+  if (!env.webhookSecret && !useInbox) {
+    throw new CliUsageError('consume needs WEBHOOK_SECRET, or QUEUE_BACKEND=redis for its inbox');
+  }
+
+  const queue = createEventQueue();
+  const server = buildServer({ eventQueue: queue });
+  const consumer = new ProductEventConsumer(queue);
+  const inbox = useInbox ? new RedisEventInbox(new ProductEventIntake(queue)) : undefined;
+
+  await server.listen({ port: env.port, host: env.host });
+  consumer.start();
+  inbox?.start();
+
+  const signal = await new Promise<NodeJS.Signals>((resolve) => {
+    process.once('SIGTERM', resolve);
+    process.once('SIGINT', resolve);
+  });
+  logger.info({ signal }, 'Shutting down, draining the product event consumer');
+
+  await server.close();
+  await inbox?.stop();
+  const drained = await consumer.stop();
+  await queue.close();
+
+  if (!drained) {
+    logger.warn('Drain timed out, the unfinished events will be delivered again');
+  }
+  return drained ? 0 : 1;
+}
+
+async function queue(args: ParsedArgs): Promise<number> {
+  const kind = args.positionals[1] ?? 'dead-letters';
+  if (kind !== 'dead-letters') {
+    throw new CliUsageError(`Unknown queue action ${kind} (expected dead-letters)`);
+  }
+
+  const eventQueue = createEventQueue();
+  try {
+    if (args.flags.requeue) {
+      const queued = await eventQueue.requeueDeadLetters();
+      console.log(`Queued ${queued} dead-lettered events again.`);
+      return 0;
+    }
+
+    const events = await eventQueue.deadLetters();
+    console.log(`\n${events.length} dead-lettered events in ${eventQueue.name} queue.\n`);
+    for (const event of events) {
+      const { errorClass = 'unknown', message = '' } = event.lastError ?? {};
+      console.log(
+        `${event.deadLetteredAt}  product ${event.product.id}  event ${event.id}  ` +
+          `(${event.attempts} attempts) [${errorClass}] ${message}`,
+      );
+    }
+    console.log('');
+    return 0;
+  } finally {
+    await eventQueue.close();
+  }
+}
+
+export const COMMANDS: Record<string, Command> = {
+  ingest,
+  'retry-failed': retryFailed,
+  status,
+  purge,
+  verify,
+  reconcile,
+  report,
+  config,
+  serve,
+  consume,
+  queue,
+};
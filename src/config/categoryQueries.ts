@@ -0,0 +1,197 @@
+/**
+ * CategoryQueries
+ * ---------------
+ * Search queries used to find photos for each product category, loaded from the
+ * versioned YAML or JSON config at CATEGORY_QUERIES_CONFIG_PATH
+ * (default data/category-queries.yaml, the format is described in that file).
+ * Shared by every HTTP image source (Unsplash, Pexels), so a category looks the same
+ * whichever provider ends up serving it.
+ *
+ * - The whole config is validated when loaded, every problem is reported at once.
+ * - checkCategories() validates the config against the catalog categories: unknown
+ *   category slugs fail, unmapped categories only warn and fall back to
+ *   `<slug> apparel studio`.
+ * - searchFor() resolves the search of one product, with its query enrichment.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { env } from './env';
+import { logger } from '../utils/logger';
+import { Category, Product } from '../types/product';
+import { ImageSearch } from '../types/imageSource';
+import {
+  CategoryQueryConfig,
+  CategoryQueryRule,
+  SearchColor,
+  SearchOrientation,
+} from '../types/categoryQuery';
+
+const ORIENTATIONS: SearchOrientation[] = ['landscape', 'portrait', 'squarish'];
+const COLORS: SearchColor[] = [
+  'black_and_white',
+  'black',
+  'white',
+  'yellow',
+  'orange',
+  'red',
+  'purple',
+  'magenta',
+  'green',
+  'teal',
+  'blue',
+];
+const ENRICH_FIELDS = ['name', 'slug', 'description'];
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim());
+}
+
+/*
+ * Problems of one rule (category entry or defaults), prefixed with where they are
+ */
+function validateRule(rule: any, where: string, requireQueries: boolean): string[] {
+  const errors: string[] = [];
+  if (typeof rule !== 'object' || rule === null) {
+    return [`${where} must be an object`];
+  }
+
+  if (requireQueries && (!isStringList(rule.queries) || rule.queries.length === 0)) {
+    errors.push(`${where}.queries must be a non-empty list of strings`);
+  }
+  if (rule.negativeKeywords !== undefined && !isStringList(rule.negativeKeywords)) {
+    errors.push(`${where}.negativeKeywords must be a list of strings`);
+  }
+  if (rule.orientation !== undefined && !ORIENTATIONS.includes(rule.orientation)) {
+    errors.push(`${where}.orientation must be one of ${ORIENTATIONS.join(', ')}`);
+  }
+  if (rule.color !== undefined && !COLORS.includes(rule.color)) {
+    errors.push(`${where}.color must be one of ${COLORS.join(', ')}`);
+  }
+  if (rule.enrich !== undefined) {
+    const { fields, keywords } = rule.enrich ?? {};
+    if (!isStringList(fields) || !fields.every((field) => ENRICH_FIELDS.includes(field))) {
+      errors.push(`${where}.enrich.fields must only contain ${ENRICH_FIELDS.join(', ')}`);
+    }
+    if (!isStringList(keywords) || keywords.length === 0) {
+      errors.push(`${where}.enrich.keywords must be a non-empty list of strings`);
+    }
+  }
+
+  return errors;
+}
+
+export function loadCategoryQueryConfig(filePath: string): CategoryQueryConfig {
+  const raw = readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+  const errors: string[] = [];
+  if (parsed?.version !== 1) {
+    errors.push(`version must be 1, got ${JSON.stringify(parsed?.version)}`);
+  }
+  if (parsed?.defaults !== undefined) {
+    errors.push(...validateRule(parsed.defaults, 'defaults', false));
+  }
+  if (typeof parsed?.categories !== 'object' || parsed.categories === null) {
+    errors.push('categories must be an object keyed by category slug');
+  } else {
+    for (const [slug, rule] of Object.entries(parsed.categories)) {
+      errors.push(...validateRule(rule, `categories.${slug}`, true));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid category query config ${filePath}:\n  ${errors.join('\n  ')}`);
+  }
+  return parsed as CategoryQueryConfig;
+}
+
+export class CategoryQueries {
+  private readonly config: CategoryQueryConfig;
+  private readonly warnedSlugs = new Set<string>();
+
+  constructor(configPath: string = env.categoryQueriesConfigPath) {
+    this.config = loadCategoryQueryConfig(configPath);
+  }
+
+  /*
+   * Fail on config entries for unknown categories, warn about unmapped categories
+   */
+  checkCategories(categories: Category[]): void {
+    const known = new Set(categories.map((category) => category.slug));
+
+    const unknown = Object.keys(this.config.categories).filter((slug) => !known.has(slug));
+    if (unknown.length > 0) {
+      throw new Error(`Category query config maps unknown categories: ${unknown.join(', ')}`);
+    }
+
+    const unmapped = [...known].filter((slug) => !this.config.categories[slug]);
+    if (unmapped.length > 0) {
+      logger.warn(
+        { categories: unmapped },
+        'Categories without search queries, falling back to "<slug> apparel studio"',
+      );
+    }
+  }
+
+  /*
+   * The search of a product: its category rule over the defaults, enriched with the
+   * keywords found in the product fields
+   */
+  searchFor(categorySlug: string, product?: Product): ImageSearch {
+    const rule = this.ruleFor(categorySlug);
+    const defaults = this.config.defaults ?? {};
+    const enrich = rule.enrich ?? defaults.enrich;
+
+    const prefix = enrich && product ? matchedKeywords(product, enrich).join(' ') : '';
+    const queries = rule.queries.map((query) => (prefix ? `${prefix} ${query}` : query));
+
+    return {
+      categorySlug,
+      queries,
+      negativeKeywords: rule.negativeKeywords ?? defaults.negativeKeywords ?? [],
+      orientation: rule.orientation ?? defaults.orientation,
+      color: rule.color ?? defaults.color,
+    };
+  }
+
+  private ruleFor(categorySlug: string): CategoryQueryRule {
+    const rule = this.config.categories[categorySlug];
+    if (rule) return rule;
+
+    if (!this.warnedSlugs.has(categorySlug)) {
+      this.warnedSlugs.add(categorySlug);
+      logger.warn({ categorySlug }, 'No search query mapping found for category slug.');
+    }
+    return { queries: [`${categorySlug} apparel studio`] };
+  }
+}
+
+/*
+ * Keywords of the enrichment found in the product fields, whole words only, in config order
+ */
+function matchedKeywords(
+  product: Product,
+  enrich: NonNullable<CategoryQueryRule['enrich']>,
+): string[] {
+  const text = enrich.fields
+    .map((field) => product[field] ?? '')
+    .join(' ')
+    .toLowerCase()
+    .replace(/[-_]/g, ' ');
+
+  return enrich.keywords.filter((keyword) => {
+    const normalized = keyword.toLowerCase().replace(/[-_]/g, ' ');
+    return new RegExp(`\\b${normalized.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text);
+  });
+}
+
+/*
+ * Drop photos whose description mentions a negative keyword
+ */
+export function mentionsNegativeKeyword(description: string, negativeKeywords: string[]): boolean {
+  const text = description.toLowerCase();
+  return negativeKeywords.some((keyword) => text.includes(keyword.toLowerCase()));
+}
@@ -0,0 +1,205 @@
+/**
+ * Configuration loader
+ * --------------------
+ * Resolves every setting of CONFIG_SCHEMA, lowest precedence first:
+ * 1. schema default
+ * 2. profile (CONFIG_PROFILE=dev|staging|prod, or `profile` in the config file)
+ * 3. config file (CONFIG_FILE, JSON or YAML, keyed by setting name, e.g. `retryAttempts: 5`)
+ * 4. environment variable (e.g. RETRY_ATTEMPTS=5), an empty variable counts as unset
+ *
+ * Every value is parsed and checked against its type, range and allowed values, and every
+ * problem is reported at once in a ConfigError.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { CONFIG_SCHEMA, PROFILES } from './configSchema';
+import {
+  ConfigProfile,
+  ConfigSource,
+  EnvConfig,
+  LoadedConfig,
+  SettingSchema,
+} from '../types/config';
+
+type Environment = Record<string, string | undefined>;
+type SettingName = keyof EnvConfig;
+type SettingValue = string | number | boolean | undefined;
+
+/**
+ * Invalid configuration, with every problem found
+ */
+export class ConfigError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const SETTING_NAMES = Object.keys(CONFIG_SCHEMA) as SettingName[];
+
+function isProfile(value: unknown): value is ConfigProfile {
+  return typeof value === 'string' && Object.keys(PROFILES).includes(value);
+}
+
+/*
+ * Parse one raw value (from the environment, or typed from a config file) by the schema.
+ * Returns the value, or the problem with it.
+ */
+function parseSetting(
+  schema: SettingSchema,
+  raw: string | number | boolean,
+): { value?: SettingValue; error?: string } {
+  const text = String(raw).trim();
+
+  switch (schema.type) {
+    case 'boolean':
+      if (['true', '1'].includes(text)) return { value: true };
+      if (['false', '0'].includes(text)) return { value: false };
+      return { error: `must be true or false, got "${text}"` };
+
+    case 'integer':
+    case 'number': {
+      const number = Number(text);
+      if (text === '' || !Number.isFinite(number)) {
+        return { error: `must be a number, got "${text}"` };
+      }
+      if (schema.type === 'integer' && !Number.isInteger(number)) {
+        return { error: `must be an integer, got "${text}"` };
+      }
+      if (schema.min !== undefined && number < schema.min) {
+        return { error: `must be at least ${schema.min}, got ${number}` };
+      }
+      if (schema.max !== undefined && number > schema.max) {
+        return { error: `must be at most ${schema.max}, got ${number}` };
+      }
+      return { value: number };
+    }
+
+    case 'url': {
+      let url: URL;
+      try {
+        url = new URL(text);
+      } catch {
+        return { error: `must be a URL, got "${text}"` };
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { error: `must be an http(s) URL, got "${text}"` };
+      }
+      return { value: text };
+    }
+
+    default:
+      if (schema.values && !schema.values.includes(text)) {
+        const allowed = schema.values.map((value) => value || '(empty)').join(', ');
+        return { error: `must be one of ${allowed}, got "${text}"` };
+      }
+      return { value: text };
+  }
+}
+
+function readConfigFile(filePath: string): Record<string, unknown> {
+  const raw = readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([`${filePath} must contain an object of settings`]);
+  }
+  return parsed;
+}
+
+/*
+ * Resolve the configuration from the environment (process.env by default) and the
+ * config file it names. Throws a ConfigError listing every problem.
+ */
+export function loadConfig(environment: Environment = process.env): LoadedConfig {
+  const errors: string[] = [];
+  const configFile = environment.CONFIG_FILE || undefined;
+
+  let file: Record<string, unknown> = {};
+  if (configFile) {
+    try {
+      file = readConfigFile(configFile);
+    } catch (error) {
+      if (error instanceof ConfigError) throw error;
+      throw new ConfigError([
+        `CONFIG_FILE ${configFile} cannot be read: ${(error as Error).message}`,
+      ]);
+    }
+    for (const key of Object.keys(file)) {
+      if (key !== 'profile' && !SETTING_NAMES.includes(key as SettingName)) {
+        errors.push(`${configFile}: unknown setting ${key}`);
+      }
+    }
+  }
+
+  const profileName = environment.CONFIG_PROFILE || file.profile;
+  let profile: ConfigProfile | undefined;
+  if (profileName !== undefined) {
+    if (isProfile(profileName)) {
+      profile = profileName;
+    } else {
+      errors.push(
+        `CONFIG_PROFILE must be one of ${Object.keys(PROFILES).join(', ')}, ` +
+          `got "${String(profileName)}"`,
+      );
+    }
+  }
+  const profileValues: Partial<EnvConfig> = profile ? PROFILES[profile] : {};
+
+  const config: Partial<Record<SettingName, SettingValue>> = {};
+  const sources: LoadedConfig['sources'] = {};
+  const invalid = new Set<SettingName>();
+
+  for (const name of SETTING_NAMES) {
+    const schema = CONFIG_SCHEMA[name];
+    const envValue = environment[schema.env];
+
+    const layers: [ConfigSource, unknown, string][] = [
+      ['env', envValue === '' ? undefined : envValue, schema.env],
+      ['file', file[name] ?? undefined, `${configFile}: ${name}`],
+      ['profile', profileValues[name], `profile ${profile}: ${name}`],
+      ['default', schema.default, name],
+    ];
+    const [source, raw, where] = layers.find(([, value]) => value !== undefined) ?? [];
+    if (source === undefined) continue;
+
+    const { value, error } =
+      typeof raw === 'object'
+        ? { value: undefined, error: 'must be a single value' }
+        : parseSetting(schema, raw as string | number | boolean);
+    if (error) {
+      errors.push(`${where} ${error}`);
+      invalid.add(name);
+      continue;
+    }
+    config[name] = value;
+    sources[name] = source;
+  }
+
+  // Requirements depend on other settings (e.g. Cloudinary credentials on STORAGE_BACKEND)
+  for (const name of SETTING_NAMES) {
+    const { required, env: variable } = CONFIG_SCHEMA[name];
+    const needed =
+      typeof required === 'function' ? required(config as Partial<EnvConfig>) : required;
+    if (needed && !invalid.has(name) && (config[name] === undefined || config[name] === '')) {
+      errors.push(`Missing required setting ${variable}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+  return { config: config as EnvConfig, profile, configFile, sources };
+}
+
+/*
+ * Value of a setting for display, secrets masked
+ */
+export function displayValue(name: SettingName, value: unknown): string {
+  if (value === undefined || value === '') return '(unset)';
+  if (CONFIG_SCHEMA[name].secret) return '********';
+  return String(value);
+}
@@ -0,0 +1,236 @@
+/**
+ * Configuration schema
+ * --------------------
+ * Every setting of the service: its environment variable, type, default and allowed
+ * range (see SettingSchema), and the profiles selected by CONFIG_PROFILE:
+ * - dev:     local storage, fewer products in flight, short retries
+ * - staging: Cloudinary, under a separate upload folder
+ * - prod:    Cloudinary
+ *
+ * Precedence, lowest first: schema default, profile, config file (CONFIG_FILE),
+ * environment variable. See configLoader.ts.
+ */
+
+import path from 'path';
+import { ConfigProfile, EnvConfig, SettingSchema } from '../types/config';
+
+const dataPath = (file: string) => path.join(__dirname, '../../data', file);
+
+const usesStorage = (backend: string) => (config: Partial<EnvConfig>) =>
+  config.storageBackend === backend;
+
+export const CONFIG_SCHEMA: Record<keyof EnvConfig, SettingSchema> = {
+  unsplashAccessKey: { env: 'UNSPLASH_ACCESS_KEY', type: 'string', required: true, secret: true },
+  unsplashQuerySize: { env: 'UNSPLASH_QUERY_SIZE', type: 'integer', default: 4, min: 1, max: 30 },
+  cloudinaryCloudName: {
+    env: 'CLOUDINARY_CLOUD_NAME',
+    type: 'string',
+    default: '',
+    required: usesStorage('cloudinary'),
+  },
+  cloudinaryApiKey: {
+    env: 'CLOUDINARY_API_KEY',
+    type: 'string',
+    default: '',
+    required: usesStorage('cloudinary'),
+  },
+  cloudinaryApiSecret: {
+    env: 'CLOUDINARY_API_SECRET',
+    type: 'string',
+    default: '',
+    required: usesStorage('cloudinary'),
+    secret: true,
+  },
+  cloudinaryUploadFolder: { env: 'CLOUDINARY_UPLOAD_FOLDER', type: 'string', default: 'products' },
+  laravelApiBaseUrl: { env: 'LARAVEL_API_BASE_URL', type: 'url', required: true },
+  laravelApiToken: { env: 'LARAVEL_API_TOKEN', type: 'string', required: true, secret: true },
+  retryAttempts: { env: 'RETRY_ATTEMPTS', type: 'integer', default: 3, min: 1, max: 10 },
+  retryBackoffMs: { env: 'RETRY_BACKOFF_MS', type: 'integer', default: 500, min: 0 },
+  retryMaxElapsedMs: { env: 'RETRY_MAX_ELAPSED_MS', type: 'integer', default: 60000, min: 0 },
+  circuitBreakerThreshold: {
+    env: 'CIRCUIT_BREAKER_THRESHOLD',
+    type: 'integer',
+    default: 5,
+    min: 1,
+  },
+  circuitBreakerResetMs: {
+    env: 'CIRCUIT_BREAKER_RESET_MS',
+    type: 'integer',
+    default: 60000,
+    min: 0,
+  },
+  productInputJsonPath: {
+    env: 'PRODUCT_INPUT_JSON_PATH',
+    type: 'string',
+    default: dataPath('products.json'),
+  },
+  // Empty: guessed from the extension of PRODUCT_INPUT_JSON_PATH
+  productSource: {
+    env: 'PRODUCT_SOURCE',
+    type: 'string',
+    default: '',
+    values: ['', 'json', 'csv', 'laravel'],
+  },
+  categoriesPath: { env: 'CATEGORIES_PATH', type: 'string', default: dataPath('categories.json') },
+  categoryQueriesConfigPath: {
+    env: 'CATEGORY_QUERIES_CONFIG_PATH',
+    type: 'string',
+    default: dataPath('category-queries.yaml'),
+  },
+  ingestionConcurrency: {
+    env: 'INGESTION_CONCURRENCY',
+    type: 'integer',
+    default: 4,
+    min: 1,
+    max: 64,
+  },
+  imageConcurrency: { env: 'IMAGE_CONCURRENCY', type: 'integer', default: 2, min: 1, max: 32 },
+  runJournalDir: { env: 'RUN_JOURNAL_DIR', type: 'string', default: dataPath('runs') },
+  runReportDir: { env: 'RUN_REPORT_DIR', type: 'string', default: dataPath('reports') },
+  imageSourcesConfigPath: {
+    env: 'IMAGE_SOURCES_CONFIG_PATH',
+    type: 'string',
+    default: dataPath('image-sources.json'),
+  },
+  localAssetsDir: { env: 'LOCAL_ASSETS_DIR', type: 'string', default: './assets' },
+  pexelsApiKey: { env: 'PEXELS_API_KEY', type: 'string', secret: true },
+  storageBackend: {
+    env: 'STORAGE_BACKEND',
+    type: 'string',
+    default: 'cloudinary',
+    values: ['cloudinary', 'local', 's3'],
+  },
+  localStorageDir: { env: 'LOCAL_STORAGE_DIR', type: 'string', default: './storage' },
+  localStorageBaseUrl: { env: 'LOCAL_STORAGE_BASE_URL', type: 'url' },
+  s3Bucket: { env: 'S3_BUCKET', type: 'string', required: usesStorage('s3') },
+  s3Region: { env: 'S3_REGION', type: 'string', default: 'us-east-1' },
+  s3Endpoint: { env: 'S3_ENDPOINT', type: 'url' },
+  s3AccessKeyId: { env: 'S3_ACCESS_KEY_ID', type: 'string' },
+  s3SecretAccessKey: { env: 'S3_SECRET_ACCESS_KEY', type: 'string', secret: true },
+  s3ForcePathStyle: { env: 'S3_FORCE_PATH_STYLE', type: 'boolean', default: false },
+  s3PublicBaseUrl: { env: 'S3_PUBLIC_BASE_URL', type: 'url' },
+  imageRulesConfigPath: {
+    env: 'IMAGE_RULES_CONFIG_PATH',
+    type: 'string',
+    default: dataPath('image-rules.json'),
+  },
+  imageDerivativesConfigPath: {
+    env: 'IMAGE_DERIVATIVES_CONFIG_PATH',
+    type: 'string',
+    default: dataPath('image-derivatives.json'),
+  },
+  imageTargetFormat: {
+    env: 'IMAGE_TARGET_FORMAT',
+    type: 'string',
+    default: 'webp',
+    values: ['webp', 'avif', 'jpeg', 'jpg', 'png', 'original'],
+  },
+  imageMaxDimension: {
+    env: 'IMAGE_MAX_DIMENSION',
+    type: 'integer',
+    default: 2000,
+    min: 16,
+    max: 10000,
+  },
+  imageQuality: { env: 'IMAGE_QUALITY', type: 'integer', default: 82, min: 1, max: 100 },
+  phashIndexPath: {
+    env: 'PHASH_INDEX_PATH',
+    type: 'string',
+    default: dataPath('hash-index.json'),
+  },
+  dedupeEnabled: { env: 'DEDUPE_ENABLED', type: 'boolean', default: true },
+  dedupeMaxReuses: { env: 'DEDUPE_MAX_REUSES', type: 'integer', default: 0, min: 0 },
+  // A dHash has 64 bits
+  dedupeHammingThreshold: {
+    env: 'DEDUPE_HAMMING_THRESHOLD',
+    type: 'integer',
+    default: 6,
+    min: 0,
+    max: 64,
+  },
+  // Empty: debug in development, info in production (see utils/logger.ts)
+  logLevel: {
+    env: 'LOG_LEVEL',
+    type: 'string',
+    default: '',
+    values: ['', 'fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'],
+  },
+  port: { env: 'PORT', type: 'integer', default: 3000, min: 1, max: 65535 },
+  host: { env: 'HOST', type: 'string', default: '0.0.0.0' },
+  controlApiToken: { env: 'CONTROL_API_TOKEN', type: 'string', secret: true },
+  unsplashRateLimit: { env: 'UNSPLASH_RATE_LIMIT', type: 'integer', default: 50, min: 1 },
+  unsplashRateWindowMs: {
+    env: 'UNSPLASH_RATE_WINDOW_MS',
+    type: 'integer',
+    default: 60 * 60 * 1000,
+    min: 1000,
+  },
+  imagesPerProduct: { env: 'IMAGES_PER_PRODUCT', type: 'integer', default: 4, min: 1, max: 50 },
+  imageStreaming: { env: 'IMAGE_STREAMING', type: 'boolean', default: false },
+  imageCardAspectRatio: {
+    env: 'IMAGE_CARD_ASPECT_RATIO',
+    type: 'number',
+    default: 0.75,
+    min: 0.1,
+    max: 10,
+  },
+  queueBackend: {
+    env: 'QUEUE_BACKEND',
+    type: 'string',
+    default: 'memory',
+    values: ['memory', 'redis'],
+  },
+  redisUrl: {
+    env: 'REDIS_URL',
+    type: 'string',
+    required: (config) => config.queueBackend === 'redis',
+    secret: true,
+  },
+  queueName: { env: 'QUEUE_NAME', type: 'string', default: 'image-ingestion:product-events' },
+  webhookSecret: { env: 'WEBHOOK_SECRET', type: 'string', secret: true },
+  consumerBatchSize: {
+    env: 'CONSUMER_BATCH_SIZE',
+    type: 'integer',
+    default: 10,
+    min: 1,
+    max: 500,
+  },
+  consumerMaxAttempts: {
+    env: 'CONSUMER_MAX_ATTEMPTS',
+    type: 'integer',
+    default: 5,
+    min: 1,
+    max: 50,
+  },
+  consumerRetryBackoffMs: {
+    env: 'CONSUMER_RETRY_BACKOFF_MS',
+    type: 'integer',
+    default: 30000,
+    min: 0,
+  },
+  consumerDrainTimeoutMs: {
+    env: 'CONSUMER_DRAIN_TIMEOUT_MS',
+    type: 'integer',
+    default: 60000,
+    min: 0,
+  },
+};
+
+export const PROFILES: Record<ConfigProfile, Partial<EnvConfig>> = {
+  dev: {
+    storageBackend: 'local',
+    localStorageDir: './storage',
+    ingestionConcurrency: 2,
+    retryAttempts: 2,
+    retryMaxElapsedMs: 15000,
+    circuitBreakerResetMs: 10000,
+  },
+  staging: {
+    storageBackend: 'cloudinary',
+    cloudinaryUploadFolder: 'staging/products',
+  },
+  prod: {
+    storageBackend: 'cloudinary',
+    cloudinaryUploadFolder: 'products',
+  },
+};
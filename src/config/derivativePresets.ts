@@ -0,0 +1,96 @@
+/**
+ * Derivative presets
+ * ------------------
+ * Responsive variants generated for every uploaded image (thumbnail, card, zoom...),
+ * loaded from the JSON config at IMAGE_DERIVATIVES_CONFIG_PATH
+ * (default data/image-derivatives.json, see DerivativePresetsConfig).
+ *
+ * - The whole config is validated when loaded, every problem is reported at once.
+ * - A missing config file means no derivatives, only the normalized image is stored.
+ * - Storage backends that generate derivatives (Cloudinary, as eager transformations)
+ *   load them, the others ignore them.
+ */
+
+import { readFileSync } from 'fs';
+import { env } from './env';
+import { logger } from '../utils/logger';
+import { DerivativeCrop, DerivativePreset, DerivativePresetsConfig } from '../types/derivative';
+
+const CROPS: DerivativeCrop[] = ['fill', 'fit', 'limit', 'pad', 'thumb'];
+const FORMATS = ['webp', 'avif', 'jpg', 'png'];
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/*
+ * Problems of one preset, prefixed with where it is
+ */
+function validatePreset(preset: any, where: string): string[] {
+  if (typeof preset !== 'object' || preset === null) {
+    return [`${where} must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (typeof preset.name !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(preset.name)) {
+    errors.push(`${where}.name must be a lowercase slug (letters, digits, - and _)`);
+  }
+  for (const field of ['width', 'height']) {
+    if (preset[field] !== undefined && !isPositiveInteger(preset[field])) {
+      errors.push(`${where}.${field} must be a positive integer`);
+    }
+  }
+  if (preset.width === undefined && preset.height === undefined) {
+    errors.push(`${where} needs a width, a height or both`);
+  }
+  if (!CROPS.includes(preset.crop)) {
+    errors.push(`${where}.crop must be one of ${CROPS.join(', ')}`);
+  }
+  if (preset.format !== undefined && !FORMATS.includes(preset.format)) {
+    errors.push(`${where}.format must be one of ${FORMATS.join(', ')}`);
+  }
+  const { quality } = preset;
+  if (
+    quality !== undefined &&
+    quality !== 'auto' &&
+    !(Number.isInteger(quality) && quality >= 1 && quality <= 100)
+  ) {
+    errors.push(`${where}.quality must be "auto" or an integer from 1 to 100`);
+  }
+
+  return errors;
+}
+
+export function loadDerivativePresets(
+  filePath: string = env.imageDerivativesConfigPath,
+): DerivativePreset[] {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') {
+      logger.warn({ filePath }, 'No image derivatives config found, generating no derivatives');
+      return [];
+    }
+    throw err;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<DerivativePresetsConfig>;
+  const errors: string[] = [];
+  if (!Array.isArray(parsed?.presets)) {
+    errors.push('presets must be a list');
+  } else {
+    parsed.presets.forEach((preset, i) => errors.push(...validatePreset(preset, `presets[${i}]`)));
+
+    const names = parsed.presets.map((preset) => preset?.name);
+    const duplicates = names.filter((name, i) => names.indexOf(name) !== i);
+    if (duplicates.length > 0) {
+      errors.push(`preset names must be unique, repeated: ${[...new Set(duplicates)].join(', ')}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid image derivatives config ${filePath}:\n  ${errors.join('\n  ')}`);
+  }
+  return parsed.presets!;
+}
@@ -0,0 +1,36 @@
+import { env } from './env';
+import { RetryPolicy } from '../types/errors';
+
+/**
+ * Retry policy of each operation, on top of the defaults below.
+ * Operations not listed here use the defaults.
+ *
+ * - unsplash-request / pexels-request: search API calls, quota pauses are handled by
+ *   the Unsplash rate limiter, not here
+ * - unsplash-download: download tracking of a registered photo, its failure only costs
+ *   the photographer a download count
+ * - image-download:   one candidate image, cheap to give up on (the next candidate is tried)
+ * - storage-upload:   one image to the storage backend
+ * - laravel-register: registration of the uploaded images, retried longer as the uploads
+ *   are lost work otherwise
+ */
+export const RETRY_POLICIES: Record<string, Partial<RetryPolicy>> = {
+  'unsplash-request': { maxElapsedMs: 30_000 },
+  'unsplash-download': { maxElapsedMs: 30_000 },
+  'pexels-request': { maxElapsedMs: 30_000 },
+  'image-download': { maxDelayMs: 5_000, maxElapsedMs: 20_000 },
+  'storage-upload': { attempts: 4, maxElapsedMs: 60_000 },
+  'laravel-register': { attempts: 5, maxDelayMs: 15_000, maxElapsedMs: 90_000 },
+};
+
+export function retryPolicyFor(operationName: string): RetryPolicy {
+  return {
+    attempts: env.retryAttempts,
+    backoffMs: env.retryBackoffMs,
+    factor: 2,
+    maxDelayMs: 10_000,
+    maxElapsedMs: env.retryMaxElapsedMs,
+    jitter: true,
+    ...RETRY_POLICIES[operationName],
+  };
+}
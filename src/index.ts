@@ -1,14 +1,22 @@
 /**
- * env loader will be called
+ * env loader will be called (with the commands of the CLI), an invalid configuration is
+ * reported with every problem found and exits with code 1 (`--help` and `config check`
+ * work without a valid configuration)
  * logger will be initialized
- * fastify will be initialized
- * routes will be registered
- * start the server
+ * the command line will be run (see cli.ts, `node index.js --help`):
+ *   ingest (default), retry-failed, status, purge, verify, report
+ *     run the command, then exit with its exit code
+ *   serve (or --serve)
+ *     fastify will be initialized, routes will be registered (see server.ts)
+ *     start the server on HOST:PORT
+ *   consume
+ *     serve the product webhook and process its events until SIGTERM, then exit once drained
  */
 import 'dotenv/config';
 
 import { logger } from './utils/logger';
-import { ImageIngestionWorker } from './workers/ImageIngestionWorker';
+import { ConfigError } from './config/configLoader';
+import { runCli } from './cli';
 
 // Log unhandled promise rejections and exceptions
 process.on('unhandledRejection', (reason) => {
@@ -21,12 +29,17 @@ process.on('uncaughtException', (error) => {
 
 async function main() {
   try {
-    logger.info('Starting image ingestion worker...');
-    const worker = new ImageIngestionWorker();
-    await worker.run();
-    logger.info('Image ingestion worker started successfully.');
-    process.exit(0);
+    const exitCode = await runCli(process.argv.slice(2));
+
+    // undefined: a long-running command (serve), keep the process alive
+    if (exitCode !== undefined) {
+      process.exit(exitCode);
+    }
   } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`${error.message}\n\nSee .env.example, or run: node index.js config check`);
+      process.exit(1);
+    }
     logger.error({ error }, 'Image ingestion worker failed with an error');
     process.exit(1);
   }
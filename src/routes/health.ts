@@ -1,6 +1,24 @@
 /**
- * Check the health of the server
+ * Check the health of the server and of its dependencies
  * fastify.get('/health', healthCheck)
- * returns 200 OK if the server is up and running
- * JSON response: { status: 'ok' }
- */
\ No newline at end of file
+ * returns 200 when Unsplash (and Pexels, when configured), the storage backend, Laravel and
+ * the event queue (`consume` only) are reachable, 503 when any of them is down.
+ * JSON response: { status: 'ok' | 'degraded', dependencies: { unsplash, pexels?, storage, laravel, queue? } }
+ */
+
+import { FastifyInstance } from 'fastify';
+import { HealthCheckService } from '../services/HealthCheckService';
+
+export type HealthRoutesOptions = {
+  healthCheckService: HealthCheckService;
+};
+
+export default async function healthRoutes(
+  fastify: FastifyInstance,
+  opts: HealthRoutesOptions,
+): Promise<void> {
+  fastify.get('/health', async function (request, reply) {
+    const report = await opts.healthCheckService.check();
+    return reply.code(report.status === 'ok' ? 200 : 503).send(report);
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Ingestion control routes
+ * - POST /ingestions              start a run, body: WorkerOptions (product filter),
+ *                                 409 when `resumeRunId` is still running in this process
+ * - GET  /ingestions/:id          progress and per-product status of a run
+ * - POST /ingestions/:id/cancel   stop starting new products in a run
+ */
+
+import { FastifyInstance } from 'fastify';
+import { IngestionManager, RunInProgressError } from '../services/IngestionManager';
+import { WorkerOptions } from '../types/ingestion';
+
+export type IngestionRoutesOptions = {
+  ingestionManager: IngestionManager;
+};
+
+const runIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', pattern: '^[\\w-]+$' } },
+} as const;
+
+const startBody = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    productIds: { type: 'array', items: { type: 'integer', minimum: 1 }, minItems: 1 },
+    productRanges: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'array',
+        items: { type: 'integer', minimum: 1 },
+        minItems: 2,
+        maxItems: 2,
+      },
+    },
+    categories: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    statuses: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    fewerThanImages: { type: 'integer', minimum: 1 },
+    limit: { type: 'integer', minimum: 1 },
+    shuffleSeed: { type: 'string' },
+    useFailed: { type: 'boolean' },
+    resumeRunId: { type: 'string', pattern: '^[\\w-]+$' },
+  },
+} as const;
+
+export default async function ingestionRoutes(
+  fastify: FastifyInstance,
+  opts: IngestionRoutesOptions,
+): Promise<void> {
+  const { ingestionManager } = opts;
+
+  fastify.post<{ Body: WorkerOptions }>(
+    '/ingestions',
+    { schema: { body: startBody } },
+    async function (request, reply) {
+      try {
+        const status = await ingestionManager.start(request.body ?? {});
+        return reply.code(202).send(status);
+      } catch (error) {
+        if (error instanceof RunInProgressError) {
+          return reply.code(409).send({ error: error.message });
+        }
+        throw error;
+      }
+    },
+  );
+
+  fastify.get<{ Params: { id: string } }>(
+    '/ingestions/:id',
+    { schema: { params: runIdParams } },
+    async function (request, reply) {
+      const status = await ingestionManager.get(request.params.id);
+      if (!status) {
+        return reply.code(404).send({ error: `Ingestion run ${request.params.id} not found` });
+      }
+      return status;
+    },
+  );
+
+  fastify.post<{ Params: { id: string } }>(
+    '/ingestions/:id/cancel',
+    { schema: { params: runIdParams } },
+    async function (request, reply) {
+      if (!ingestionManager.cancel(request.params.id)) {
+        return reply
+          .code(409)
+          .send({ error: `Ingestion run ${request.params.id} is not running in this process` });
+      }
+      return reply.code(202).send(await ingestionManager.get(request.params.id));
+    },
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Process metrics for Prometheus
+ * fastify.get('/metrics')
+ * returns every metric of the process (see utils/metrics.ts) in the Prometheus text format:
+ * products processed and failed, images downloaded, uploaded and registered, bytes,
+ * dependency latencies and retries.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { MetricsRegistry } from '../utils/metrics';
+
+export type MetricsRoutesOptions = {
+  registry: MetricsRegistry;
+};
+
+export default async function metricsRoutes(
+  fastify: FastifyInstance,
+  opts: MetricsRoutesOptions,
+): Promise<void> {
+  fastify.get('/metrics', async function (request, reply) {
+    return reply
+      .header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+      .send(opts.registry.render());
+  });
+}
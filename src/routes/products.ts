@@ -0,0 +1,43 @@
+/**
+ * Product routes
+ * - POST /products/:id/reingest   run the pipeline for a single product, e.g. right
+ *                                 after the Laravel admin created it
+ */
+
+import { FastifyInstance } from 'fastify';
+import { IngestionManager } from '../services/IngestionManager';
+import { ProductCatalog } from '../services/ProductCatalog';
+
+export type ProductRoutesOptions = {
+  ingestionManager: IngestionManager;
+};
+
+export default async function productRoutes(
+  fastify: FastifyInstance,
+  opts: ProductRoutesOptions,
+): Promise<void> {
+  const { ingestionManager } = opts;
+
+  fastify.post<{ Params: { id: number } }>(
+    '/products/:id/reingest',
+    {
+      schema: {
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: { id: { type: 'integer', minimum: 1 } },
+        },
+      },
+    },
+    async function (request, reply) {
+      // Checked up front: an unknown product must not leave an empty run behind
+      const catalog = await ProductCatalog.load();
+      if (!catalog.products.some((product) => product.id === request.params.id)) {
+        return reply.code(404).send({ error: `Product ${request.params.id} not found` });
+      }
+
+      const status = await ingestionManager.start({ productIds: [request.params.id] }, { catalog });
+      return reply.code(202).send(status);
+    },
+  );
+}
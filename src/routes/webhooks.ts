@@ -0,0 +1,63 @@
+/**
+ * Webhooks posted by Laravel
+ * - POST /webhooks/products   queue a product-created event for the consumer
+ *
+ * Requests are signed with WEBHOOK_SECRET (see utils/webhookSignature.ts), unsigned or
+ * stale ones get 401. The JSON body is validated and queued by ProductEventIntake:
+ * 422 when it is not a valid product-created event, otherwise
+ * 202 { eventId, productId, queued }, `queued` is false when the product is already queued.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ProductEventIntake } from '../services/ProductEventIntake';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from '../utils/webhookSignature';
+
+export type WebhookRoutesOptions = {
+  intake: ProductEventIntake;
+  secret: string;
+};
+
+function header(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export default async function webhookRoutes(
+  fastify: FastifyInstance,
+  opts: WebhookRoutesOptions,
+): Promise<void> {
+  const { intake, secret } = opts;
+
+  // The signature covers the raw body, so JSON is parsed by the route (in this plugin only)
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) =>
+    done(null, body),
+  );
+
+  fastify.post<{ Body: Buffer }>('/webhooks/products', async function (request, reply) {
+    const body = Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0);
+    const problem = verifySignature(
+      secret,
+      body,
+      header(request.headers[SIGNATURE_HEADER.toLowerCase()]),
+      header(request.headers[TIMESTAMP_HEADER.toLowerCase()]),
+    );
+    if (problem) {
+      intake.reject(problem, 'webhook');
+      return reply.code(401).send({ error: problem });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString('utf-8'));
+    } catch {
+      intake.reject('Body must be JSON', 'webhook');
+      return reply.code(400).send({ error: 'Body must be JSON' });
+    }
+
+    const result = await intake.accept(payload, 'webhook');
+    if (result.outcome === 'rejected') {
+      return reply.code(422).send({ error: result.error, details: result.details });
+    }
+    const { eventId, productId, outcome } = result;
+    return reply.code(202).send({ eventId, productId, queued: outcome === 'queued' });
+  });
+}
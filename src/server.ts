@@ -0,0 +1,65 @@
+/**
+ * Fastify server exposing the ingestion control API:
+ * - GET  /health
+ * - GET  /metrics (Prometheus)
+ * - POST /ingestions, GET /ingestions/:id, POST /ingestions/:id/cancel
+ * - POST /products/:id/reingest
+ * - POST /webhooks/products, when given an event queue and WEBHOOK_SECRET is set
+ *   (`consume` command)
+ *
+ * Ingestion and product routes need the X-Internal-Token header (see utils/apiToken.ts)
+ * and are only served when CONTROL_API_TOKEN is set. Health and metrics stay open, for
+ * probes and Prometheus scrapes. Webhooks are signed instead.
+ */
+
+import Fastify, { FastifyBaseLogger, FastifyInstance } from 'fastify';
+import { env } from './config/env';
+import { logger } from './utils/logger';
+import { IngestionManager } from './services/IngestionManager';
+import { HealthCheckService } from './services/HealthCheckService';
+import { ProductEventIntake } from './services/ProductEventIntake';
+import { createStorageBackend } from './services/StorageBackendFactory';
+import { metrics, MetricsRegistry } from './utils/metrics';
+import { requireApiToken } from './utils/apiToken';
+import { ProductEventQueue } from './types/queue';
+import healthRoutes from './routes/health';
+import metricsRoutes from './routes/metrics';
+import ingestionRoutes from './routes/ingestions';
+import productRoutes from './routes/products';
+import webhookRoutes from './routes/webhooks';
+
+export type ServerDependencies = {
+  ingestionManager?: IngestionManager;
+  healthCheckService?: HealthCheckService;
+  registry?: MetricsRegistry;
+  eventQueue?: ProductEventQueue;
+};
+
+export function buildServer(dependencies: ServerDependencies = {}): FastifyInstance {
+  const { eventQueue } = dependencies;
+  const {
+    ingestionManager = new IngestionManager(),
+    healthCheckService = new HealthCheckService(createStorageBackend(), eventQueue),
+    registry = metrics,
+  } = dependencies;
+
+  const fastify = Fastify({ loggerInstance: logger as FastifyBaseLogger });
+
+  fastify.register(healthRoutes, { healthCheckService });
+  fastify.register(metricsRoutes, { registry });
+  const { controlApiToken } = env;
+  if (controlApiToken) {
+    // Scoped: the token hook only guards the routes registered in here
+    fastify.register(async function (api) {
+      api.addHook('preHandler', requireApiToken(controlApiToken));
+      api.register(ingestionRoutes, { ingestionManager });
+      api.register(productRoutes, { ingestionManager });
+    });
+  }
+  if (eventQueue && env.webhookSecret) {
+    const intake = new ProductEventIntake(eventQueue);
+    fastify.register(webhookRoutes, { intake, secret: env.webhookSecret });
+  }
+
+  return fastify;
+}
@@ -2,130 +2,458 @@
  * CloudinaryService
  * ------------------
  * Responsibilities:
- * 1. Download image URLs (from Unsplash) as binary buffers.
- * 2. Detect MIME type if necessary.
- * 3. Upload buffers to Cloudinary under:
+ * 1. Download image URLs (from the image sources) as streams, through a MeteredStream:
+ *    size and sha256 are computed on the fly and a download stops as soon as it exceeds
+ *    the category's maxBytes. file:// URLs (local directory source) are read from disk.
+ * 2. Validate and normalize each download with ImageProcessor (real format from
+ *    magic bytes, size/resolution/aspect rules, resize, convert, strip EXIF).
+ *    Rejected images are replaced by the next candidate URL.
+ * 3. Upload buffers to the storage backend selected by STORAGE_BACKEND under:
  *      products/<productId>/image_<index>.jpg
- * 4. Return Cloudinary secure URLs for each uploaded image.
- * 5. Apply retry + exponential backoff when Cloudinary returns errors.
- * 6. Log all events (info, warn, error) using the Pino logger.
+ *    - cloudinary (default): CloudinaryStorageBackend
+ *    - local: LocalStorageBackend, files on disk
+ *    - s3: S3StorageBackend, any S3-compatible bucket (e.g. a local MinIO)
+ * 4. Return secure URLs for each uploaded image, with the attribution of its source photo
+ *    (photographer, alt text...), which the storage backend keeps with the file, and its
+ *    score as a product photo (see scoreImage).
+ * 5. Retry transient download and upload errors (policies `image-download` and
+ *    `storage-upload`, see RETRY_POLICIES). These are the only retries around
+ *    downloads and uploads, uploadAll itself is not retried.
+ * 6. Stop calling the storage backend once it keeps failing (circuit breaker).
+ * 7. Log all events (info, warn, error) using the Pino logger.
+ * 8. Delete stored images: the images of a product whose registration failed for good
+ *    (compensation, see ImageIngestionWorker), or a whole product folder (purge).
+ * 9. Check, before registration, that every derivative of the uploaded images exists.
+ *    Missing derivatives are generated again once, then the product fails as transient.
+ * 10. With IMAGE_STREAMING=true and a backend that supports it, pipe each download straight
+ *     into the upload instead of buffering it (see uploadStreamed). A download or upload that
+ *     fails partway is retried from scratch, nothing of the broken attempt is kept.
+ *     The stored (normalized) image is then read back once for the checks that need its
+ *     pixels: near-duplicate detection and the background score. A duplicate is only
+ *     found after its upload, and deleted again.
  *
  * Environment variables needed:
+ * - STORAGE_BACKEND=cloudinary
+ * - IMAGE_STREAMING=false
  * - CLOUDINARY_CLOUD_NAME
  * - CLOUDINARY_API_KEY
  * - CLOUDINARY_API_SECRET
  * - CLOUDINARY_UPLOAD_FOLDER=products
  * - RETRY_ATTEMPTS=3
  * - RETRY_BACKOFF_MS=500
+ * - CIRCUIT_BREAKER_THRESHOLD=5
+ * - CIRCUIT_BREAKER_RESET_MS=60000
  *
  * Methods:
- * - downloadImage(url) -> Buffer
- * - uploadImage(buffer, productId, index) -> secure_url
- * - uploadAll(imageUrls, productId) -> secure_url[]
+ * - downloadImage(url, maxBytes) -> buffer, bytes and checksum
+ * - uploadBuffer(buffer, productId, index, source) -> image
+ * - uploadAll(candidates, count, productId, options) -> image[]
+ * - verifyDerivatives(productId, images) -> images, with regenerated derivatives
+ * - removeImages(publicIds) -> public_ids actually deleted
+ * - removeProductFolder(productId) -> number of images deleted
  */
 
 import axios from 'axios';
-import { v2 as cloudinary } from 'cloudinary';
+import { createReadStream, promises as fs } from 'fs';
+import { IncomingMessage } from 'http';
+import { Readable } from 'stream';
+import { fileURLToPath } from 'url';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { retry } from '../utils/retry';
-import type { UploadApiResponse, UploadApiErrorResponse } from 'cloudinary';
+import { classifyError, NotFoundError, TransientError } from '../utils/errors';
+import { MeteredStream, StreamDigest } from '../utils/imageStream';
+import { circuitBreakerFor } from '../utils/circuitBreaker';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { checkExists } from '../utils/http';
+import { backgroundPlainness, scoreImage } from '../utils/imageScore';
+import {
+  bytesDownloaded,
+  bytesUploaded,
+  dependencyDuration,
+  imagesDownloaded,
+  imagesRejected,
+  imagesUploaded,
+} from '../utils/metrics';
 import { image } from '../types/image';
+import { SourceImage } from '../types/imageSource';
+import { StorageBackend } from '../types/storage';
+import { ImageRules, ProcessedImage } from '../types/imageProcessing';
+import { createStorageBackend } from './StorageBackendFactory';
+import { ImageProcessor, ImageRejectedError } from './ImageProcessor';
+
+export type UploadAllOptions = {
+  categorySlug: string;
+  // Index of the first slot, after the images the product already has (default 0)
+  firstIndex?: number;
+  // Images uploaded by an earlier attempt, keyed by index. These are reused, not re-uploaded.
+  uploaded?: Record<number, image>;
+  // Candidates not worth trying: already behind an uploaded index, or rejected before
+  excludedUrls?: string[];
+  onDownloaded?: (index: number, url: string, digest: StreamDigest) => Promise<void>;
+  // Last check before upload, may throw ImageRejectedError to move on to the next candidate.
+  // Streamed uploads get it after the upload, with the stored image read back.
+  onProcessed?: (index: number, url: string, image: ProcessedImage) => Promise<void>;
+  onUploaded?: (index: number, url: string, image: image) => Promise<void>;
+  onRejected?: (index: number, url: string, error: ImageRejectedError) => Promise<void>;
+};
+
+export type DownloadedImage = StreamDigest & {
+  buffer: Buffer;
+};
+
+const DOWNLOAD_TIMEOUT_MS = 8000;
 
 export class CloudinaryService {
-  constructor() {
-    cloudinary.config({
-      cloud_name: env.cloudinaryCloudName,
-      api_key: env.cloudinaryApiKey,
-      api_secret: env.cloudinaryApiSecret,
-    });
+  private readonly streaming: boolean;
+
+  constructor(
+    private readonly storage: StorageBackend = createStorageBackend(),
+    private readonly processor: ImageProcessor = new ImageProcessor(),
+  ) {
+    this.streaming = env.imageStreaming && storage.uploadStream !== undefined;
+    if (env.imageStreaming && !this.streaming) {
+      logger.warn(
+        { storage: storage.name },
+        'Storage backend cannot upload streams, IMAGE_STREAMING is ignored',
+      );
+    }
   }
 
   /*
-   * Download image from Unsplash (as Buffer)
+   * Download image from its source URL (as Buffer), at most maxBytes
    */
-  async downloadImage(url: string): Promise<Buffer> {
-    return await retry(
-      async () => {
-        const response = await axios.get<ArrayBuffer>(url, {
-          responseType: 'arraybuffer', // We need response as buffer
-          timeout: 8000,
-        });
-
-        return Buffer.from(response.data);
-      },
-      {
-        operationName: 'cloudinary-download',
-      },
+  async downloadImage(url: string, maxBytes: number = Infinity): Promise<DownloadedImage> {
+    const download = async () => {
+      const meter = await this.openDownload(url, maxBytes);
+      const chunks: Buffer[] = [];
+      for await (const chunk of meter) {
+        chunks.push(chunk);
+      }
+      return { buffer: Buffer.concat(chunks), ...meter.digest() };
+    };
+
+    // Local files are not worth retrying
+    if (url.startsWith('file:')) {
+      return await download();
+    }
+    return await dependencyDuration.time(
+      () => retry(download, { operationName: 'image-download' }),
+      (outcome) => ({ dependency: 'image-host', outcome }),
     );
   }
 
   /*
-   * Upload image buffer to Cloudinary
+   * Open a download through a new MeteredStream. An announced size above maxBytes is
+   * rejected before any byte is read.
    */
-  async uploadBuffer(buffer: Buffer, productId: string, index: number): Promise<UploadApiResponse> {
-    return await retry(
-      async () => {
-        const folder = `${env.cloudinaryUploadFolder}/${productId}`;
+  private async openDownload(
+    url: string,
+    maxBytes: number,
+    inspectHead?: (head: Buffer) => void,
+  ): Promise<MeteredStream> {
+    let source: Readable;
+    let expectedBytes: number | undefined;
 
-        return new Promise<UploadApiResponse>((resolve, reject) => {
-          const upload = cloudinary.uploader.upload_stream(
-            {
-              folder,
-              public_id: `image_${index}`,
-              resource_type: 'image',
-            },
-            (err: UploadApiErrorResponse | undefined, result: UploadApiResponse | undefined) => {
-              if (err) return reject(err);
-              if (!result?.secure_url)
-                return reject(new Error('No secure_url returned from Cloudinary'));
-              resolve(result);
-            },
-          );
-          upload.end(buffer);
-        });
-      },
+    if (url.startsWith('file:')) {
+      const filePath = fileURLToPath(url);
+      expectedBytes = (await fs.stat(filePath)).size;
+      source = createReadStream(filePath);
+    } else {
+      const response = await axios.get<IncomingMessage>(url, {
+        responseType: 'stream',
+        timeout: DOWNLOAD_TIMEOUT_MS,
+      });
+      const length = Number(response.headers['content-length']);
+      // Bodies are decompressed, their size no longer matches the compressed Content-Length
+      const encoding = response.headers['content-encoding'];
+      const identity = !encoding || encoding === 'identity';
+      expectedBytes = identity && Number.isInteger(length) && length > 0 ? length : undefined;
+
+      const body = response.data;
+      // axios' timeout stops at the response headers, a stalled body is cut off here
+      body.setTimeout(DOWNLOAD_TIMEOUT_MS, () => {
+        body.destroy(new TransientError(`Download stalled for ${DOWNLOAD_TIMEOUT_MS}ms`));
+      });
+      source = body;
+    }
+
+    if (expectedBytes !== undefined && expectedBytes > maxBytes) {
+      source.destroy();
+      throw new ImageRejectedError(
+        'too-large',
+        `Image is ${expectedBytes} bytes, the limit is ${maxBytes}`,
+      );
+    }
+
+    const meter = new MeteredStream({ maxBytes, expectedBytes, inspectHead });
+    source.once('error', (error) => meter.destroy(error));
+    meter.once('error', () => source.destroy());
+    return source.pipe(meter);
+  }
+
+  /*
+   * Upload image buffer to the configured storage backend (Cloudinary by default).
+   * Fails fast with DependencyOpenError while the backend's circuit is open.
+   */
+  async uploadBuffer(
+    buffer: Buffer,
+    productId: string,
+    index: number,
+    source?: SourceImage,
+  ): Promise<image> {
+    return await circuitBreakerFor(this.storage.name).execute(() =>
+      retry(() => this.storage.upload(buffer, productId, index, source), {
+        operationName: 'storage-upload',
+      }),
+    );
+  }
+
+  /*
+   * Delete stored images, best effort: failures are logged and left out of the result
+   */
+  async removeImages(publicIds: string[]): Promise<string[]> {
+    const results = await Promise.allSettled(
+      publicIds.map((publicId) =>
+        circuitBreakerFor(this.storage.name).execute(() =>
+          retry(() => this.storage.remove(publicId), { operationName: 'storage-delete' }),
+        ),
+      ),
+    );
+
+    const failed = publicIds.filter((_, i) => results[i].status === 'rejected');
+    if (failed.length > 0) {
+      logger.warn({ publicIds: failed }, 'Failed to delete stored images');
+    }
+    return publicIds.filter((_, i) => results[i].status === 'fulfilled');
+  }
+
+  /*
+   * Make sure every derivative of the images can be served before Laravel links to them.
+   * An image with missing derivatives gets them generated again, once.
+   */
+  async verifyDerivatives(productId: number, images: image[]): Promise<image[]> {
+    return await mapWithConcurrency(images, env.imageConcurrency, async (uploaded) => {
+      if (!uploaded.derivatives?.length) return uploaded;
+
+      let missing = await this.missingDerivatives(uploaded);
+      if (missing.length === 0) return uploaded;
+
+      const { storage } = this;
+      if (storage.derivatives) {
+        logger.warn(
+          { productId, publicId: uploaded.public_id, missing },
+          'Derivatives missing, generating them again',
+        );
+        const derivatives = await circuitBreakerFor(storage.name).execute(() =>
+          retry(() => storage.derivatives!(uploaded.public_id), {
+            operationName: 'storage-derivatives',
+          }),
+        );
+        uploaded = { ...uploaded, derivatives };
+        missing = await this.missingDerivatives(uploaded);
+      }
+
+      if (missing.length > 0) {
+        throw new TransientError(
+          `Derivatives ${missing.join(', ')} of ${uploaded.public_id} cannot be served`,
+        );
+      }
+      return uploaded;
+    });
+  }
+
+  private async missingDerivatives(uploaded: image): Promise<string[]> {
+    const derivatives = uploaded.derivatives ?? [];
+    const errors = await Promise.all(derivatives.map(({ secure_url }) => checkExists(secure_url)));
+    return derivatives.filter((_, i) => errors[i] !== undefined).map(({ name }) => name);
+  }
+
+  async removeProductFolder(productId: number): Promise<number> {
+    return await circuitBreakerFor(this.storage.name).execute(() =>
+      retry(() => this.storage.removeFolder(String(productId)), {
+        operationName: 'storage-delete',
+      }),
+    );
+  }
+
+  private countDownload(digest: StreamDigest): void {
+    imagesDownloaded.inc();
+    bytesDownloaded.inc({}, digest.bytes);
+  }
+
+  /*
+   * Download into memory, validate and normalize with ImageProcessor, upload the result
+   */
+  private async uploadBuffered(
+    source: SourceImage,
+    productId: number,
+    index: number,
+    categorySlug: string,
+    { onDownloaded, onProcessed }: UploadAllOptions,
+  ): Promise<image> {
+    const { url } = source;
+    const maxBytes = this.processor.rulesFor(categorySlug).maxBytes;
+    const { buffer, ...digest } = await this.downloadImage(url, maxBytes);
+    this.countDownload(digest);
+    await onDownloaded?.(index, url, digest);
+
+    const processed = await this.processor.process(buffer, categorySlug);
+    await onProcessed?.(index, url, processed);
+
+    logger.info(
       {
-        operationName: 'cloudinary-upload',
+        productId,
+        index,
+        format: processed.format,
+        width: processed.width,
+        height: processed.height,
       },
+      'Uploading buffer to Cloudinary',
     );
+
+    const background = await backgroundPlainness(processed.buffer);
+    const uploaded = await this.uploadBuffer(processed.buffer, String(productId), index, source);
+    return { ...uploaded, score: scoreImage(processed.width, processed.height, background) };
   }
 
   /*
-   * Upload multiple image URLs to Cloudinary sequentially
+   * Pipe the download straight into the storage upload, the image is never held in memory.
+   * The format is checked on the first bytes, the size rules and onProcessed on the uploaded
+   * image (which the backend normalized); an image that fails them is deleted again.
+   * Download and upload form one attempt, retried together from the start.
    */
-  async uploadAll(imageUrls: string[], productId: number): Promise<image[]> {
-    const images: image[] = [];
-
-    // sequential upload
-    for (let i = 0; i < imageUrls.length; i++) {
-      const originalUrl = imageUrls[i];
-
-      logger.info(
-        {
-          productId,
-          originalUrl,
-          index: i,
-        },
-        'Downloading image for Cloudinary',
-      );
+  private async uploadStreamed(
+    source: SourceImage,
+    productId: number,
+    index: number,
+    rules: ImageRules,
+    { onDownloaded, onProcessed }: UploadAllOptions,
+  ): Promise<image> {
+    const { url } = source;
+    logger.info({ productId, index }, 'Streaming image to Cloudinary');
 
-      const buffer = await this.downloadImage(originalUrl);
-
-      logger.info(
-        {
-          productId,
-          index: i,
-        },
-        'Uploading buffer to Cloudinary',
+    let uploaded: { image: image; digest: StreamDigest };
+    try {
+      uploaded = await circuitBreakerFor(this.storage.name).execute(() =>
+        retry(
+          async () => {
+            const meter = await this.openDownload(url, rules.maxBytes, (head) => {
+              this.processor.checkFormat(head);
+            });
+            const image = await this.storage.uploadStream!(meter, String(productId), index, source);
+            return { image, digest: meter.digest() };
+          },
+          { operationName: 'storage-upload' },
+        ),
       );
+    } catch (error) {
+      // The backend refused the file itself (e.g. Cloudinary "Invalid image file")
+      const classified = classifyError(error);
+      if (classified.errorClass !== 'validation' || classified instanceof ImageRejectedError) {
+        throw classified;
+      }
+      throw new ImageRejectedError('corrupt', classified.message);
+    }
+    this.countDownload(uploaded.digest);
+    await onDownloaded?.(index, url, uploaded.digest);
 
-      const imageResponse = await this.uploadBuffer(buffer, productId.toString(), i);
+    const { width, height, format, secure_url, public_id } = uploaded.image;
+    let background: number;
+    try {
+      this.processor.checkDimensions(width, height, rules);
 
-      const { secure_url, public_id, width, height, bytes, format } = imageResponse;
-      images.push({ secure_url, public_id, width, height, bytes, format });
+      // The stored image is already normalized, far smaller than the download
+      const { buffer } = await this.downloadImage(secure_url);
+      await onProcessed?.(index, url, { buffer, format, width, height });
+      background = await backgroundPlainness(buffer);
+    } catch (error) {
+      await this.removeImages([public_id]);
+      throw error;
     }
 
+    return { ...uploaded.image, score: scoreImage(width, height, background) };
+  }
+
+  /*
+   * Fill `count` image slots from the candidates, at most IMAGE_CONCURRENCY at a time.
+   * Each slot takes the next unused candidate, and the next one again when ImageProcessor
+   * rejects it. The returned array is ordered by slot. Each image gets a score, its position
+   * is decided at registration (see rankImages).
+   */
+  async uploadAll(
+    candidates: SourceImage[],
+    count: number,
+    productId: number,
+    options: UploadAllOptions,
+  ): Promise<image[]> {
+    const {
+      categorySlug,
+      firstIndex = 0,
+      uploaded = {},
+      excludedUrls = [],
+      onDownloaded,
+      onProcessed,
+      onUploaded,
+      onRejected,
+    } = options;
+
+    // Shared by all slots, shift() hands each candidate to exactly one slot
+    const queue = candidates.filter(({ url }) => !excludedUrls.includes(url));
+    const slots = Array.from({ length: count }, (_, i) => firstIndex + i);
+
+    const images = await mapWithConcurrency(
+      slots,
+      env.imageConcurrency,
+      async (i): Promise<image> => {
+        if (uploaded[i]) {
+          logger.info({ productId, index: i }, 'Image already uploaded, skipping');
+          return uploaded[i];
+        }
+
+        for (let candidate = queue.shift(); candidate; candidate = queue.shift()) {
+          const originalUrl = candidate.url;
+          logger.info(
+            {
+              productId,
+              originalUrl,
+              index: i,
+            },
+            'Downloading image for Cloudinary',
+          );
+
+          const rules = this.processor.rulesFor(categorySlug);
+          let uploadedImage: image;
+          try {
+            uploadedImage = this.streaming
+              ? await this.uploadStreamed(candidate, productId, i, rules, options)
+              : await this.uploadBuffered(candidate, productId, i, categorySlug, options);
+          } catch (error) {
+            if (!(error instanceof ImageRejectedError)) throw error;
+
+            logger.warn(
+              { productId, originalUrl, index: i, reason: error.reason, message: error.message },
+              'Image rejected, trying next candidate',
+            );
+            imagesRejected.inc({ reason: error.reason });
+            await onRejected?.(i, originalUrl, error);
+            continue;
+          }
+
+          imagesUploaded.inc({ backend: this.storage.name });
+          bytesUploaded.inc({ backend: this.storage.name }, uploadedImage.bytes);
+          uploadedImage = { ...uploadedImage, source: candidate };
+          await onUploaded?.(i, originalUrl, uploadedImage);
+
+          return uploadedImage;
+        }
+
+        throw new NotFoundError(
+          `Ran out of valid candidate images for product ${productId} index ${i}`,
+        );
+      },
+    );
+
     logger.info(
       {
         productId,
@@ -0,0 +1,242 @@
+/**
+ * CloudinaryStorageBackend
+ * ------------------------
+ * Uploads image buffers to Cloudinary through `upload_stream`:
+ *      <CLOUDINARY_UPLOAD_FOLDER>/<productId>/image_<index>
+ * Cloudinary reports width, height, bytes and format itself.
+ * The attribution of the source photo is stored as contextual metadata (alt, caption,
+ * photographer, photographer_url, source_url) and tags (provider, provider_<photo id>).
+ * Derivative presets (IMAGE_DERIVATIVES_CONFIG_PATH) are generated during the upload as
+ * eager transformations, in preset order, and reported as the image's `derivatives`.
+ * derivatives() generates them again from the stored image (`explicit`).
+ * Streamed uploads (IMAGE_STREAMING) arrive as downloaded, Cloudinary normalizes them on
+ * upload with an incoming transformation (resize to IMAGE_MAX_DIMENSION, IMAGE_TARGET_FORMAT).
+ * Stored images are listed with the Admin API (resources by prefix) and deleted with
+ * `destroy`, which also invalidates the CDN cache. A product folder is emptied by prefix,
+ * then deleted.
+ *
+ * Environment variables needed:
+ * - CLOUDINARY_CLOUD_NAME
+ * - CLOUDINARY_API_KEY
+ * - CLOUDINARY_API_SECRET
+ * - CLOUDINARY_UPLOAD_FOLDER=products
+ * - IMAGE_DERIVATIVES_CONFIG_PATH=./data/image-derivatives.json
+ */
+
+import { v2 as cloudinary } from 'cloudinary';
+import type {
+  UploadApiErrorResponse,
+  UploadApiOptions,
+  UploadApiResponse,
+  UploadStream,
+} from 'cloudinary';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { env } from '../config/env';
+import { loadDerivativePresets } from '../config/derivativePresets';
+import { image, ImageDerivative } from '../types/image';
+import { DerivativePreset } from '../types/derivative';
+import { SourceImage } from '../types/imageSource';
+import { StorageBackend, StoredAsset } from '../types/storage';
+
+/*
+ * Upload options recording where the photo came from, empty for photos without attribution
+ */
+function attributionOptions(source?: SourceImage): UploadApiOptions {
+  if (!source?.provider) return {};
+
+  const context: Record<string, string> = {};
+  const fields: [string, string | undefined][] = [
+    ['alt', source.altDescription],
+    ['caption', source.photographer && `Photo by ${source.photographer} on ${source.provider}`],
+    ['photographer', source.photographer],
+    ['photographer_url', source.photographerUrl],
+    ['source_url', source.pageUrl],
+  ];
+  for (const [key, value] of fields) {
+    if (value) context[key] = value;
+  }
+
+  const tags = [source.provider];
+  if (source.id) tags.push(`${source.provider}_${source.id}`);
+
+  return { context, tags };
+}
+
+function eagerTransformation({ width, height, crop, format, quality }: DerivativePreset) {
+  return { width, height, crop, format, quality };
+}
+
+export class CloudinaryStorageBackend implements StorageBackend {
+  readonly name = 'cloudinary';
+
+  constructor(private readonly presets: DerivativePreset[] = loadDerivativePresets()) {
+    cloudinary.config({
+      cloud_name: env.cloudinaryCloudName,
+      api_key: env.cloudinaryApiKey,
+      api_secret: env.cloudinaryApiSecret,
+    });
+  }
+
+  async upload(
+    buffer: Buffer,
+    productId: string,
+    index: number,
+    source?: SourceImage,
+  ): Promise<image> {
+    const options = attributionOptions(source);
+    return await this.send(productId, index, options, (upload) => upload.end(buffer));
+  }
+
+  async uploadStream(
+    stream: Readable,
+    productId: string,
+    index: number,
+    source?: SourceImage,
+  ): Promise<image> {
+    const options: UploadApiOptions = {
+      ...attributionOptions(source),
+      transformation: [
+        {
+          width: env.imageMaxDimension,
+          height: env.imageMaxDimension,
+          crop: 'limit',
+          quality: env.imageQuality,
+        },
+      ],
+      format: env.imageTargetFormat === 'original' ? undefined : env.imageTargetFormat,
+    };
+
+    // A failed download destroys the upload stream, Cloudinary never sees a complete file
+    return await this.send(productId, index, options, (upload, reject) => {
+      pipeline(stream, upload).catch(reject);
+    });
+  }
+
+  private async send(
+    productId: string,
+    index: number,
+    options: UploadApiOptions,
+    write: (upload: UploadStream, reject: (error: unknown) => void) => void,
+  ): Promise<image> {
+    const folder = `${env.cloudinaryUploadFolder}/${productId}`;
+
+    const result = await new Promise<UploadApiResponse>((resolve, reject) => {
+      const upload = cloudinary.uploader.upload_stream(
+        {
+          ...options,
+          ...this.eagerOptions(),
+          folder,
+          public_id: `image_${index}`,
+          resource_type: 'image',
+          // The callback gets the result, the SDK's own promise would reject unhandled
+          disable_promises: true,
+        },
+        (err: UploadApiErrorResponse | undefined, result: UploadApiResponse | undefined) => {
+          if (err) return reject(err);
+          if (!result?.secure_url)
+            return reject(new Error('No secure_url returned from Cloudinary'));
+          resolve(result);
+        },
+      );
+      write(upload, reject);
+    });
+
+    const { secure_url, public_id, width, height, bytes, format } = result;
+    const derivatives = this.derivativesOf(result.eager);
+    return {
+      secure_url,
+      public_id,
+      width,
+      height,
+      bytes,
+      format,
+      ...(derivatives && { derivatives }),
+    };
+  }
+
+  async derivatives(publicId: string): Promise<ImageDerivative[]> {
+    const result = await cloudinary.uploader.explicit(publicId, {
+      type: 'upload',
+      resource_type: 'image',
+      ...this.eagerOptions(),
+    });
+    return this.derivativesOf(result.eager) ?? [];
+  }
+
+  /*
+   * Generate the derivatives before answering, so their URLs work once the upload returns
+   */
+  private eagerOptions(): UploadApiOptions {
+    if (this.presets.length === 0) return {};
+    return { eager: this.presets.map(eagerTransformation), eager_async: false };
+  }
+
+  /*
+   * Derivatives of an upload or explicit response, eager results come back in preset order
+   */
+  private derivativesOf(eager?: Partial<ImageDerivative>[]): ImageDerivative[] | undefined {
+    if (this.presets.length === 0) return undefined;
+
+    return this.presets.map((preset, i) => {
+      const result = eager?.[i];
+      if (!result?.secure_url) {
+        throw new Error(`Cloudinary generated no ${preset.name} derivative`);
+      }
+      const { secure_url, width = 0, height = 0, bytes = 0, format = '' } = result;
+      return { name: preset.name, secure_url, width, height, bytes, format };
+    });
+  }
+
+  async list(productId: string): Promise<StoredAsset[]> {
+    const assets: StoredAsset[] = [];
+    let nextCursor: string | undefined;
+
+    do {
+      const page = await cloudinary.api.resources({
+        type: 'upload',
+        resource_type: 'image',
+        prefix: `${env.cloudinaryUploadFolder}/${productId}/`,
+        max_results: 500,
+        next_cursor: nextCursor,
+      });
+      for (const { public_id, secure_url, bytes, format, width, height } of page.resources) {
+        assets.push({ public_id, secure_url, bytes, format, width, height });
+      }
+      nextCursor = page.next_cursor;
+    } while (nextCursor);
+
+    return assets;
+  }
+
+  async remove(publicId: string): Promise<void> {
+    await cloudinary.uploader.destroy(publicId, { resource_type: 'image', invalidate: true });
+  }
+
+  async removeFolder(productId: string): Promise<number> {
+    const folder = `${env.cloudinaryUploadFolder}/${productId}`;
+    let removed = 0;
+
+    // Each call deletes at most 1000 images, `partial` means some are left
+    for (let partial = true; partial; ) {
+      const result = await cloudinary.api.delete_resources_by_prefix(`${folder}/`, {
+        resource_type: 'image',
+        invalidate: true,
+      });
+      removed += Object.keys(result.deleted ?? {}).length;
+      partial = Boolean(result.partial);
+    }
+
+    try {
+      await cloudinary.api.delete_folder(folder);
+    } catch (err: any) {
+      if (err?.error?.http_code !== 404) throw err;
+    }
+
+    return removed;
+  }
+
+  async ping(): Promise<void> {
+    await cloudinary.api.ping();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * ConfigCheckService
+ * ------------------
+ * Startup checks behind `node index.js config check`:
+ * 1. List every setting with its value (secrets masked) and where it comes from
+ *    (default, profile, config file or environment, see configLoader.ts).
+ *    The configuration itself is already valid: cli.ts lists the problems of an invalid
+ *    one instead of running the check.
+ * 2. Load and validate every config file the pipeline reads (image sources, category
+ *    queries, image rules, derivative presets, categories and products), reporting
+ *    the problems of each instead of stopping at the first one.
+ * 3. Ping every configured dependency (see HealthCheckService), Redis included when
+ *    QUEUE_BACKEND=redis.
+ */
+
+import { env, loadedConfig } from '../config/env';
+import { CONFIG_SCHEMA } from '../config/configSchema';
+import { displayValue } from '../config/configLoader';
+import { CategoryQueries } from '../config/categoryQueries';
+import { loadDerivativePresets } from '../config/derivativePresets';
+import { ConfigCheck, EnvConfig } from '../types/config';
+import { classifyError } from '../utils/errors';
+import { createEventQueue } from './EventQueueFactory';
+import { HealthCheckService, HealthReport } from './HealthCheckService';
+import { ImageProcessor } from './ImageProcessor';
+import { ImageSourceRegistry } from './ImageSourceRegistry';
+import { ProductCatalog } from './ProductCatalog';
+import { createStorageBackend } from './StorageBackendFactory';
+
+export class ConfigCheckService {
+  constructor(private readonly healthCheckService?: HealthCheckService) {}
+
+  async check(): Promise<ConfigCheck> {
+    const { config, profile, configFile, sources } = loadedConfig;
+
+    const settings = (Object.keys(CONFIG_SCHEMA) as (keyof EnvConfig)[]).map((name) => ({
+      name,
+      env: CONFIG_SCHEMA[name].env,
+      value: displayValue(name, config[name]),
+      source: sources[name],
+    }));
+
+    const files = await Promise.all([
+      this.checkFile('image sources', env.imageSourcesConfigPath, () => new ImageSourceRegistry()),
+      this.checkFile(
+        'category queries',
+        env.categoryQueriesConfigPath,
+        () => new CategoryQueries(),
+      ),
+      this.checkFile('image rules', env.imageRulesConfigPath, () => new ImageProcessor()),
+      this.checkFile('image derivatives', env.imageDerivativesConfigPath, () =>
+        loadDerivativePresets(),
+      ),
+      this.checkFile('product catalog', env.productInputJsonPath, () => ProductCatalog.load()),
+    ]);
+
+    const health = await this.checkHealth();
+    const dependencies = Object.entries(health.dependencies).map(([name, result]) => ({
+      name: result.name ? `${name} (${result.name})` : name,
+      status: result.status,
+      latencyMs: result.latencyMs,
+      detail: result.error ?? (result.httpStatus ? `HTTP ${result.httpStatus}` : undefined),
+    }));
+
+    return { profile, configFile, settings, files, dependencies };
+  }
+
+  private async checkHealth(): Promise<HealthReport> {
+    if (this.healthCheckService) return await this.healthCheckService.check();
+
+    // The in-memory queue lives in the `consume` process, there is nothing to ping here
+    const queue = env.queueBackend === 'redis' ? createEventQueue() : undefined;
+    try {
+      return await new HealthCheckService(createStorageBackend(), queue).check();
+    } finally {
+      await queue?.close();
+    }
+  }
+
+  private async checkFile(
+    name: string,
+    path: string,
+    load: () => unknown,
+  ): Promise<ConfigCheck['files'][number]> {
+    try {
+      await load();
+      return { name, path };
+    } catch (error) {
+      return { name, path, error: classifyError(error).message };
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * CsvProductSource
+ * ----------------
+ * Product source reading a CSV file with a header row:
+ *      id,name,slug,description,status,price,weight,categories
+ *
+ * Category IDs are separated by `|` (e.g. `3|7`), the first one is the image category.
+ * Numeric columns are converted, values that are not numbers are kept as text so
+ * validation reports them.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { env } from '../config/env';
+import { parseCsv } from '../utils/csv';
+import { ProductSource, RawProductRecord } from '../types/product';
+
+const NUMERIC_COLUMNS = new Set(['id', 'price', 'weight']);
+
+function toNumber(value: string): number | string {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) ? number : value;
+}
+
+export class CsvProductSource implements ProductSource {
+  readonly name = 'csv';
+
+  constructor(private readonly filePath: string = env.productInputJsonPath) {}
+
+  async load(): Promise<RawProductRecord[]> {
+    const [header, ...rows] = parseCsv(await fs.readFile(this.filePath, 'utf-8'));
+    if (!header) return [];
+
+    const columns = header.fields.map((column) => column.trim());
+    const fileName = path.basename(this.filePath);
+
+    return rows.map(({ line, fields }) => {
+      const value: Record<string, unknown> = {};
+
+      columns.forEach((column, i) => {
+        const cell = fields[i];
+        if (cell === undefined || cell === '') return;
+
+        if (column === 'categories') {
+          value.categories = cell.split('|').map((id) => toNumber(id.trim()));
+        } else {
+          value[column] = NUMERIC_COLUMNS.has(column) ? toNumber(cell) : cell;
+        }
+      });
+
+      return { location: `${fileName} line ${line}`, value };
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { env } from '../config/env';
+import { ProductEventQueue } from '../types/queue';
+import { InMemoryEventQueue } from './InMemoryEventQueue';
+import { RedisEventQueue } from './RedisEventQueue';
+
+const EVENT_QUEUES: Record<string, () => ProductEventQueue> = {
+  memory: () => new InMemoryEventQueue(),
+  redis: () => new RedisEventQueue(),
+};
+
+/*
+ * Build the product event queue selected by QUEUE_BACKEND (memory by default)
+ */
+export function createEventQueue(name: string = env.queueBackend): ProductEventQueue {
+  const factory = EVENT_QUEUES[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown QUEUE_BACKEND: ${name} (expected ${Object.keys(EVENT_QUEUES).join(', ')})`,
+    );
+  }
+  return factory();
+}
@@ -0,0 +1,54 @@
+/**
+ * HealthCheckService
+ * ------------------
+ * Checks that every external dependency of the pipeline is reachable:
+ * - unsplash: the Unsplash API host
+ * - pexels:   the Pexels API host, when PEXELS_API_KEY is set
+ * - storage:  the configured storage backend (Cloudinary ping, local dir, S3 bucket)
+ * - laravel:  the Laravel ingest API base URL
+ * - queue:    the product event queue, when given one (`consume` command)
+ *
+ * Checks run in parallel and never throw, a failing dependency is reported as `down`.
+ */
+
+import { env } from '../config/env';
+import { StorageBackend } from '../types/storage';
+import { ProductEventQueue } from '../types/queue';
+import { checkPing, checkReachable, DependencyHealth } from '../utils/http';
+
+export type HealthReport = {
+  status: 'ok' | 'degraded';
+  dependencies: Record<string, DependencyHealth & { name?: string }>;
+};
+
+export class HealthCheckService {
+  constructor(
+    private readonly storage: StorageBackend,
+    private readonly queue?: ProductEventQueue,
+  ) {}
+
+  async check(): Promise<HealthReport> {
+    const [unsplash, pexels, storage, laravel, queue] = await Promise.all([
+      checkReachable('https://api.unsplash.com/', {
+        Authorization: `Client-ID ${env.unsplashAccessKey}`,
+      }),
+      env.pexelsApiKey
+        ? checkReachable('https://api.pexels.com/v1/', { Authorization: env.pexelsApiKey })
+        : undefined,
+      checkPing(() => this.storage.ping()),
+      checkReachable(env.laravelApiBaseUrl, { 'X-Internal-Token': env.laravelApiToken }),
+      this.queue ? checkPing(() => this.queue!.ping()) : undefined,
+    ]);
+
+    const dependencies = {
+      unsplash,
+      ...(pexels ? { pexels } : {}),
+      storage: { ...storage, name: this.storage.name },
+      laravel,
+      ...(queue ? { queue: { ...queue, name: this.queue!.name } } : {}),
+    };
+    const allOk = Object.values(dependencies).every((health) => health.status === 'ok');
+
+    return { status: allOk ? 'ok' : 'degraded', dependencies };
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * ImageProcessor
+ * --------------
+ * Validation and normalization stage between download and upload.
+ *
+ * Responsibilities:
+ * 1. Sniff the real format from magic bytes (never trust the URL or Content-Type).
+ * 2. Reject non-images and truncated or undecodable files.
+ * 3. Enforce size, resolution and aspect-ratio rules, per category
+ *    (IMAGE_RULES_CONFIG_PATH, see ImageRulesConfig).
+ * 4. Resize to fit IMAGE_MAX_DIMENSION and convert to IMAGE_TARGET_FORMAT
+ *    (`original` keeps the source format).
+ * 5. Strip EXIF and other metadata, after applying the EXIF orientation.
+ *
+ * Rejections throw ImageRejectedError with a reason code, the worker records
+ * them in the run journal and moves on to the next candidate URL.
+ *
+ * Environment variables needed:
+ * - IMAGE_RULES_CONFIG_PATH=./data/image-rules.json
+ * - IMAGE_TARGET_FORMAT=webp
+ * - IMAGE_MAX_DIMENSION=2000
+ * - IMAGE_QUALITY=82
+ */
+
+import { readFileSync } from 'fs';
+import sharp from 'sharp';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { isTruncated, sniffImageFormat } from '../utils/imageFormat';
+import { ImageRejectedError } from '../utils/errors';
+import { ImageRules, ImageRulesConfig, ProcessedImage } from '../types/imageProcessing';
+
+export { ImageRejectedError };
+
+const DEFAULT_RULES: ImageRules = {
+  minWidth: 600,
+  minHeight: 600,
+  minAspectRatio: 0.5,
+  maxAspectRatio: 2,
+  maxBytes: 20 * 1024 * 1024,
+};
+
+// Input formats sharp can decode
+const DECODABLE_FORMATS = new Set(['jpg', 'png', 'gif', 'webp', 'avif', 'tiff']);
+
+/*
+ * Rotate, resize and convert, shared by buffers (ImageProcessor) and files
+ * (LocalStorageBackend streaming uploads). sharp drops EXIF unless told to keep it.
+ */
+export function applyNormalization(image: sharp.Sharp, sourceFormat: string): sharp.Sharp {
+  const targetFormat = env.imageTargetFormat === 'original' ? sourceFormat : env.imageTargetFormat;
+
+  return image
+    .rotate() // bake the EXIF orientation into the pixels before EXIF is stripped
+    .resize({
+      width: env.imageMaxDimension,
+      height: env.imageMaxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .toFormat(targetFormat as keyof sharp.FormatEnum, { quality: env.imageQuality });
+}
+
+function loadImageRulesConfig(filePath: string): ImageRulesConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') {
+      logger.warn({ filePath }, 'No image rules config found, using built-in rules');
+      return { default: {}, categories: {} };
+    }
+    throw err;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<ImageRulesConfig>;
+  return { default: parsed.default ?? {}, categories: parsed.categories ?? {} };
+}
+
+export class ImageProcessor {
+  private readonly config: ImageRulesConfig;
+
+  constructor(configPath: string = env.imageRulesConfigPath) {
+    this.config = loadImageRulesConfig(configPath);
+  }
+
+  rulesFor(categorySlug: string): ImageRules {
+    return {
+      ...DEFAULT_RULES,
+      ...this.config.default,
+      ...this.config.categories[categorySlug],
+    };
+  }
+
+  /*
+   * Validate a downloaded image and re-encode it for upload
+   */
+  async process(buffer: Buffer, categorySlug: string): Promise<ProcessedImage> {
+    const rules = this.rulesFor(categorySlug);
+
+    const sourceFormat = this.checkFormat(buffer);
+    if (isTruncated(buffer, sourceFormat)) {
+      throw new ImageRejectedError('truncated', `${sourceFormat} file is missing its end marker`);
+    }
+    if (buffer.length > rules.maxBytes) {
+      throw new ImageRejectedError(
+        'too-large',
+        `Image is ${buffer.length} bytes, the limit is ${rules.maxBytes}`,
+      );
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(buffer).metadata();
+    } catch (error) {
+      throw new ImageRejectedError('corrupt', `Image could not be decoded: ${String(error)}`);
+    }
+
+    // EXIF orientations 5-8 are rotated by 90°, their displayed size is swapped
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const width = (rotated ? metadata.height : metadata.width) ?? 0;
+    const height = (rotated ? metadata.width : metadata.height) ?? 0;
+    this.checkDimensions(width, height, rules);
+
+    return await this.normalize(buffer, sourceFormat);
+  }
+
+  /*
+   * Sniff the real format from the first bytes of an image, reject what cannot be decoded
+   */
+  checkFormat(head: Buffer): string {
+    const sourceFormat = sniffImageFormat(head);
+    if (!sourceFormat) {
+      throw new ImageRejectedError('not-an-image', 'Downloaded file is not a known image format');
+    }
+    if (!DECODABLE_FORMATS.has(sourceFormat)) {
+      throw new ImageRejectedError(
+        'unsupported-format',
+        `Unsupported image format ${sourceFormat}`,
+      );
+    }
+    return sourceFormat;
+  }
+
+  /*
+   * Size and aspect-ratio rules. Resizing keeps the aspect ratio and only shrinks images
+   * beyond IMAGE_MAX_DIMENSION, so the rules also hold for normalized sizes
+   * (streaming uploads, where the source size is never known).
+   */
+  checkDimensions(width: number, height: number, rules: ImageRules): void {
+    if (width < rules.minWidth || height < rules.minHeight) {
+      throw new ImageRejectedError(
+        'too-small',
+        `Image is ${width}x${height}, the minimum is ${rules.minWidth}x${rules.minHeight}`,
+      );
+    }
+
+    const aspectRatio = width / height;
+    if (aspectRatio < rules.minAspectRatio || aspectRatio > rules.maxAspectRatio) {
+      throw new ImageRejectedError(
+        'bad-aspect-ratio',
+        `Aspect ratio ${aspectRatio.toFixed(2)} is outside ` +
+          `${rules.minAspectRatio}-${rules.maxAspectRatio}`,
+      );
+    }
+  }
+
+  /*
+   * Resize, convert and strip metadata
+   */
+  private async normalize(buffer: Buffer, sourceFormat: string): Promise<ProcessedImage> {
+    try {
+      const { data, info } = await applyNormalization(
+        sharp(buffer, { failOn: 'truncated' }),
+        sourceFormat,
+      ).toBuffer({ resolveWithObject: true });
+
+      return {
+        buffer: data,
+        format: info.format === 'jpeg' ? 'jpg' : info.format,
+        width: info.width,
+        height: info.height,
+      };
+    } catch (error) {
+      const message = String(error);
+      const reason = /truncated|premature end/i.test(message) ? 'truncated' : 'corrupt';
+      throw new ImageRejectedError(reason, `Image could not be converted: ${message}`);
+    }
+  }
+}
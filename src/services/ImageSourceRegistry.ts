@@ -0,0 +1,148 @@
+/**
+ * ImageSourceRegistry
+ * -------------------
+ * Responsibilities:
+ * 1. Build the image source providers referenced by IMAGE_SOURCES_CONFIG_PATH:
+ *      - unsplash: UnsplashService
+ *      - pexels:   PexelsService (needs PEXELS_API_KEY)
+ *      - local:    LocalDirectoryService (<LOCAL_ASSETS_DIR>/<categorySlug>/)
+ * 2. Resolve the provider order of a category (category entry, else `default`).
+ * 3. Fetch images from the first provider that returns any, falling back to the
+ *    next one when a provider returns zero images or fails.
+ * 4. Report the images registered in Laravel to the provider they came from
+ *    (trackDownload, e.g. Unsplash download tracking).
+ *
+ * A missing config file means Unsplash only, which matches the original behavior.
+ * Providers are built by PROVIDER_FACTORIES, unless other factories are given (tests).
+ */
+
+import { readFileSync } from 'fs';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import {
+  ImageSearch,
+  ImageSourceProvider,
+  ImageSourcesConfig,
+  SourceImage,
+} from '../types/imageSource';
+import { UnsplashService } from './UnsplashService';
+import { LocalDirectoryService } from './LocalDirectoryService';
+import { createPexelsService } from './PexelsService';
+
+const DEFAULT_CONFIG: ImageSourcesConfig = { default: ['unsplash'], categories: {} };
+
+export type ProviderFactories = Record<string, () => ImageSourceProvider>;
+
+const PROVIDER_FACTORIES: ProviderFactories = {
+  unsplash: () => new UnsplashService(),
+  pexels: createPexelsService,
+  local: () => new LocalDirectoryService(),
+};
+
+function loadImageSourcesConfig(filePath: string): ImageSourcesConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') {
+      logger.warn({ filePath }, 'No image sources config found, using Unsplash only');
+      return DEFAULT_CONFIG;
+    }
+    throw err;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<ImageSourcesConfig>;
+  return {
+    default: parsed.default?.length ? parsed.default : DEFAULT_CONFIG.default,
+    categories: parsed.categories ?? {},
+  };
+}
+
+export class ImageSourceRegistry {
+  private readonly config: ImageSourcesConfig;
+  private readonly providers = new Map<string, ImageSourceProvider>();
+
+  constructor(
+    configPath: string = env.imageSourcesConfigPath,
+    factories: ProviderFactories = PROVIDER_FACTORIES,
+  ) {
+    this.config = loadImageSourcesConfig(configPath);
+
+    // Instantiate every referenced provider up front, so a typo or a missing
+    // API key fails the run at startup instead of at the first product of that category
+    const referenced = new Set([
+      ...this.config.default,
+      ...Object.values(this.config.categories).flat(),
+    ]);
+    for (const name of referenced) {
+      const factory = factories[name];
+      if (!factory) {
+        throw new Error(`Unknown image source provider in ${configPath}: ${name}`);
+      }
+      this.providers.set(name, factory());
+    }
+  }
+
+  providersFor(categorySlug: string): ImageSourceProvider[] {
+    const names = this.config.categories[categorySlug] ?? this.config.default;
+    return names.map((name) => this.providers.get(name)!);
+  }
+
+  /*
+   * Fetch images from the category's providers in order, stopping at the first non-empty result
+   */
+  async fetchImagesForCategory(search: ImageSearch, wanted: number): Promise<SourceImage[]> {
+    const { categorySlug } = search;
+    const providers = this.providersFor(categorySlug);
+    let lastError: unknown;
+
+    for (const provider of providers) {
+      try {
+        const images = await provider.fetchImagesForCategory(search, wanted);
+        if (images.length > 0) {
+          logger.info(
+            { categorySlug, provider: provider.name, received: images.length },
+            'Image source provided images for category',
+          );
+          return images;
+        }
+        logger.warn(
+          { categorySlug, provider: provider.name },
+          'Image source returned zero images, falling back to next provider',
+        );
+      } catch (error) {
+        lastError = error;
+        logger.warn(
+          { categorySlug, provider: provider.name, error },
+          'Image source failed, falling back to next provider',
+        );
+      }
+    }
+
+    // Surface the failure if no provider answered at all, zero results are not an error here
+    if (lastError) throw lastError;
+    return [];
+  }
+
+  /*
+   * Report used images to their providers. Best effort: a failed report is logged,
+   * the images are registered already.
+   */
+  async trackDownloads(images: SourceImage[]): Promise<void> {
+    await Promise.all(
+      images.map(async (image) => {
+        const provider = image.provider ? this.providers.get(image.provider) : undefined;
+        if (!provider?.trackDownload) return;
+
+        try {
+          await provider.trackDownload(image);
+        } catch (error) {
+          logger.warn(
+            { provider: provider.name, photoId: image.id, error },
+            'Failed to track image download',
+          );
+        }
+      }),
+    );
+  }
+}
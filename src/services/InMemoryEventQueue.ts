@@ -0,0 +1,115 @@
+/**
+ * InMemoryEventQueue
+ * ------------------
+ * Product event queue held in the process (QUEUE_BACKEND=memory), for local runs and
+ * tests. Same semantics as RedisEventQueue, but its events, retries and dead letters
+ * are lost when the process exits.
+ */
+
+import { ProductEvent, ProductEventQueue } from '../types/queue';
+
+export class InMemoryEventQueue implements ProductEventQueue {
+  readonly name = 'memory';
+  private ready: ProductEvent[] = [];
+  private readonly reserved = new Map<string, ProductEvent>();
+  private readonly delayed = new Map<string, { event: ProductEvent; timer: NodeJS.Timeout }>();
+  private dead: ProductEvent[] = [];
+  // Products queued, reserved or waiting for a retry
+  private readonly productIds = new Set<number>();
+  private waiters: (() => void)[] = [];
+
+  async enqueue(event: ProductEvent): Promise<boolean> {
+    if (this.productIds.has(event.product.id)) return false;
+
+    this.productIds.add(event.product.id);
+    this.push(event);
+    return true;
+  }
+
+  async reserve(timeoutMs: number): Promise<ProductEvent | undefined> {
+    if (this.ready.length === 0 && timeoutMs > 0) {
+      await this.waitForEvent(timeoutMs);
+    }
+
+    const event = this.ready.shift();
+    if (event) this.reserved.set(event.id, event);
+    return event;
+  }
+
+  async ack(event: ProductEvent): Promise<void> {
+    this.reserved.delete(event.id);
+    this.productIds.delete(event.product.id);
+  }
+
+  async retry(event: ProductEvent, delayMs: number): Promise<void> {
+    this.reserved.delete(event.id);
+
+    const timer = setTimeout(() => {
+      this.delayed.delete(event.id);
+      this.push(event);
+    }, delayMs);
+    // Pending retries alone do not keep the process alive
+    timer.unref();
+    this.delayed.set(event.id, { event, timer });
+  }
+
+  async deadLetter(event: ProductEvent): Promise<void> {
+    this.reserved.delete(event.id);
+    this.productIds.delete(event.product.id);
+    this.dead.push({ ...event, deadLetteredAt: new Date().toISOString() });
+  }
+
+  async recover(): Promise<number> {
+    const events = [...this.reserved.values()];
+    this.reserved.clear();
+    this.ready = [...events, ...this.ready];
+    this.wake();
+    return events.length;
+  }
+
+  async deadLetters(): Promise<ProductEvent[]> {
+    return [...this.dead];
+  }
+
+  async requeueDeadLetters(): Promise<number> {
+    const events = this.dead;
+    this.dead = [];
+
+    let queued = 0;
+    for (const event of events) {
+      const fresh = { ...event, attempts: 0, deadLetteredAt: undefined };
+      if (await this.enqueue(fresh)) queued++;
+    }
+    return queued;
+  }
+
+  async ping(): Promise<void> {}
+
+  async close(): Promise<void> {
+    for (const { timer } of this.delayed.values()) clearTimeout(timer);
+    this.delayed.clear();
+    while (this.waiters.length > 0) this.wake();
+  }
+
+  private push(event: ProductEvent): void {
+    this.ready.push(event);
+    this.wake();
+  }
+
+  // Wake the longest waiting reserve()
+  private wake(): void {
+    this.waiters[0]?.();
+  }
+
+  private waitForEvent(timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.waiters = this.waiters.filter((waiter) => waiter !== done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      this.waiters.push(done);
+    });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * IngestionManager
+ * ----------------
+ * Responsibilities:
+ * 1. Start ImageIngestionWorker runs in the background for the HTTP control API.
+ * 2. Keep the running workers of this process by run ID, to report progress and cancel
+ *    them. A worker is dropped once its run settles.
+ * 3. Fall back to the run journal for finished runs, and runs started by another process
+ *    or before a restart, so their per-product progress can still be inspected.
+ * 4. Refuse to resume a run that is still running in this process.
+ */
+
+import {
+  emptyProductCounts,
+  ImageIngestionWorker,
+  WorkerDependencies,
+} from '../workers/ImageIngestionWorker';
+import { RunJournal } from './RunJournal';
+import { logger } from '../utils/logger';
+import { IngestionStatus, ProductState, ProductStatus, WorkerOptions } from '../types/ingestion';
+
+/**
+ * The run to resume is still running in this process
+ */
+export class RunInProgressError extends Error {
+  constructor(readonly runId: string) {
+    super(`Ingestion run ${runId} is still running in this process`);
+    this.name = 'RunInProgressError';
+  }
+}
+
+export class IngestionManager {
+  private readonly workers = new Map<string, ImageIngestionWorker>();
+  // Runs being prepared for a resume, not in `workers` yet
+  private readonly resuming = new Set<string>();
+
+  /*
+   * Start a run and return as soon as its products are selected and its journal exists.
+   * Throws RunInProgressError when resuming a run that has not settled yet.
+   */
+  async start(
+    options: WorkerOptions,
+    dependencies: WorkerDependencies = {},
+  ): Promise<IngestionStatus> {
+    const { resumeRunId } = options;
+    if (resumeRunId && (this.workers.has(resumeRunId) || this.resuming.has(resumeRunId))) {
+      throw new RunInProgressError(resumeRunId);
+    }
+
+    const worker = new ImageIngestionWorker(options, dependencies);
+    if (resumeRunId) this.resuming.add(resumeRunId);
+    try {
+      await worker.prepare();
+    } finally {
+      if (resumeRunId) this.resuming.delete(resumeRunId);
+    }
+
+    const runId = worker.runId!;
+    this.workers.set(runId, worker);
+
+    worker
+      .run()
+      .catch((error) => {
+        logger.error({ runId, error }, 'Ingestion run failed');
+      })
+      .finally(() => this.workers.delete(runId));
+
+    return worker.status();
+  }
+
+  async get(runId: string): Promise<IngestionStatus | undefined> {
+    const worker = this.workers.get(runId);
+    if (worker) return worker.status();
+
+    return await this.statusFromJournal(runId);
+  }
+
+  /*
+   * Returns false when the run is not running in this process
+   */
+  cancel(runId: string): boolean {
+    const worker = this.workers.get(runId);
+    if (!worker || worker.status().state !== 'running') return false;
+
+    worker.cancel();
+    logger.info({ runId }, 'Ingestion run cancellation requested');
+    return true;
+  }
+
+  private async statusFromJournal(runId: string): Promise<IngestionStatus | undefined> {
+    let journal: RunJournal;
+    try {
+      journal = await RunJournal.open(runId);
+    } catch {
+      return undefined;
+    }
+
+    const counts = emptyProductCounts();
+
+    const products: ProductStatus[] = journal.productIds.map((productId) => {
+      const progress = journal.progressFor(productId);
+      const state: ProductState = progress?.registered
+        ? 'registered'
+        : progress?.skipped
+          ? 'skipped'
+          : progress?.errorClass === 'dependency-open'
+            ? 'dependency-open'
+            : progress?.error !== undefined
+              ? 'failed'
+              : 'pending';
+      counts[state]++;
+      return {
+        productId,
+        state,
+        stage: progress?.stage,
+        error: progress?.error,
+        errorClass: progress?.errorClass,
+      };
+    });
+
+    return {
+      runId,
+      state: counts.pending === 0 ? 'completed' : 'interrupted',
+      startedAt: journal.startedAt,
+      total: products.length,
+      counts,
+      products,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * InlineProductSource
+ * -------------------
+ * Product source over records already in hand, e.g. the product of a product-created
+ * webhook event, so that they are validated like any other catalog record.
+ */
+
+import { ProductSource, RawProductRecord } from '../types/product';
+
+export class InlineProductSource implements ProductSource {
+  constructor(
+    private readonly values: unknown[],
+    readonly name: string = 'inline',
+  ) {}
+
+  async load(): Promise<RawProductRecord[]> {
+    return this.values.map((value, i) => ({ location: `${this.name} [${i}]`, value }));
+  }
+}
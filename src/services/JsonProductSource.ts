@@ -0,0 +1,44 @@
+/**
+ * JsonProductSource
+ * -----------------
+ * Product source reading PRODUCT_INPUT_JSON_PATH:
+ *   - *.jsonl: one product object per line
+ *   - otherwise: a JSON array of product objects (e.g. data/products.json)
+ *
+ * An unreadable JSONL line is reported as a malformed record, the other lines still load.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { env } from '../config/env';
+import { ProductSource, RawProductRecord } from '../types/product';
+
+export class JsonProductSource implements ProductSource {
+  readonly name = 'json';
+
+  constructor(private readonly filePath: string = env.productInputJsonPath) {}
+
+  async load(): Promise<RawProductRecord[]> {
+    const raw = await fs.readFile(this.filePath, 'utf-8');
+    const fileName = path.basename(this.filePath);
+
+    if (path.extname(this.filePath).toLowerCase() === '.jsonl') {
+      return raw.split('\n').flatMap((line, i): RawProductRecord[] => {
+        if (line.trim() === '') return [];
+
+        const location = `${fileName} line ${i + 1}`;
+        try {
+          return [{ location, value: JSON.parse(line) }];
+        } catch (error) {
+          return [{ location, value: undefined, error: `invalid JSON: ${String(error)}` }];
+        }
+      });
+    }
+
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${this.filePath} must contain a JSON array of products`);
+    }
+    return parsed.map((value, i) => ({ location: `${fileName} [${i}]`, value }));
+  }
+}
@@ -5,51 +5,109 @@
  * 1. Send internal HTTP requests to the Laravel backend to register
  *    Cloudinary image URLs for a given product.
  * 2. Authenticate using a shared secret token via the `X-Internal-Token` header.
- * 3. Handle network and 5xx errors with retry + backoff.
- * 4. Avoid retrying on 4xx validation errors (bad product id, invalid payload, etc.).
- * 5. Log all outgoing requests and responses with structured logs (info/warn/error).
+ * 3. Handle network and 5xx errors with retry + backoff (policy `laravel-register`,
+ *    see RETRY_POLICIES), waiting for Retry-After on 429.
+ * 4. Avoid retrying on 4xx validation errors (bad product id, invalid payload, etc.):
+ *    401/403 fail as auth errors, 404 as not-found, 422 and other 4xx as validation.
+ * 5. Fail fast with DependencyOpenError while Laravel keeps failing (circuit breaker).
+ * 6. Log all outgoing requests and responses with structured logs (info/warn/error).
+ * 7. Send an `Idempotency-Key` with every registration, derived from the product and its
+ *    images: retries and resumed runs re-send the same key, so Laravel registers the
+ *    images once. Laravel upserts registered images by public_id.
+ * 8. Send the alt text and attribution (provider, photographer, photo page) of each image
+ *    whose source photo is known, so the storefront can render credits.
+ * 9. Send the `position` of each image and which one `isPrimary` (see rankImages).
+ * 10. Send an `X-Request-Id` with every request (each retry attempt gets its own) and log
+ *     it with the request, its response or its failure, so our logs join Laravel's.
  *
  * Environment variables needed:
  * - LARAVEL_API_BASE_URL
  * - LARAVEL_API_TOKEN
  * - RETRY_ATTEMPTS=3
  * - RETRY_BACKOFF_MS=500
+ * - RETRY_MAX_ELAPSED_MS=60000
+ * - CIRCUIT_BREAKER_THRESHOLD=5
+ * - CIRCUIT_BREAKER_RESET_MS=60000
  *
  * Main method:
- * - registerProductImages(productId, imageUrls)
- *    -> success: boolean
- *    -> on failure, return error info and log appropriately.
+ * - uploadProductImages(productId, imageData)
+ *    -> register uploaded images, throws a classified error on failure
+ * - getProductImages(productId) / registeredImageCount(productId)
+ *    -> images already registered for a product
+ * - unregisterProductImages(productId, publicIds?)
+ *    -> remove registered images, e.g. when reconciliation finds them missing in storage,
+ *       or all of them when the product is purged
+ * - listProductsMissingImages(page)
+ *    -> one page of products without enough images (see LaravelProductSource)
  */
 
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
+import { createHash, randomUUID } from 'crypto';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
-import { image } from '../types/image';
+import { imagesRegistered } from '../utils/metrics';
+import { retry } from '../utils/retry';
+import { circuitBreakerFor } from '../utils/circuitBreaker';
+import { ValidationError } from '../utils/errors';
+import { image, ImagePayload } from '../types/image';
 
-export class LaravelApiClient {
-  private readonly client: {
-    interceptors: {
-      request: { use: (arg0: (config: any) => any) => void };
-      response: { use: (arg0: (response: any) => any, arg1: (error: any) => never) => void };
-    };
-    post: (arg0: string, arg1: { imageData: image[] }) => any;
-  };
+const REQUEST_ID_HEADER = 'X-Request-Id';
 
-  constructor() {
-    this.client = axios.create({
-      baseURL: env.laravelApiBaseUrl,
-      timeout: 8000,
-      headers: {
-        Content_Type: 'application/json',
-        'X-Internal-Token': env.laravelApiToken,
-      },
-    });
+export function createLaravelHttpClient(
+  baseURL: string = env.laravelApiBaseUrl,
+  token: string = env.laravelApiToken,
+): AxiosInstance {
+  return axios.create({
+    baseURL,
+    timeout: 8000,
+    headers: {
+      Content_Type: 'application/json',
+      'X-Internal-Token': token,
+    },
+  });
+}
+
+/*
+ * Same product and images, same key: the images a registration carries identify it
+ */
+function registrationKey(productId: number, imageData: image[]): string {
+  const images = imageData.map((image) => `${image.public_id}@${image.secure_url}`).sort();
+  return createHash('sha256').update(JSON.stringify({ productId, images })).digest('hex');
+}
 
+function toImagePayload({ source, score, ...stored }: image): ImagePayload {
+  if (!source?.provider) return stored;
+
+  return {
+    ...stored,
+    alt_text: source.altDescription ?? null,
+    // Local files are nobody's photo to credit
+    attribution: source.id
+      ? {
+          provider: source.provider,
+          source_id: source.id,
+          photographer: source.photographer ?? null,
+          photographer_url: source.photographerUrl ?? null,
+          source_url: source.pageUrl ?? null,
+        }
+      : null,
+  };
+}
+
+export class LaravelApiClient {
+  /*
+   * `client` defaults to an axios instance on LARAVEL_API_BASE_URL authenticated with
+   * LARAVEL_API_TOKEN, tests pass one on a local fake (see test/helpers/fakeLaravel.ts)
+   */
+  constructor(private readonly client: AxiosInstance = createLaravelHttpClient()) {
     this.client.interceptors.request.use((config: any) => {
+      const requestId = randomUUID();
+      config.headers[REQUEST_ID_HEADER] = requestId;
       logger.info(
         {
           method: config.method,
           url: config.url,
+          requestId,
         },
         'Laravel API request started',
       );
@@ -61,6 +119,7 @@ export class LaravelApiClient {
         logger.info(
           {
             status: response.status,
+            requestId: response.config?.headers?.[REQUEST_ID_HEADER],
           },
           'Laravel API request completed',
         );
@@ -72,6 +131,7 @@ export class LaravelApiClient {
           {
             status,
             url: error?.config?.url,
+            requestId: error?.config?.headers?.[REQUEST_ID_HEADER],
           },
           'Laravel API request failed',
         );
@@ -81,24 +141,100 @@ export class LaravelApiClient {
   }
 
   async uploadProductImages(productId: number, imageData: image[]): Promise<void> {
+    const idempotencyKey = registrationKey(productId, imageData);
+
     try {
-      const response = await this.client.post(`ingest/products/${productId}/images`, {
-        imageData,
-      });
+      const response = await circuitBreakerFor('laravel').execute(() =>
+        retry(
+          async () =>
+            await this.client.post(
+              `ingest/products/${productId}/images`,
+              { imageData: imageData.map(toImagePayload) },
+              { headers: { 'Idempotency-Key': idempotencyKey } },
+            ),
+          { operationName: 'laravel-register' },
+        ),
+      );
 
+      imagesRegistered.inc({}, imageData.length);
       logger.info(
-        { productId, count: imageData.length, status: response.status },
+        { productId, count: imageData.length, status: response.status, idempotencyKey },
         'Uploaded images to Laravel backend successfully',
       );
     } catch (error: any) {
       logger.error(
         {
           productId,
-          status: error?.response?.status,
+          status: error?.status,
+          errorClass: error?.errorClass,
         },
         'Failed to upload images to Laravel backend',
       );
       throw error;
     }
   }
+
+  /*
+   * Images registered for a product. Older Laravel versions only answer with the count,
+   * `images` is undefined then.
+   */
+  async getProductImages(productId: number): Promise<{ count: number; images?: image[] }> {
+    const response = await circuitBreakerFor('laravel').execute(() =>
+      retry(async () => await this.client.get(`ingest/products/${productId}/images`), {
+        operationName: 'laravel-list-images',
+      }),
+    );
+
+    const body = response.data;
+    const images = Array.isArray(body) ? body : Array.isArray(body?.data) ? body.data : undefined;
+    if (images) {
+      return { count: images.length, images };
+    }
+
+    const count = Number(body?.count ?? body);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new ValidationError(
+        `Unexpected images response for product ${productId}: ${JSON.stringify(body)}`,
+      );
+    }
+    return { count };
+  }
+
+  async registeredImageCount(productId: number): Promise<number> {
+    return (await this.getProductImages(productId)).count;
+  }
+
+  async unregisterProductImages(productId: number, publicIds?: string[]): Promise<void> {
+    await circuitBreakerFor('laravel').execute(() =>
+      retry(
+        async () =>
+          await this.client.delete(`ingest/products/${productId}/images`, {
+            data: publicIds ? { public_ids: publicIds } : undefined,
+          }),
+        { operationName: 'laravel-unregister' },
+      ),
+    );
+
+    logger.info({ productId, publicIds }, 'Unregistered images in Laravel backend');
+  }
+
+  /*
+   * One page of the products that are missing images (paginated Laravel resource)
+   */
+  async listProductsMissingImages(
+    page: number,
+  ): Promise<{ products: unknown[]; lastPage: number }> {
+    const response = await circuitBreakerFor('laravel').execute(() =>
+      retry(
+        async () => await this.client.get('ingest/products/missing-images', { params: { page } }),
+        { operationName: 'laravel-list-products' },
+      ),
+    );
+
+    const body = response.data ?? {};
+    return {
+      products: Array.isArray(body.data) ? body.data : [],
+      lastPage: Number(body.last_page ?? page),
+    };
+  }
 }
@@ -0,0 +1,39 @@
+/**
+ * LaravelProductSource
+ * --------------------
+ * Product source listing the products that are missing images from the Laravel API:
+ *      GET <LARAVEL_API_BASE_URL>/ingest/products/missing-images?page=<n>
+ *
+ * The endpoint is paginated (Laravel paginator: `data`, `current_page`, `last_page`),
+ * every page is fetched before the run starts.
+ */
+
+import { logger } from '../utils/logger';
+import { ProductSource, RawProductRecord } from '../types/product';
+import { LaravelApiClient } from './LaravelApiClient';
+
+// Safety net against an endpoint that never reports its last page
+const MAX_PAGES = 1000;
+
+export class LaravelProductSource implements ProductSource {
+  readonly name = 'laravel';
+
+  constructor(private readonly client: LaravelApiClient = new LaravelApiClient()) {}
+
+  async load(): Promise<RawProductRecord[]> {
+    const records: RawProductRecord[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const { products, lastPage } = await this.client.listProductsMissingImages(page);
+
+      records.push(
+        ...products.map((value, i) => ({ location: `Laravel page ${page} [${i}]`, value })),
+      );
+
+      if (products.length === 0 || page >= lastPage) break;
+    }
+
+    logger.info({ count: records.length }, 'Loaded products missing images from Laravel');
+    return records;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * LocalDirectoryService
+ * ---------------------
+ * Image source that serves photos from disk instead of a remote API:
+ *      <LOCAL_ASSETS_DIR>/<categorySlug>/*.{jpg,jpeg,png,webp,gif,avif}
+ *
+ * Useful for curated imagery and for offline development.
+ * Returns file:// URLs, which CloudinaryService.downloadImage reads from disk.
+ * Local files carry no attribution, only their URL and provider.
+ * A missing category directory is not an error, it simply yields zero images.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { ImageSearch, ImageSourceProvider, SourceImage } from '../types/imageSource';
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.gif', '.avif']);
+
+export class LocalDirectoryService implements ImageSourceProvider {
+  readonly name = 'local';
+  private readonly rootDir = path.resolve(env.localAssetsDir);
+
+  async fetchImagesForCategory({ categorySlug }: ImageSearch): Promise<SourceImage[]> {
+    const categoryDir = path.join(this.rootDir, categorySlug);
+
+    let files: string[];
+    try {
+      files = await fs.readdir(categoryDir);
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') {
+        logger.warn({ categorySlug, categoryDir }, 'No local asset directory for category');
+        return [];
+      }
+      throw err;
+    }
+
+    const images = files
+      .filter((file) => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase()))
+      .sort()
+      .map((file) => ({
+        url: pathToFileURL(path.join(categoryDir, file)).href,
+        provider: this.name,
+      }));
+
+    logger.info(
+      { categorySlug, categoryDir, received: images.length },
+      'Local images listed successfully',
+    );
+
+    return images;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * LocalStorageBackend
+ * -------------------
+ * Writes image buffers to the local filesystem, for development and tests that
+ * should not spend Cloudinary quota:
+ *      <LOCAL_STORAGE_DIR>/<CLOUDINARY_UPLOAD_FOLDER>/<productId>/image_<index>.<format>
+ *
+ * Streamed uploads (IMAGE_STREAMING) are written to a `.part` file as they arrive, then
+ * normalized file to file with the settings of ImageProcessor.
+ *
+ * Width, height and format are read from the image itself (nothing reports them
+ * like Cloudinary does). secure_url is LOCAL_STORAGE_BASE_URL + path when set,
+ * e.g. a static file server in front of the directory, else a file:// URL.
+ *
+ * Environment variables needed:
+ * - LOCAL_STORAGE_DIR=./storage
+ * - LOCAL_STORAGE_BASE_URL (optional)
+ */
+
+import { constants as fsConstants, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { pathToFileURL } from 'url';
+import { env } from '../config/env';
+import { publicIdFor } from '../utils/publicId';
+import { readImageMetadata } from '../utils/imageMetadata';
+import { ImageRejectedError } from '../utils/errors';
+import { applyNormalization } from './ImageProcessor';
+import { image } from '../types/image';
+import { StorageBackend, StoredAsset } from '../types/storage';
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'local';
+  private readonly rootDir = path.resolve(env.localStorageDir);
+
+  async upload(buffer: Buffer, productId: string, index: number): Promise<image> {
+    const { width, height, format } = await readImageMetadata(buffer);
+
+    const publicId = publicIdFor(productId, index);
+    const fileName = `${publicId}.${format}`;
+    const filePath = path.join(this.rootDir, fileName);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Same public_id overwrites, like Cloudinary. Drop copies stored under another format.
+    await this.removeExisting(path.dirname(filePath), `image_${index}.`);
+    await fs.writeFile(filePath, buffer);
+
+    return {
+      secure_url: this.secureUrlFor(fileName),
+      public_id: publicId,
+      width,
+      height,
+      bytes: buffer.length,
+      format,
+    };
+  }
+
+  async uploadStream(stream: Readable, productId: string, index: number): Promise<image> {
+    const publicId = publicIdFor(productId, index);
+    const dir = path.dirname(path.join(this.rootDir, publicId));
+    // Hidden work files, list() and removeExisting() never see them
+    const partPath = path.join(dir, `.image_${index}.part`);
+    const outputPath = path.join(dir, `.image_${index}.out`);
+
+    await fs.mkdir(dir, { recursive: true });
+    try {
+      await pipeline(stream, createWriteStream(partPath));
+
+      let info: sharp.OutputInfo;
+      try {
+        const { format: sourceFormat } = await sharp(partPath).metadata();
+        info = await applyNormalization(
+          sharp(partPath, { failOn: 'truncated' }),
+          sourceFormat === 'jpeg' ? 'jpg' : sourceFormat,
+        ).toFile(outputPath);
+      } catch (error) {
+        throw new ImageRejectedError('corrupt', `Image could not be converted: ${String(error)}`);
+      }
+      const format = info.format === 'jpeg' ? 'jpg' : info.format;
+      const fileName = `${publicId}.${format}`;
+
+      await this.removeExisting(dir, `image_${index}.`);
+      await fs.rename(outputPath, path.join(this.rootDir, fileName));
+
+      return {
+        secure_url: this.secureUrlFor(fileName),
+        public_id: publicId,
+        width: info.width,
+        height: info.height,
+        bytes: info.size,
+        format,
+      };
+    } finally {
+      await fs.rm(partPath, { force: true });
+      await fs.rm(outputPath, { force: true });
+    }
+  }
+
+  async list(productId: string): Promise<StoredAsset[]> {
+    const folder = path.posix.join(env.cloudinaryUploadFolder, productId);
+
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.rootDir, folder));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw err;
+    }
+
+    return await Promise.all(
+      files
+        .filter((file) => !file.startsWith('.'))
+        .map(async (file) => {
+          const fileName = `${folder}/${file}`;
+          const { size } = await fs.stat(path.join(this.rootDir, fileName));
+          const format = path.extname(file).slice(1);
+          return {
+            public_id: `${folder}/${path.basename(file, path.extname(file))}`,
+            secure_url: this.secureUrlFor(fileName),
+            bytes: size,
+            format,
+          };
+        }),
+    );
+  }
+
+  async remove(publicId: string): Promise<void> {
+    const dir = path.join(this.rootDir, path.dirname(publicId));
+    try {
+      await this.removeExisting(dir, `${path.basename(publicId)}.`);
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err;
+    }
+  }
+
+  async removeFolder(productId: string): Promise<number> {
+    const removed = (await this.list(productId)).length;
+    await fs.rm(path.join(this.rootDir, env.cloudinaryUploadFolder, productId), {
+      recursive: true,
+      force: true,
+    });
+    return removed;
+  }
+
+  async ping(): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.access(this.rootDir, fsConstants.W_OK);
+  }
+
+  private secureUrlFor(fileName: string): string {
+    return env.localStorageBaseUrl
+      ? `${env.localStorageBaseUrl.replace(/\/$/, '')}/${fileName}`
+      : pathToFileURL(path.join(this.rootDir, fileName)).href;
+  }
+
+  private async removeExisting(dir: string, prefix: string): Promise<void> {
+    const files = await fs.readdir(dir);
+    await Promise.all(
+      files.filter((file) => file.startsWith(prefix)).map((file) => fs.rm(path.join(dir, file))),
+    );
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * PerceptualHashIndex
+ * -------------------
+ * Responsibilities:
+ * 1. Keep a dHash of every image uploaded for a product, across runs, in
+ *      <PHASH_INDEX_PATH> (JSON)
+ * 2. Decide whether an image may be used for a product: an image that is a
+ *    near-duplicate (Hamming distance <= DEDUPE_HAMMING_THRESHOLD) of images
+ *    on more than DEDUPE_MAX_REUSES other products is refused, and the worker
+ *    falls back to the next candidate URL.
+ * 3. Report clusters of near-duplicate images that are already registered.
+ *
+ * Claims are synchronous, so two products processed concurrently can never both
+ * take the same photo, and a product never gets the same photo in two slots. Claims of
+ * a product that fails are released, claims of a product that gets registered are
+ * marked as such and persisted.
+ *
+ * The index is loaded once per process and file: concurrent runs (API, consumer, purge)
+ * share one instance, as each save rewrites the whole file with the entries it holds.
+ *
+ * Environment variables needed:
+ * - PHASH_INDEX_PATH=./data/hash-index.json
+ * - DEDUPE_ENABLED=true
+ * - DEDUPE_MAX_REUSES=0
+ * - DEDUPE_HAMMING_THRESHOLD=6
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { hammingDistance } from '../utils/perceptualHash';
+
+export type HashIndexEntry = {
+  hash: string;
+  productId: number;
+  index: number;
+  url: string;
+  registered: boolean;
+};
+
+export type DuplicateCluster = {
+  hash: string;
+  entries: HashIndexEntry[];
+};
+
+// Indexes loaded in this process, by file path
+const loaded = new Map<string, Promise<PerceptualHashIndex>>();
+
+export class PerceptualHashIndex {
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private entries: HashIndexEntry[],
+    private readonly filePath: string,
+  ) {}
+
+  /*
+   * The index of the file, read on first use. A failed read is evicted so the next caller
+   * can try again.
+   */
+  static load(filePath: string = env.phashIndexPath): Promise<PerceptualHashIndex> {
+    let index = loaded.get(filePath);
+    if (!index) {
+      index = PerceptualHashIndex.read(filePath);
+      loaded.set(filePath, index);
+      index.catch(() => loaded.delete(filePath));
+    }
+    return index;
+  }
+
+  private static async read(filePath: string): Promise<PerceptualHashIndex> {
+    let entries: HashIndexEntry[] = [];
+    try {
+      entries = JSON.parse(await fs.readFile(filePath, 'utf-8')).entries ?? [];
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err;
+    }
+
+    logger.info({ filePath, entries: entries.length }, 'Perceptual hash index loaded');
+    return new PerceptualHashIndex(entries, filePath);
+  }
+
+  /*
+   * Other products already using a near-duplicate of `hash`
+   */
+  productsUsing(hash: string, productId: number): number[] {
+    const products = new Set<number>();
+    for (const entry of this.entries) {
+      if (entry.productId === productId) continue;
+      if (hammingDistance(entry.hash, hash) <= env.dedupeHammingThreshold) {
+        products.add(entry.productId);
+      }
+    }
+    return [...products];
+  }
+
+  /*
+   * Reserve an image for a product, unless the product already has a near-duplicate in
+   * another slot or the image is already reused too often.
+   * Returns the products it clashes with when refused, an empty list when claimed.
+   */
+  claim(entry: Omit<HashIndexEntry, 'registered'>): number[] {
+    const usedInOtherSlot = this.entries.some(
+      (existing) =>
+        existing.productId === entry.productId &&
+        existing.index !== entry.index &&
+        hammingDistance(existing.hash, entry.hash) <= env.dedupeHammingThreshold,
+    );
+    if (usedInOtherSlot) {
+      return [entry.productId];
+    }
+
+    const users = this.productsUsing(entry.hash, entry.productId);
+    if (users.length > env.dedupeMaxReuses) {
+      return users;
+    }
+
+    // Replace an earlier claim of the same slot, e.g. from an interrupted run
+    this.entries = this.entries.filter(
+      (existing) => !(existing.productId === entry.productId && existing.index === entry.index),
+    );
+    this.entries.push({ ...entry, registered: false });
+    return [];
+  }
+
+  /*
+   * Drop the unregistered claims of a product whose pipeline failed
+   */
+  release(productId: number): void {
+    this.entries = this.entries.filter(
+      (entry) => entry.productId !== productId || entry.registered,
+    );
+  }
+
+  /*
+   * Drop every entry of the given products, registered or not (purge command)
+   */
+  async forget(productIds: number[]): Promise<number> {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((entry) => !productIds.includes(entry.productId));
+    await this.save();
+    return before - this.entries.length;
+  }
+
+  async markRegistered(productId: number): Promise<void> {
+    this.entries
+      .filter((entry) => entry.productId === productId)
+      .forEach((entry) => (entry.registered = true));
+    await this.save();
+  }
+
+  /*
+   * Group registered images into clusters of near-duplicates (single linkage)
+   */
+  duplicateClusters(): DuplicateCluster[] {
+    const registered = this.entries.filter((entry) => entry.registered);
+    const parent = registered.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    for (let i = 0; i < registered.length; i++) {
+      for (let j = i + 1; j < registered.length; j++) {
+        if (hammingDistance(registered[i].hash, registered[j].hash) <= env.dedupeHammingThreshold) {
+          parent[find(i)] = find(j);
+        }
+      }
+    }
+
+    const clusters = new Map<number, HashIndexEntry[]>();
+    registered.forEach((entry, i) => {
+      const root = find(i);
+      clusters.set(root, [...(clusters.get(root) ?? []), entry]);
+    });
+
+    return [...clusters.values()]
+      .filter((entries) => entries.length > 1)
+      .map((entries) => ({ hash: entries[0].hash, entries }))
+      .sort((a, b) => b.entries.length - a.entries.length);
+  }
+
+  /*
+   * Write the whole index, chained after the previous save so writes never overlap
+   */
+  save(): Promise<void> {
+    const save = this.pendingSave.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify({ entries: this.entries }), 'utf-8');
+    });
+    this.pendingSave = save.catch(() => undefined);
+    return save;
+  }
+}
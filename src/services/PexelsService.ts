@@ -0,0 +1,145 @@
+/**
+ * PexelsService
+ * -------------
+ * Image source backed by the Pexels search API, used as an alternative or fallback
+ * to Unsplash. Queries come from the same category mapping as Unsplash.
+ *
+ * - Authenticates with the raw API key in the `Authorization` header
+ * - Uses the `large` photo size (closest to Unsplash's `regular`)
+ * - Follows `next_page` for up to 10 pages, shared by all queries of the search
+ * - Maps orientation (squarish → square) and the colors Pexels knows, drops photos whose
+ *   `alt` text mentions a negative keyword
+ * - Keeps the photographer, photo page and alt text of each photo for attribution
+ *
+ * Environment variables needed:
+ * - PEXELS_API_KEY
+ */
+
+import axios from 'axios';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { retry } from '../utils/retry';
+import { circuitBreakerFor } from '../utils/circuitBreaker';
+import { mentionsNegativeKeyword } from '../config/categoryQueries';
+import { ImageSearch, ImageSourceProvider, SourceImage } from '../types/imageSource';
+
+const PAGE_LIMIT = 10;
+
+// Unsplash color names Pexels also accepts, black_and_white has no Pexels equivalent
+const PEXELS_COLORS = new Set([
+  'black',
+  'white',
+  'yellow',
+  'orange',
+  'red',
+  'purple',
+  'green',
+  'teal',
+  'blue',
+]);
+
+type PexelsSearchResponse = {
+  page: number;
+  per_page: number;
+  total_results: number;
+  next_page?: string;
+  photos: PexelsPhoto[];
+};
+
+type PexelsPhoto = {
+  id: number;
+  url?: string;
+  alt?: string;
+  photographer?: string;
+  photographer_url?: string;
+  src: {
+    large: string;
+    [key: string]: string;
+  };
+  [key: string]: any;
+};
+
+function toSourceImage(photo: PexelsPhoto): SourceImage {
+  return {
+    url: photo.src.large,
+    provider: 'pexels',
+    id: String(photo.id),
+    photographer: photo.photographer,
+    photographerUrl: photo.photographer_url,
+    pageUrl: photo.url,
+    altDescription: photo.alt || undefined,
+  };
+}
+
+export class PexelsService implements ImageSourceProvider {
+  readonly name = 'pexels';
+
+  constructor(private readonly apiKey: string) {}
+
+  private async makePexelsRequest(
+    search: ImageSearch,
+    query: string,
+    page: number,
+  ): Promise<PexelsSearchResponse> {
+    const url = 'https://api.pexels.com/v1/search';
+
+    try {
+      const response = await axios.get<PexelsSearchResponse>(url, {
+        params: {
+          query,
+          page,
+          per_page: 80,
+          orientation: search.orientation === 'squarish' ? 'square' : search.orientation,
+          color: search.color && PEXELS_COLORS.has(search.color) ? search.color : undefined,
+        },
+        headers: {
+          Authorization: this.apiKey,
+        },
+        timeout: 8000,
+      });
+
+      return response.data;
+    } catch (err: any) {
+      const status = err?.response?.status;
+      logger.error({ query, status }, 'Pexels API request failed');
+      throw err;
+    }
+  }
+
+  async fetchImagesForCategory(search: ImageSearch): Promise<SourceImage[]> {
+    const { categorySlug, queries } = search;
+    const pagesPerQuery = Math.max(1, Math.floor(PAGE_LIMIT / queries.length));
+
+    const images = new Map<string, SourceImage>();
+
+    for (const query of queries) {
+      logger.info({ categorySlug, query }, 'Fetching images from Pexels for category');
+
+      for (let page = 1; page <= pagesPerQuery; page++) {
+        const response = await circuitBreakerFor('pexels').execute(() =>
+          retry(() => this.makePexelsRequest(search, query, page), {
+            operationName: 'pexels-request',
+          }),
+        );
+
+        for (const photo of response.photos ?? []) {
+          if (mentionsNegativeKeyword(photo?.alt ?? '', search.negativeKeywords)) continue;
+          if (photo?.src?.large) images.set(photo.src.large, toSourceImage(photo));
+        }
+
+        if (!response.next_page) break;
+      }
+    }
+
+    logger.info({ categorySlug, received: images.size }, 'Pexels images fetched successfully');
+
+    return [...images.values()];
+  }
+}
+
+export function createPexelsService(): PexelsService {
+  if (!env.pexelsApiKey) {
+    throw new Error('Missing required environment variable: PEXELS_API_KEY');
+  }
+  return new PexelsService(env.pexelsApiKey);
+}
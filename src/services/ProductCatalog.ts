@@ -0,0 +1,205 @@
+/**
+ * ProductCatalog
+ * --------------
+ * Responsibilities:
+ * 1. Load the products at runtime from the source selected by PRODUCT_SOURCE:
+ *      - json:    JsonProductSource, JSON array or JSONL at PRODUCT_INPUT_JSON_PATH
+ *      - csv:     CsvProductSource, CSV at PRODUCT_INPUT_JSON_PATH
+ *      - laravel: LaravelProductSource, products missing images from the Laravel API
+ *    Without PRODUCT_SOURCE, the extension of PRODUCT_INPUT_JSON_PATH decides (csv or json).
+ * 2. Load the categories at runtime from CATEGORIES_PATH.
+ * 3. Validate every record against the Product schema (utils/productSchema.ts) up front.
+ *    Malformed records are reported with their location and every problem found, and
+ *    left out of the run. A malformed categories file fails the run.
+ * 4. Select the products of a run (IDs, ID ranges, categories, statuses, image count,
+ *    seeded shuffle and limit, see WorkerOptions).
+ *
+ * Environment variables needed:
+ * - PRODUCT_SOURCE=json
+ * - PRODUCT_INPUT_JSON_PATH=./data/products.json
+ * - CATEGORIES_PATH=./data/categories.json
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { parseCategory, parseProduct } from '../utils/productSchema';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { seededRandom, shuffle } from '../utils/random';
+import { WorkerOptions } from '../types/ingestion';
+import { Category, Product, ProductSource, ProductValidationIssue } from '../types/product';
+import { JsonProductSource } from './JsonProductSource';
+import { CsvProductSource } from './CsvProductSource';
+import { LaravelProductSource } from './LaravelProductSource';
+
+const PRODUCT_SOURCES: Record<string, () => ProductSource> = {
+  json: () => new JsonProductSource(),
+  csv: () => new CsvProductSource(),
+  laravel: () => new LaravelProductSource(),
+};
+
+/*
+ * Build the product source selected by PRODUCT_SOURCE, or guessed from the input file
+ */
+export function createProductSource(name: string = env.productSource): ProductSource {
+  const sourceName =
+    name || (path.extname(env.productInputJsonPath).toLowerCase() === '.csv' ? 'csv' : 'json');
+
+  const factory = PRODUCT_SOURCES[sourceName];
+  if (!factory) {
+    throw new Error(
+      `Unknown PRODUCT_SOURCE: ${sourceName} (expected ${Object.keys(PRODUCT_SOURCES).join(', ')})`,
+    );
+  }
+  return factory();
+}
+
+export async function loadCategories(filePath: string = env.categoriesPath): Promise<Category[]> {
+  const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${filePath} must contain a JSON array of categories`);
+  }
+
+  const categories: Category[] = [];
+  const problems: string[] = [];
+  parsed.forEach((raw, i) => {
+    const { value, errors } = parseCategory(raw);
+    if (value) categories.push(value);
+    else problems.push(`[${i}] ${errors.join(', ')}`);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid categories in ${filePath}:\n  ${problems.join('\n  ')}`);
+  }
+  return categories;
+}
+
+export function hasSelectors(options: WorkerOptions): boolean {
+  return [
+    options.productIds,
+    options.productRanges,
+    options.categories,
+    options.statuses,
+    options.fewerThanImages,
+    options.limit,
+    options.shuffleSeed,
+  ].some((selector) => selector !== undefined);
+}
+
+export class ProductCatalog {
+  private readonly slugs: Map<number, string>;
+
+  private constructor(
+    readonly products: Product[],
+    readonly categories: Category[],
+    readonly issues: ProductValidationIssue[],
+  ) {
+    this.slugs = new Map(categories.map((category) => [category.id, category.slug]));
+  }
+
+  static async load(
+    source: ProductSource = createProductSource(),
+    categoriesPath: string = env.categoriesPath,
+  ): Promise<ProductCatalog> {
+    return await ProductCatalog.withCategories(source, await loadCategories(categoriesPath));
+  }
+
+  /*
+   * Catalog of the source, validated against categories the caller already loaded
+   */
+  static async withCategories(
+    source: ProductSource,
+    categories: Category[],
+  ): Promise<ProductCatalog> {
+    const categoryIds = new Set(categories.map((category) => category.id));
+
+    const products: Product[] = [];
+    const issues: ProductValidationIssue[] = [];
+    const seenIds = new Set<number>();
+
+    for (const record of await source.load()) {
+      const productId = (record.value as any)?.id;
+      if (record.error) {
+        issues.push({ location: record.location, errors: [record.error] });
+        continue;
+      }
+
+      const { value, errors } = parseProduct(record.value, categoryIds);
+      if (!value) {
+        issues.push({ location: record.location, productId, errors });
+      } else if (seenIds.has(value.id)) {
+        issues.push({ location: record.location, productId, errors: ['duplicate product id'] });
+      } else {
+        seenIds.add(value.id);
+        products.push(value);
+      }
+    }
+
+    const catalog = new ProductCatalog(products, categories, issues);
+    catalog.reportIssues(source.name);
+    return catalog;
+  }
+
+  /*
+   * Products matching the selectors of the run options (all of them apply), shuffled with
+   * --shuffle-seed, then cut to --limit. `fewerThanImages` needs `registeredImageCount`,
+   * which asks Laravel, so it is only applied after the other selectors.
+   */
+  async select(
+    options: WorkerOptions,
+    registeredImageCount?: (product: Product) => Promise<number>,
+    candidates: Product[] = this.products,
+  ): Promise<Product[]> {
+    const { productIds, productRanges, categories, statuses, fewerThanImages, limit, shuffleSeed } =
+      options;
+
+    let selected = candidates.filter(
+      (product) =>
+        ((!productIds && !productRanges) ||
+          productIds?.includes(product.id) ||
+          productRanges?.some(([from, to]) => product.id >= from && product.id <= to)) &&
+        (!categories || categories.includes(this.categorySlugFor(product))) &&
+        (!statuses || statuses.includes(product.status)),
+    );
+
+    if (fewerThanImages !== undefined) {
+      if (!registeredImageCount) {
+        throw new Error('Selecting products by registered image count is not supported here');
+      }
+      const counts = await mapWithConcurrency(selected, env.ingestionConcurrency, (product) =>
+        registeredImageCount(product),
+      );
+      selected = selected.filter((_, i) => counts[i] < fewerThanImages);
+    }
+
+    if (shuffleSeed !== undefined) {
+      selected = shuffle(selected, seededRandom(shuffleSeed));
+    }
+    return limit !== undefined ? selected.slice(0, limit) : selected;
+  }
+
+  categorySlugFor(product: Product): string {
+    return this.slugs.get(product.categories[0])!;
+  }
+
+  private reportIssues(sourceName: string): void {
+    logger.info(
+      { source: sourceName, products: this.products.length, malformed: this.issues.length },
+      'Product catalog loaded',
+    );
+    if (this.issues.length === 0) return;
+
+    for (const issue of this.issues) {
+      logger.warn(
+        {
+          source: sourceName,
+          location: issue.location,
+          productId: issue.productId,
+          errors: issue.errors,
+        },
+        'Skipping malformed product record',
+      );
+    }
+  }
+}
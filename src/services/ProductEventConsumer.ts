@@ -0,0 +1,213 @@
+/**
+ * ProductEventConsumer
+ * --------------------
+ * Responsibilities:
+ * 1. Take product-created events off the event queue (see ProductEventQueue), in batches
+ *    of up to CONSUMER_BATCH_SIZE, and run each batch through an ImageIngestionWorker
+ *    (WorkerOptions.products): one run, journal and report per batch, its products
+ *    processed concurrently by processProduct. These consumer runs are left out of
+ *    RunJournal.latestRunId, so `status` and `retry-failed` keep showing batch runs;
+ *    `purge --runs` removes them with the others.
+ * 2. Settle every event by the outcome of its product:
+ *      - registered or skipped: acked
+ *      - failed with a transient, rate-limited or dependency-open error: retried after
+ *        CONSUMER_RETRY_BACKOFF_MS, doubled on each attempt, up to CONSUMER_MAX_ATTEMPTS
+ *      - failed otherwise, or out of attempts: moved to the dead-letter list
+ *      - cancelled by a shutdown: queued again, the attempt does not count
+ *    Events are only settled once their product is, so a crash delivers them again
+ *    (at-least-once). A product processed twice is skipped once its images are registered.
+ * 3. Drain on stop(): reserve no more events, cancel the products of the current batch
+ *    that have not started, and wait for the others up to CONSUMER_DRAIN_TIMEOUT_MS.
+ *
+ * Environment variables needed:
+ * - CONSUMER_BATCH_SIZE=10
+ * - CONSUMER_MAX_ATTEMPTS=5
+ * - CONSUMER_RETRY_BACKOFF_MS=30000
+ * - CONSUMER_DRAIN_TIMEOUT_MS=60000
+ */
+
+import { env } from '../config/env';
+import { ErrorClass } from '../types/errors';
+import { ProductState } from '../types/ingestion';
+import { ProductEvent, ProductEventQueue } from '../types/queue';
+import { classifyError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { withLogContext } from '../utils/logContext';
+import { eventsSettled } from '../utils/metrics';
+import { ImageIngestionWorker, WorkerDependencies } from '../workers/ImageIngestionWorker';
+
+export type ConsumerOptions = {
+  batchSize: number;
+  maxAttempts: number;
+  retryBackoffMs: number;
+  drainTimeoutMs: number;
+};
+
+// How long one reserve waits for an event, also the delay before a stop is noticed
+const POLL_INTERVAL_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const RETRYABLE: (ErrorClass | undefined)[] = [
+  'transient',
+  'rate-limited',
+  'dependency-open',
+  undefined,
+];
+
+type Outcome = { state: ProductState; error?: string; errorClass?: ErrorClass };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class ProductEventConsumer {
+  private stopping = false;
+  private loop?: Promise<void>;
+  private worker?: ImageIngestionWorker;
+
+  constructor(
+    private readonly queue: ProductEventQueue,
+    private readonly options: ConsumerOptions = {
+      batchSize: env.consumerBatchSize,
+      maxAttempts: env.consumerMaxAttempts,
+      retryBackoffMs: env.consumerRetryBackoffMs,
+      drainTimeoutMs: env.consumerDrainTimeoutMs,
+    },
+    // Passed to the worker of every batch
+    private readonly dependencies: WorkerDependencies = {},
+  ) {}
+
+  start(): void {
+    this.loop ??= this.consume();
+  }
+
+  /*
+   * Drain, returns false when the current batch did not finish within the drain timeout:
+   * its unsettled events stay reserved, recover() queues them again on the next start.
+   */
+  async stop(): Promise<boolean> {
+    this.stopping = true;
+    this.worker?.cancel();
+    if (!this.loop) return true;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), this.options.drainTimeoutMs);
+    });
+    const drained = await Promise.race([this.loop.then(() => true), timedOut]);
+    clearTimeout(timer);
+    return drained;
+  }
+
+  private async consume(): Promise<void> {
+    const recovered = await this.queue.recover();
+    logger.info(
+      { queue: this.queue.name, recovered, batchSize: this.options.batchSize },
+      'Product event consumer started',
+    );
+
+    while (!this.stopping) {
+      try {
+        const batch = await this.reserveBatch();
+        if (batch.length > 0) await this.processBatch(batch);
+      } catch (error) {
+        // The queue itself is unavailable (e.g. Redis down), its events are safe there
+        logger.error({ queue: this.queue.name, error }, 'Product event queue failed');
+        await sleep(POLL_INTERVAL_MS);
+      }
+    }
+    logger.info({ queue: this.queue.name }, 'Product event consumer stopped');
+  }
+
+  private async reserveBatch(): Promise<ProductEvent[]> {
+    const first = await this.queue.reserve(POLL_INTERVAL_MS);
+    if (!first) return [];
+
+    const batch = [first];
+    while (batch.length < this.options.batchSize) {
+      const next = await this.queue.reserve(0);
+      if (!next) break;
+      batch.push(next);
+    }
+    return batch;
+  }
+
+  private async processBatch(batch: ProductEvent[]): Promise<void> {
+    if (this.stopping) {
+      await Promise.all(batch.map((event) => this.settle(event, { state: 'cancelled' })));
+      return;
+    }
+
+    const worker = new ImageIngestionWorker(
+      { products: batch.map((event) => event.product) },
+      this.dependencies,
+    );
+    this.worker = worker;
+    try {
+      const { products } = await worker.run();
+      for (const event of batch) {
+        const status = products.find((product) => product.productId === event.product.id);
+        // Left out of the run: the product no longer passes validation (e.g. its category)
+        await this.settle(
+          event,
+          status ?? {
+            state: 'failed',
+            error: 'Product left out of the run',
+            errorClass: 'validation',
+          },
+        );
+      }
+    } catch (error) {
+      // The run itself failed (journal, categories...), not one of its products
+      const { message, errorClass } = classifyError(error);
+      for (const event of batch) {
+        await this.settle(event, { state: 'failed', error: message, errorClass });
+      }
+    } finally {
+      this.worker = undefined;
+    }
+  }
+
+  private async settle(event: ProductEvent, outcome: Outcome): Promise<void> {
+    await withLogContext({ eventId: event.id, productId: event.product.id }, async () => {
+      const { state, error, errorClass } = outcome;
+
+      if (state === 'registered' || state === 'skipped') {
+        await this.queue.ack(event);
+        eventsSettled.inc({ outcome: 'acked' });
+        logger.info({ state }, 'Product event processed');
+        return;
+      }
+
+      if (state === 'cancelled' || state === 'pending') {
+        await this.queue.retry(event, 0);
+        eventsSettled.inc({ outcome: 'released' });
+        return;
+      }
+
+      const attempts = event.attempts + 1;
+      const failed: ProductEvent = {
+        ...event,
+        attempts,
+        lastError: { message: error ?? 'unknown error', errorClass },
+      };
+
+      if (RETRYABLE.includes(errorClass) && attempts < this.options.maxAttempts) {
+        const delayMs = Math.min(
+          this.options.retryBackoffMs * Math.pow(2, attempts - 1),
+          MAX_RETRY_DELAY_MS,
+        );
+        await this.queue.retry(failed, delayMs);
+        eventsSettled.inc({ outcome: 'retried' });
+        logger.warn({ attempts, errorClass, delayMs }, 'Product event failed, retrying later');
+      } else {
+        await this.queue.deadLetter(failed);
+        eventsSettled.inc({ outcome: 'dead-lettered' });
+        logger.error(
+          { attempts, errorClass, error },
+          'Product event failed for good, moved to the dead-letter list',
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * ProductEventIntake
+ * ------------------
+ * Turns a product-created payload from Laravel into a queued ProductEvent, whether it
+ * came through the webhook (routes/webhooks.ts) or the Redis inbox list (RedisEventInbox):
+ *   { "event": "product.created", "event_id": "<optional ID>", "product": { ...product } }
+ * The product is validated like a catalog record (see ProductCatalog) before it is queued.
+ * The categories are read once, on the first event (again only if that read failed):
+ * a change of CATEGORIES_PATH needs a restart.
+ */
+
+import { randomUUID } from 'crypto';
+import { ProductEventQueue } from '../types/queue';
+import { logger } from '../utils/logger';
+import { eventsReceived } from '../utils/metrics';
+import { Category } from '../types/product';
+import { InlineProductSource } from './InlineProductSource';
+import { loadCategories, ProductCatalog } from './ProductCatalog';
+
+export type IntakeResult =
+  | { outcome: 'queued' | 'duplicate'; eventId: string; productId: number }
+  | { outcome: 'rejected'; error: string; details?: string[] };
+
+type ProductEventPayload = {
+  event?: unknown;
+  event_id?: unknown;
+  product?: unknown;
+};
+
+export class ProductEventIntake {
+  private categories?: Promise<Category[]>;
+
+  constructor(private readonly queue: ProductEventQueue) {}
+
+  async accept(payload: unknown, origin: string): Promise<IntakeResult> {
+    const result = await this.queueEvent(payload as ProductEventPayload, origin);
+    eventsReceived.inc({ outcome: result.outcome });
+
+    if (result.outcome === 'rejected') {
+      logger.warn(
+        { origin, error: result.error, details: result.details },
+        'Rejected product event',
+      );
+    } else {
+      logger.info(
+        { origin, eventId: result.eventId, productId: result.productId },
+        result.outcome === 'queued' ? 'Product event queued' : 'Product already queued',
+      );
+    }
+    return result;
+  }
+
+  /*
+   * Counts a payload that could not even be parsed
+   */
+  reject(error: string, origin: string): IntakeResult {
+    eventsReceived.inc({ outcome: 'rejected' });
+    logger.warn({ origin, error }, 'Rejected product event');
+    return { outcome: 'rejected', error };
+  }
+
+  private async queueEvent(payload: ProductEventPayload, origin: string): Promise<IntakeResult> {
+    if (payload?.event !== 'product.created') {
+      return {
+        outcome: 'rejected',
+        error: `Unsupported event ${String(payload?.event)} (expected product.created)`,
+      };
+    }
+
+    const catalog = await ProductCatalog.withCategories(
+      new InlineProductSource([payload.product], origin),
+      await this.loadCategories(),
+    );
+    const [product] = catalog.products;
+    if (!product) {
+      return {
+        outcome: 'rejected',
+        error: 'Invalid product',
+        details: catalog.issues.flatMap((issue) => issue.errors),
+      };
+    }
+
+    const eventId = typeof payload.event_id === 'string' ? payload.event_id : randomUUID();
+    const queued = await this.queue.enqueue({
+      id: eventId,
+      product,
+      receivedAt: new Date().toISOString(),
+      attempts: 0,
+    });
+    return { outcome: queued ? 'queued' : 'duplicate', eventId, productId: product.id };
+  }
+
+  private loadCategories(): Promise<Category[]> {
+    this.categories ??= loadCategories().catch((error) => {
+      this.categories = undefined;
+      throw error;
+    });
+    return this.categories;
+  }
+}
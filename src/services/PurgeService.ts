@@ -0,0 +1,58 @@
+/**
+ * PurgeService
+ * ------------
+ * Deletes all imagery of products, so a product or a whole category can be ingested again
+ * from scratch:
+ * 1. Unregister every image of the product in Laravel.
+ * 2. Delete the product folder under CLOUDINARY_UPLOAD_FOLDER from the storage backend.
+ * 3. Forget the product's perceptual hashes, its photos may be used by other products again.
+ *
+ * Laravel goes first: if it fails, the stored images are kept and Laravel never points at
+ * deleted images. Purging a product that has no images is not an error.
+ */
+
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { withLogContext } from '../utils/logContext';
+import { classifyError } from '../utils/errors';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { CloudinaryService } from './CloudinaryService';
+import { LaravelApiClient } from './LaravelApiClient';
+import { PerceptualHashIndex } from './PerceptualHashIndex';
+
+export type ProductPurge = {
+  productId: number;
+  unregistered: boolean;
+  removedImages: number;
+  error?: string;
+};
+
+export class PurgeService {
+  constructor(
+    private readonly cloudinaryService = new CloudinaryService(),
+    private readonly laravelApiClient = new LaravelApiClient(),
+  ) {}
+
+  async purge(productIds: number[]): Promise<ProductPurge[]> {
+    const results = await mapWithConcurrency(productIds, env.ingestionConcurrency, (productId) =>
+      withLogContext({ productId }, async (): Promise<ProductPurge> => {
+        const result: ProductPurge = { productId, unregistered: false, removedImages: 0 };
+        try {
+          await this.laravelApiClient.unregisterProductImages(productId);
+          result.unregistered = true;
+          result.removedImages = await this.cloudinaryService.removeProductFolder(productId);
+          logger.info({ productId, removedImages: result.removedImages }, 'Product purged');
+        } catch (error) {
+          result.error = classifyError(error).message;
+          logger.error({ productId, error }, 'Failed to purge product');
+        }
+        return result;
+      }),
+    );
+
+    const hashIndex = await PerceptualHashIndex.load();
+    await hashIndex.forget(results.filter((result) => !result.error).map((r) => r.productId));
+
+    return results;
+  }
+}
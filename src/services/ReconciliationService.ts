@@ -0,0 +1,200 @@
+/**
+ * ReconciliationService
+ * ---------------------
+ * Compares, per product, three views of its images:
+ * - storage: what the storage backend holds under <CLOUDINARY_UPLOAD_FOLDER>/<productId>/
+ * - Laravel: what is registered for the product
+ * - run journals: which run uploaded each stored image, and whether it registered it
+ *
+ * and reports the drift between storage and Laravel (orphan, missing, mismatched images,
+ * see DriftKind). With `repair`, it fixes it:
+ * - orphans uploaded by a run are registered while the product still needs images
+ *   (IMAGES_PER_PRODUCT), the other orphans are deleted from storage
+ * - missing images are unregistered, the next ingest run replaces them
+ * - mismatched images are registered again with the stored version
+ *
+ * Registrations carry an idempotency key (see LaravelApiClient), repairing twice is safe.
+ */
+
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { withLogContext } from '../utils/logContext';
+import { retry } from '../utils/retry';
+import { circuitBreakerFor } from '../utils/circuitBreaker';
+import { classifyError } from '../utils/errors';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { image } from '../types/image';
+import { JournalUpload } from '../types/journal';
+import { StorageBackend, StoredAsset } from '../types/storage';
+import { DriftRepair, ImageDrift, ProductReconciliation } from '../types/reconciliation';
+import { createStorageBackend } from './StorageBackendFactory';
+import { LaravelApiClient } from './LaravelApiClient';
+import { RunJournal } from './RunJournal';
+
+function sameVersion(stored: StoredAsset, registered: image): boolean {
+  return (
+    stored.secure_url === registered.secure_url &&
+    stored.bytes === registered.bytes &&
+    stored.format === registered.format
+  );
+}
+
+export class ReconciliationService {
+  constructor(
+    private readonly storage: StorageBackend = createStorageBackend(),
+    private readonly laravelApiClient = new LaravelApiClient(),
+  ) {}
+
+  async reconcile(
+    productIds: number[],
+    options: { repair?: boolean } = {},
+  ): Promise<ProductReconciliation[]> {
+    const uploads = await RunJournal.uploads(productIds);
+
+    return await mapWithConcurrency(productIds, env.ingestionConcurrency, (productId) =>
+      withLogContext({ productId }, async (): Promise<ProductReconciliation> => {
+        try {
+          return await this.reconcileProduct(productId, uploads.get(productId)!, options.repair);
+        } catch (error) {
+          const { message } = classifyError(error);
+          logger.error({ productId, error }, 'Reconciliation failed for product');
+          return {
+            productId,
+            status: 'error',
+            stored: 0,
+            registered: 0,
+            drift: [],
+            error: message,
+          };
+        }
+      }),
+    );
+  }
+
+  private async reconcileProduct(
+    productId: number,
+    uploads: Map<string, JournalUpload>,
+    repair = false,
+  ): Promise<ProductReconciliation> {
+    const stored = await this.listStored(productId);
+    const { images: registered } = await this.laravelApiClient.getProductImages(productId);
+    if (!registered) {
+      throw new Error('Laravel only reports an image count, reconciliation needs the image list');
+    }
+
+    const storedById = new Map(stored.map((asset) => [asset.public_id, asset]));
+    const registeredById = new Map(registered.map((image) => [image.public_id, image]));
+    const publicIds = [...new Set([...storedById.keys(), ...registeredById.keys()])].sort();
+
+    const drift: ImageDrift[] = [];
+    for (const publicId of publicIds) {
+      const asset = storedById.get(publicId);
+      const image = registeredById.get(publicId);
+      const runId = uploads.get(publicId)?.runId;
+
+      if (asset && !image) {
+        drift.push({ kind: 'orphan', publicId, stored: asset, runId });
+      } else if (!asset && image) {
+        drift.push({ kind: 'missing', publicId, registered: image, runId });
+      } else if (asset && image && !sameVersion(asset, image)) {
+        drift.push({ kind: 'mismatched', publicId, stored: asset, registered: image, runId });
+      }
+    }
+
+    if (repair && drift.length > 0) {
+      await this.repair(productId, drift, registered.length, uploads);
+    }
+
+    const repaired = drift.length > 0 && drift.every((item) => item.repair !== undefined);
+    return {
+      productId,
+      status: drift.length === 0 ? 'in-sync' : repaired ? 'repaired' : 'drift',
+      stored: stored.length,
+      registered: registered.length,
+      drift,
+    };
+  }
+
+  private async repair(
+    productId: number,
+    drift: ImageDrift[],
+    registeredCount: number,
+    uploads: Map<string, JournalUpload>,
+  ): Promise<void> {
+    // Missing images first, so the orphans can take their place
+    const missing = drift.filter((item) => item.kind === 'missing');
+    await this.attempt(missing, 'unregistered', () =>
+      this.laravelApiClient.unregisterProductImages(
+        productId,
+        missing.map((item) => item.publicId),
+      ),
+    );
+    let registered = registeredCount - missing.filter((item) => item.repair).length;
+
+    // Orphans whose upload is in a journal are images a run meant to register
+    const orphans = drift.filter((item) => item.kind === 'orphan');
+    const adopted = orphans.filter((item) => {
+      const upload = uploads.get(item.publicId);
+      const adopt =
+        upload !== undefined &&
+        sameVersion(item.stored!, upload.image) &&
+        registered < env.imagesPerProduct;
+      if (adopt) registered++;
+      return adopt;
+    });
+
+    const mismatched = drift.filter((item) => item.kind === 'mismatched');
+    await this.attempt(mismatched, 're-registered', () =>
+      this.laravelApiClient.uploadProductImages(
+        productId,
+        mismatched.map((item) => ({ ...item.registered!, ...item.stored! })),
+      ),
+    );
+    await this.attempt(adopted, 'registered', () =>
+      this.laravelApiClient.uploadProductImages(
+        productId,
+        adopted.map((item) => uploads.get(item.publicId)!.image),
+      ),
+    );
+
+    for (const orphan of orphans.filter((item) => !adopted.includes(item))) {
+      await this.attempt([orphan], 'deleted', () => this.removeStored(orphan.publicId));
+    }
+
+    logger.info(
+      { productId, repaired: drift.filter((item) => item.repair).length, drift: drift.length },
+      'Reconciliation repair completed',
+    );
+  }
+
+  /*
+   * Run one repair action for the given drift items and record its outcome on them
+   */
+  private async attempt(
+    items: ImageDrift[],
+    repair: DriftRepair,
+    action: () => Promise<void>,
+  ): Promise<void> {
+    if (items.length === 0) return;
+
+    try {
+      await action();
+      items.forEach((item) => (item.repair = repair));
+    } catch (error) {
+      const { message } = classifyError(error);
+      items.forEach((item) => (item.repairError = message));
+    }
+  }
+
+  private listStored(productId: number): Promise<StoredAsset[]> {
+    return circuitBreakerFor(this.storage.name).execute(() =>
+      retry(() => this.storage.list(String(productId)), { operationName: 'storage-list' }),
+    );
+  }
+
+  private removeStored(publicId: string): Promise<void> {
+    return circuitBreakerFor(this.storage.name).execute(() =>
+      retry(() => this.storage.remove(publicId), { operationName: 'storage-delete' }),
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * RedisEventInbox
+ * ---------------
+ * Second way in for product-created events, next to the webhook: Laravel pushes the same
+ * JSON payload as the webhook body onto the Redis list <QUEUE_NAME>:inbox, e.g.
+ *   Redis::lpush('image-ingestion:product-events:inbox', json_encode($payload));
+ * The inbox is polled by the `consume` command when QUEUE_BACKEND=redis, and each payload
+ * goes through ProductEventIntake like a webhook. Access to Redis stands in for the
+ * webhook signature.
+ *
+ * A payload is only removed from the inbox once it is queued (or rejected), a crash in
+ * between queues it again on the next start, where the dedupe by product ID drops it.
+ */
+
+import Redis from 'ioredis';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { ProductEventIntake } from './ProductEventIntake';
+
+// Delay between two polls of an empty inbox
+const POLL_INTERVAL_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class RedisEventInbox {
+  private readonly redis: Redis;
+  private readonly key: string;
+  private stopping = false;
+  private loop?: Promise<void>;
+
+  constructor(
+    private readonly intake: ProductEventIntake,
+    url: string = env.redisUrl!,
+    queueName: string = env.queueName,
+  ) {
+    this.redis = new Redis(url);
+    this.redis.on('error', (error) => logger.warn({ error }, 'Redis connection error'));
+    this.key = `${queueName}:inbox`;
+  }
+
+  start(): void {
+    this.loop ??= this.poll();
+  }
+
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.loop;
+    await this.redis.quit();
+  }
+
+  private async poll(): Promise<void> {
+    logger.info({ inbox: this.key }, 'Polling the Redis event inbox');
+
+    while (!this.stopping) {
+      try {
+        // Oldest payload first, Laravel pushes on the left
+        const raw = await this.redis.lindex(this.key, -1);
+        if (raw === null) {
+          await sleep(POLL_INTERVAL_MS);
+          continue;
+        }
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(raw);
+        } catch {
+          this.intake.reject('Payload must be JSON', 'redis-inbox');
+          logger.error({ inbox: this.key, raw }, 'Dropped unreadable inbox payload');
+        }
+        if (payload !== undefined) {
+          const result = await this.intake.accept(payload, 'redis-inbox');
+          if (result.outcome === 'rejected') {
+            logger.error({ inbox: this.key, raw }, 'Dropped invalid inbox payload');
+          }
+        }
+        await this.redis.lrem(this.key, -1, raw);
+      } catch (error) {
+        logger.error({ inbox: this.key, error }, 'Redis event inbox failed');
+        await sleep(POLL_INTERVAL_MS);
+      }
+    }
+  }
+}
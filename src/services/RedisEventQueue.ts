@@ -0,0 +1,166 @@
+/**
+ * RedisEventQueue
+ * ---------------
+ * Product event queue in Redis (QUEUE_BACKEND=redis), a reliable queue surviving
+ * restarts. Keys, prefixed with QUEUE_NAME:
+ * - <name>:ready       list of events to process, pushed on the left, reserved from the right
+ * - <name>:processing  list of reserved events, moved there atomically by (B)LMOVE
+ * - <name>:delayed     sorted set of events waiting for a retry, scored by due time
+ * - <name>:dead        list of dead-lettered events, newest first
+ * - <name>:products    set of the product IDs in ready, processing or delayed (dedupe)
+ *
+ * Events left in the processing list by a consumer that died are queued again by
+ * recover() when the next consumer starts, so run one consumer per QUEUE_NAME (the
+ * worker already processes the products of a batch concurrently).
+ *
+ * Environment variables needed:
+ * - REDIS_URL=redis://localhost:6379
+ * - QUEUE_NAME=image-ingestion:product-events
+ */
+
+import Redis from 'ioredis';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { ProductEvent, ProductEventQueue } from '../types/queue';
+
+// Adds the product to the dedupe set and queues the event, unless the product is queued
+const ENQUEUE_SCRIPT = `
+if redis.call('SADD', KEYS[1], ARGV[1]) == 0 then return 0 end
+redis.call('LPUSH', KEYS[2], ARGV[2])
+return 1`;
+
+// Moves the delayed events that are due to the ready list
+const PROMOTE_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, member in ipairs(due) do
+  redis.call('ZREM', KEYS[1], member)
+  redis.call('LPUSH', KEYS[2], member)
+end
+return #due`;
+
+export class RedisEventQueue implements ProductEventQueue {
+  readonly name = 'redis';
+  private readonly redis: Redis;
+  // Blocking reads get their own connection, so that the webhook can enqueue meanwhile
+  private readonly blocking: Redis;
+  // Serialized form of each reserved event, removed from the processing list by value
+  private readonly reserved = new Map<string, string>();
+  private readonly keys: Record<'ready' | 'processing' | 'delayed' | 'dead' | 'products', string>;
+
+  constructor(url: string = env.redisUrl!, queueName: string = env.queueName) {
+    this.redis = new Redis(url);
+    this.blocking = this.redis.duplicate();
+    for (const connection of [this.redis, this.blocking]) {
+      connection.on('error', (error) => logger.warn({ error }, 'Redis connection error'));
+    }
+
+    this.keys = {
+      ready: `${queueName}:ready`,
+      processing: `${queueName}:processing`,
+      delayed: `${queueName}:delayed`,
+      dead: `${queueName}:dead`,
+      products: `${queueName}:products`,
+    };
+  }
+
+  async enqueue(event: ProductEvent): Promise<boolean> {
+    const queued = await this.redis.eval(
+      ENQUEUE_SCRIPT,
+      2,
+      this.keys.products,
+      this.keys.ready,
+      String(event.product.id),
+      JSON.stringify(event),
+    );
+    return queued === 1;
+  }
+
+  async reserve(timeoutMs: number): Promise<ProductEvent | undefined> {
+    await this.redis.eval(PROMOTE_SCRIPT, 2, this.keys.delayed, this.keys.ready, Date.now());
+
+    const { ready, processing } = this.keys;
+    const raw =
+      timeoutMs > 0
+        ? await this.blocking.blmove(ready, processing, 'RIGHT', 'LEFT', timeoutMs / 1000)
+        : ((await this.redis.lmove(ready, processing, 'RIGHT', 'LEFT')) as string | null);
+    if (raw === null) return undefined;
+
+    const event: ProductEvent = JSON.parse(raw);
+    this.reserved.set(event.id, raw);
+    return event;
+  }
+
+  async ack(event: ProductEvent): Promise<void> {
+    await this.redis
+      .multi()
+      .lrem(this.keys.processing, 1, this.reservedRaw(event))
+      .srem(this.keys.products, String(event.product.id))
+      .exec();
+    this.reserved.delete(event.id);
+  }
+
+  async retry(event: ProductEvent, delayMs: number): Promise<void> {
+    await this.redis
+      .multi()
+      .lrem(this.keys.processing, 1, this.reservedRaw(event))
+      .zadd(this.keys.delayed, Date.now() + delayMs, JSON.stringify(event))
+      .exec();
+    this.reserved.delete(event.id);
+  }
+
+  async deadLetter(event: ProductEvent): Promise<void> {
+    const deadLettered = { ...event, deadLetteredAt: new Date().toISOString() };
+    await this.redis
+      .multi()
+      .lrem(this.keys.processing, 1, this.reservedRaw(event))
+      .lpush(this.keys.dead, JSON.stringify(deadLettered))
+      .srem(this.keys.products, String(event.product.id))
+      .exec();
+    this.reserved.delete(event.id);
+  }
+
+  /*
+   * Oldest reserved event first, ahead of the events queued meanwhile
+   */
+  async recover(): Promise<number> {
+    let recovered = 0;
+    while (await this.redis.lmove(this.keys.processing, this.keys.ready, 'LEFT', 'RIGHT')) {
+      recovered++;
+    }
+    this.reserved.clear();
+    return recovered;
+  }
+
+  async deadLetters(): Promise<ProductEvent[]> {
+    const raws = await this.redis.lrange(this.keys.dead, 0, -1);
+    return raws.map((raw) => JSON.parse(raw));
+  }
+
+  async requeueDeadLetters(): Promise<number> {
+    let queued = 0;
+    for (;;) {
+      const raw = await this.redis.rpop(this.keys.dead);
+      if (raw === null) break;
+
+      const event: ProductEvent = JSON.parse(raw);
+      if (await this.enqueue({ ...event, attempts: 0, deadLetteredAt: undefined })) queued++;
+    }
+    return queued;
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.redis.quit(), this.blocking.quit()]);
+  }
+
+  private reservedRaw(event: ProductEvent): string {
+    const raw = this.reserved.get(event.id);
+    if (raw === undefined) {
+      throw new Error(`Event ${event.id} is not reserved by this consumer`);
+    }
+    return raw;
+  }
+}
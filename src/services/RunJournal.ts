@@ -0,0 +1,411 @@
+/**
+ * RunJournal
+ * ----------
+ * Responsibilities:
+ * 1. Persist the progress of an ingestion run as an append-only JSONL file:
+ *      <RUN_JOURNAL_DIR>/<runId>.jsonl
+ * 2. Record every product stage as soon as it completes:
+ *      fetched -> downloaded (per image) -> uploaded (per image) -> registered
+ *    every image rejected by ImageProcessor with its reason code,
+ *    every product failure with its error message, every product skipped as it needed
+ *    no images,
+ *    and uploaded images deleted again after a failed registration (rolled-back).
+ * 3. Store the Cloudinary images already produced, so a resumed run
+ *    (--resume=<runId>) re-registers them instead of uploading again.
+ * 4. Replace failed-products.json: failed product IDs are read back from the journal.
+ *
+ * The first line of each file is a `run-started` entry listing the product IDs of the run,
+ * and whether it is a batch run or a run of the event consumer.
+ * Entries are appended one write at a time, so concurrent products never interleave lines.
+ * Run IDs are the start time plus a random suffix: runs started in the same millisecond
+ * (control API, event consumer) still get a file each.
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { classifyError } from '../utils/errors';
+import { StreamDigest } from '../utils/imageStream';
+import { image, ImageSlots } from '../types/image';
+import { SourceImage } from '../types/imageSource';
+import { ImageRejectedError } from './ImageProcessor';
+import {
+  JournalEntry,
+  JournalUpload,
+  ProductProgress,
+  ProductStage,
+  ProductStageEntry,
+  RunOrigin,
+  RunStartedEntry,
+} from '../types/journal';
+
+const JOURNAL_EXTENSION = '.jsonl';
+
+export class RunJournal {
+  private readonly progress = new Map<number, ProductProgress>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+  // Ends the truncated last line of a crashed run before the next entry
+  private lineBreak = '';
+
+  private constructor(
+    readonly runId: string,
+    readonly productIds: number[],
+    readonly startedAt: string,
+    private readonly filePath: string,
+  ) {}
+
+  /*
+   * Start a new run journal for the given products
+   */
+  static async create(productIds: number[], origin: RunOrigin = 'batch'): Promise<RunJournal> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const runId = `${timestamp}-${randomBytes(3).toString('hex')}`;
+    const filePath = RunJournal.pathFor(runId);
+
+    await fs.mkdir(env.runJournalDir, { recursive: true });
+
+    const startedAt = new Date().toISOString();
+    const journal = new RunJournal(runId, productIds, startedAt, filePath);
+    const entry: RunStartedEntry = {
+      event: 'run-started',
+      at: startedAt,
+      runId,
+      origin,
+      productIds,
+    };
+    // wx: never append to the journal of another run
+    await fs.writeFile(filePath, `${JSON.stringify(entry)}\n`, { encoding: 'utf-8', flag: 'wx' });
+
+    logger.info({ runId, origin, filePath, products: productIds.length }, 'Run journal created');
+    return journal;
+  }
+
+  /*
+   * Load an existing run journal, e.g. to resume it
+   */
+  static async open(runId: string): Promise<RunJournal> {
+    const filePath = RunJournal.pathFor(runId);
+    const content = await fs.readFile(filePath, 'utf-8');
+
+    const entries: JournalEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A crash mid-write can only truncate the last line, everything before it is intact
+        logger.warn({ runId, line }, 'Skipping unreadable run journal line');
+      }
+    }
+
+    const header = entries.find((entry): entry is RunStartedEntry => entry.event === 'run-started');
+    if (!header) {
+      throw new Error(`Run journal ${filePath} has no run-started entry`);
+    }
+
+    const journal = new RunJournal(runId, header.productIds, header.at, filePath);
+    entries.forEach((entry) => journal.apply(entry));
+    if (!content.endsWith('\n')) journal.lineBreak = '\n';
+
+    logger.info({ runId, filePath, products: header.productIds.length }, 'Run journal loaded');
+    return journal;
+  }
+
+  /*
+   * Every run ID, oldest first (run IDs start with their ISO timestamp, so they sort chronologically)
+   */
+  static async runIds(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(env.runJournalDir);
+    } catch {
+      return [];
+    }
+
+    return files
+      .filter((file) => file.endsWith(JOURNAL_EXTENSION))
+      .map((file) => path.basename(file, JOURNAL_EXTENSION))
+      .sort();
+  }
+
+  /*
+   * Return the ID of the most recent batch run, if any. Consumer runs are left out:
+   * they only hold a batch of product events each.
+   */
+  static async latestRunId(): Promise<string | undefined> {
+    for (const runId of (await RunJournal.runIds()).reverse()) {
+      if ((await RunJournal.originOf(runId)) === 'batch') return runId;
+    }
+    return undefined;
+  }
+
+  /*
+   * Origin of a run, read from its first line only
+   */
+  private static async originOf(runId: string): Promise<RunOrigin | undefined> {
+    const content = await fs.readFile(RunJournal.pathFor(runId), 'utf-8');
+    try {
+      return (JSON.parse(content.slice(0, content.indexOf('\n'))) as RunStartedEntry).origin;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /*
+   * The images each product was last registered with, newest run first
+   */
+  static async latestRegistrations(
+    productIds: number[],
+  ): Promise<Map<number, { runId: string; images: image[] }>> {
+    const registrations = new Map<number, { runId: string; images: image[] }>();
+
+    for (const runId of (await RunJournal.runIds()).reverse()) {
+      const journal = await RunJournal.open(runId);
+      for (const productId of productIds) {
+        const progress = journal.progressFor(productId);
+        if (registrations.has(productId) || !progress?.registered) continue;
+
+        const images = Object.entries(progress.uploaded)
+          .sort(([a], [b]) => Number(a) - Number(b))
+          .map(([, image]) => image);
+        registrations.set(productId, { runId, images });
+      }
+      if (registrations.size === productIds.length) break;
+    }
+
+    return registrations;
+  }
+
+  /*
+   * Every image uploaded for each product by any run, by public_id. The newest upload of
+   * a public_id wins, as a later upload overwrites the stored image.
+   */
+  static async uploads(productIds: number[]): Promise<Map<number, Map<string, JournalUpload>>> {
+    const uploads = new Map<number, Map<string, JournalUpload>>(
+      productIds.map((productId) => [productId, new Map()]),
+    );
+
+    for (const runId of await RunJournal.runIds()) {
+      const journal = await RunJournal.open(runId);
+      for (const productId of productIds) {
+        const progress = journal.progressFor(productId);
+        for (const image of Object.values(progress?.uploaded ?? {})) {
+          uploads.get(productId)!.set(image.public_id, {
+            runId,
+            image,
+            registered: progress!.registered,
+          });
+        }
+      }
+    }
+
+    return uploads;
+  }
+
+  static async remove(runId: string): Promise<void> {
+    await fs.rm(RunJournal.pathFor(runId), { force: true });
+  }
+
+  private static pathFor(runId: string): string {
+    // Run IDs also come from HTTP requests, never let them escape the journal directory
+    if (!/^[\w-]+$/.test(runId)) {
+      throw new Error(`Invalid run ID: ${runId}`);
+    }
+    return path.join(env.runJournalDir, `${runId}${JOURNAL_EXTENSION}`);
+  }
+
+  progressFor(productId: number): ProductProgress | undefined {
+    return this.progress.get(productId);
+  }
+
+  /*
+   * Products of this run that are not settled yet (neither registered nor skipped)
+   */
+  pendingProductIds(): number[] {
+    return this.productIds.filter((productId) => {
+      const progress = this.progress.get(productId);
+      return !progress?.registered && !progress?.skipped;
+    });
+  }
+
+  /*
+   * Products whose latest outcome in this run is a failure
+   */
+  failedProductIds(): number[] {
+    return this.productIds.filter((productId) => {
+      const progress = this.progress.get(productId);
+      return progress?.error !== undefined && !progress.registered;
+    });
+  }
+
+  async fetched(productId: number, candidates: SourceImage[], slots: ImageSlots): Promise<void> {
+    await this.recordStage(productId, 'fetched', { candidates, ...slots });
+  }
+
+  async downloaded(
+    productId: number,
+    index: number,
+    url: string,
+    digest?: StreamDigest,
+  ): Promise<void> {
+    await this.recordStage(productId, 'downloaded', { index, url, ...digest });
+  }
+
+  async uploaded(productId: number, index: number, url: string, image: image): Promise<void> {
+    await this.recordStage(productId, 'uploaded', { index, url, image });
+  }
+
+  async registered(productId: number): Promise<void> {
+    await this.recordStage(productId, 'registered', {});
+  }
+
+  async skipped(productId: number): Promise<void> {
+    await this.record({ event: 'skipped', at: new Date().toISOString(), productId });
+  }
+
+  async failed(productId: number, error: unknown): Promise<void> {
+    const { message, errorClass } = classifyError(error);
+    await this.record({
+      event: 'failed',
+      at: new Date().toISOString(),
+      productId,
+      error: message,
+      errorClass,
+    });
+  }
+
+  async rejected(
+    productId: number,
+    index: number,
+    url: string,
+    error: ImageRejectedError,
+  ): Promise<void> {
+    await this.record({
+      event: 'rejected',
+      at: new Date().toISOString(),
+      productId,
+      index,
+      url,
+      reason: error.reason,
+      message: error.message,
+    });
+  }
+
+  async rolledBack(productId: number, publicIds: string[]): Promise<void> {
+    await this.record({
+      event: 'rolled-back',
+      at: new Date().toISOString(),
+      productId,
+      publicIds,
+    });
+  }
+
+  private async recordStage(
+    productId: number,
+    stage: ProductStage,
+    details: Pick<
+      ProductStageEntry,
+      | 'candidates'
+      | 'needed'
+      | 'firstIndex'
+      | 'assignPrimary'
+      | 'index'
+      | 'url'
+      | 'image'
+      | 'bytes'
+      | 'checksum'
+    >,
+  ): Promise<void> {
+    await this.record({
+      event: 'stage',
+      at: new Date().toISOString(),
+      productId,
+      stage,
+      ...details,
+    });
+  }
+
+  private async record(entry: JournalEntry): Promise<void> {
+    this.apply(entry);
+    await this.append(entry);
+  }
+
+  /*
+   * Fold one entry into the in-memory product progress
+   */
+  private apply(entry: JournalEntry): void {
+    if (entry.event === 'run-started') return;
+
+    const progress = this.progress.get(entry.productId) ?? {
+      productId: entry.productId,
+      firstIndex: 0,
+      assignPrimary: true,
+      uploaded: {},
+      sources: {},
+      rejected: [],
+      registered: false,
+      skipped: false,
+    };
+
+    if (entry.event === 'failed') {
+      progress.error = entry.error;
+      progress.errorClass = entry.errorClass;
+    } else if (entry.event === 'skipped') {
+      progress.skipped = true;
+      progress.error = undefined;
+      progress.errorClass = undefined;
+    } else if (entry.event === 'rejected') {
+      progress.rejected.push(entry.url);
+    } else if (entry.event === 'rolled-back') {
+      // Deleted images cannot be reused, a resumed run uploads these slots again
+      for (const [index, image] of Object.entries(progress.uploaded)) {
+        if (!entry.publicIds.includes(image.public_id)) continue;
+        delete progress.uploaded[Number(index)];
+        delete progress.sources[Number(index)];
+      }
+    } else {
+      progress.stage = entry.stage;
+      // Images still in flight when the product failed keep recording their stages,
+      // only a new attempt (fetched) or its success clears the failure
+      if (entry.stage === 'fetched' || entry.stage === 'registered') {
+        progress.error = undefined;
+        progress.errorClass = undefined;
+      }
+
+      if (entry.stage === 'fetched' && entry.candidates) {
+        // New candidates invalidate uploads made for the previous ones.
+        // Fetched entries always carry the image slots, see fetched().
+        progress.candidates = entry.candidates;
+        progress.needed = entry.needed;
+        progress.firstIndex = entry.firstIndex!;
+        progress.assignPrimary = entry.assignPrimary!;
+        progress.uploaded = {};
+        progress.sources = {};
+        progress.rejected = [];
+      }
+      if (entry.stage === 'uploaded' && entry.index !== undefined && entry.image) {
+        progress.uploaded[entry.index] = entry.image;
+        if (entry.url) progress.sources[entry.index] = entry.url;
+      }
+      if (entry.stage === 'registered') {
+        progress.registered = true;
+      }
+    }
+
+    this.progress.set(entry.productId, progress);
+  }
+
+  /*
+   * Append one line, chained after the previous write so lines never interleave
+   */
+  private append(entry: JournalEntry): Promise<void> {
+    const line = `${this.lineBreak}${JSON.stringify(entry)}\n`;
+    this.lineBreak = '';
+    const write = this.pendingWrite.then(() => fs.appendFile(this.filePath, line, 'utf-8'));
+    // Keep the chain alive even if one write fails, the caller still sees the error
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * S3StorageBackend
+ * ----------------
+ * Uploads image buffers to an S3-compatible bucket (AWS S3, MinIO, R2...):
+ *      s3://<S3_BUCKET>/<CLOUDINARY_UPLOAD_FOLDER>/<productId>/image_<index>.<format>
+ *
+ * Width, height and format are read from the image itself before upload. An upload
+ * replaces the image stored under the same public_id, whatever its format.
+ * secure_url is built from S3_PUBLIC_BASE_URL when set, else from the endpoint
+ * and bucket (path-style, which is what a local MinIO serves).
+ *
+ * Environment variables needed:
+ * - S3_BUCKET
+ * - S3_REGION=us-east-1
+ * - S3_ENDPOINT (optional, e.g. http://localhost:9000 for MinIO)
+ * - S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY (optional, else the default AWS chain)
+ * - S3_FORCE_PATH_STYLE=true for MinIO
+ * - S3_PUBLIC_BASE_URL (optional)
+ */
+
+import {
+  DeleteObjectCommand,
+  HeadBucketCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import path from 'path';
+import { env } from '../config/env';
+import { publicIdFor } from '../utils/publicId';
+import { contentTypeFor, readImageMetadata } from '../utils/imageMetadata';
+import { image } from '../types/image';
+import { StorageBackend, StoredAsset } from '../types/storage';
+
+export class S3StorageBackend implements StorageBackend {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor() {
+    if (!env.s3Bucket) {
+      throw new Error('Missing required environment variable: S3_BUCKET');
+    }
+    this.bucket = env.s3Bucket;
+
+    this.client = new S3Client({
+      region: env.s3Region,
+      endpoint: env.s3Endpoint,
+      forcePathStyle: env.s3ForcePathStyle,
+      credentials:
+        env.s3AccessKeyId && env.s3SecretAccessKey
+          ? { accessKeyId: env.s3AccessKeyId, secretAccessKey: env.s3SecretAccessKey }
+          : undefined,
+    });
+  }
+
+  async upload(buffer: Buffer, productId: string, index: number): Promise<image> {
+    const { width, height, format } = await readImageMetadata(buffer);
+
+    const publicId = publicIdFor(productId, index);
+    const key = `${publicId}.${format}`;
+
+    // Same public_id overwrites, like Cloudinary. Drop copies stored under another format.
+    const existing = await this.listPrefix(`${publicId}.`);
+    await this.removeAll(existing.filter((asset) => asset.format !== format));
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: buffer,
+        ContentType: contentTypeFor(format),
+      }),
+    );
+
+    return {
+      secure_url: `${this.publicBaseUrl()}/${key}`,
+      public_id: publicId,
+      width,
+      height,
+      bytes: buffer.length,
+      format,
+    };
+  }
+
+  async list(productId: string): Promise<StoredAsset[]> {
+    return await this.listPrefix(`${env.cloudinaryUploadFolder}/${productId}/`);
+  }
+
+  /*
+   * The object key carries the format extension, find it before deleting
+   */
+  async remove(publicId: string): Promise<void> {
+    await this.removeAll(await this.listPrefix(`${publicId}.`));
+  }
+
+  /*
+   * Folders are only key prefixes in S3, deleting the objects deletes the folder
+   */
+  async removeFolder(productId: string): Promise<number> {
+    const assets = await this.list(productId);
+    await this.removeAll(assets);
+    return assets.length;
+  }
+
+  async ping(): Promise<void> {
+    await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+  }
+
+  private async removeAll(assets: StoredAsset[]): Promise<void> {
+    for (const asset of assets) {
+      await this.client.send(
+        new DeleteObjectCommand({
+          Bucket: this.bucket,
+          Key: `${asset.public_id}.${asset.format}`,
+        }),
+      );
+    }
+  }
+
+  private async listPrefix(prefix: string): Promise<StoredAsset[]> {
+    const assets: StoredAsset[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of page.Contents ?? []) {
+        const key = object.Key!;
+        const extension = path.posix.extname(key);
+        assets.push({
+          public_id: key.slice(0, key.length - extension.length),
+          secure_url: `${this.publicBaseUrl()}/${key}`,
+          bytes: object.Size ?? 0,
+          format: extension.slice(1),
+        });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return assets;
+  }
+
+  private publicBaseUrl(): string {
+    if (env.s3PublicBaseUrl) return env.s3PublicBaseUrl.replace(/\/$/, '');
+    if (env.s3Endpoint) return `${env.s3Endpoint.replace(/\/$/, '')}/${this.bucket}`;
+    return `https://${this.bucket}.s3.${env.s3Region}.amazonaws.com`;
+  }
+}
@@ -0,0 +1,24 @@
+import { env } from '../config/env';
+import { StorageBackend } from '../types/storage';
+import { CloudinaryStorageBackend } from './CloudinaryStorageBackend';
+import { LocalStorageBackend } from './LocalStorageBackend';
+import { S3StorageBackend } from './S3StorageBackend';
+
+const STORAGE_BACKENDS: Record<string, () => StorageBackend> = {
+  cloudinary: () => new CloudinaryStorageBackend(),
+  local: () => new LocalStorageBackend(),
+  s3: () => new S3StorageBackend(),
+};
+
+/*
+ * Build the storage backend selected by STORAGE_BACKEND (cloudinary by default)
+ */
+export function createStorageBackend(name: string = env.storageBackend): StorageBackend {
+  const factory = STORAGE_BACKENDS[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND: ${name} (expected ${Object.keys(STORAGE_BACKENDS).join(', ')})`,
+    );
+  }
+  return factory();
+}
@@ -2,161 +2,257 @@
  * Goal: to find relevant photos for each product based on the product's category from Unsplash API'
  * How many photos to fetch: Default 4
  * Regular photo size will be used
- * If Rate Limit is reached, wait and retry
+ * Rate limit: every request takes a token from unsplashRateLimiter, kept in sync with the
+ * X-Ratelimit-Limit / X-Ratelimit-Remaining headers. When the hourly quota is spent the
+ * pipeline pauses until the window resets (UNSPLASH_RATE_WINDOW_MS), products do not fail.
  * Number of retries: 3 default (can be configured in the env file)
  * Time between retries: 500ms (can be configured in the env file)
  * If error occurs during the process, a structured log will be created
- * mappings :
- * t-shirts: "t-shirt apparel studio white background"
- * hoodies: "hoodie fashion studio isolated background"
- * sweaters: "sweater knitwear studio fashion shot"
- * denim: "denim jeans fashion studio isolated"
- * chinos: "chino pants fashion studio neutral background"
- * dresses: "dress fashion studio editorial isolated"
- * skirts: "skirt fashion studio minimal background"
- * blouses: "blouse fashion photo studio clean background"
- * shirts: "shirt menswear studio white background"
- * suits: "suit menswear studio portrait isolated"
- * jackets: "jacket fashion studio outerwear isolated"
- * coats: "coat fashion editorial studio white wall"
- * activewear: "activewear sportswear studio athletic apparel"
- * loungewear: "loungewear cozy clothing studio soft tones"
- * underwear: "underwear minimal fashion studio isolated"
- * socks: "socks pair apparel studio white background"
- * scarves: "scarf accessory fashion studio isolated"
- * hats: "hat cap fashion studio isolated background"
- * belts: "belt leather accessory studio product photo"
- * bags: "bag tote handbag studio product isolated"
+ * Queries per category: see config/categoryQueries.ts, every query of the search is used,
+ * orientation/color are passed as the `orientation`/`color` search filters and photos whose
+ * description mentions a negative keyword are dropped
+ * Attribution: every photo keeps its id, photographer, profile link, alt_description and
+ * download_location. trackDownload calls download_location for each photo registered
+ * in Laravel, as the Unsplash API guidelines require.
+ * HTTP client: an axios instance on https://api.unsplash.com by default, tests pass one
+ * on a local fake (see test/helpers/fakeUnsplash.ts).
  */
 
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { retry } from '../utils/retry';
+import { RateLimiter } from '../utils/rateLimiter';
+import { circuitBreakerFor } from '../utils/circuitBreaker';
+import { mentionsNegativeKeyword } from '../config/categoryQueries';
+import { ImageSearch, ImageSourceProvider, SourceImage } from '../types/imageSource';
 
-const CATEGORY_QUERY_MAP: Record<string, string> = {
-  't-shirts': 't-shirt apparel studio white background',
-  hoodies: 'hoodie fashion studio isolated background',
-  sweaters: 'sweater knitwear studio fashion shot',
-  denim: 'denim jeans fashion studio isolated',
-  chinos: 'chino pants fashion studio neutral background',
-  dresses: 'dress fashion studio editorial isolated',
-  skirts: 'skirt fashion studio minimal background',
-  blouses: 'blouse fashion photo studio clean background',
-  shirts: 'shirt menswear studio white background',
-  suits: 'suit menswear studio portrait isolated',
-  jackets: 'jacket fashion studio outerwear isolated',
-  coats: 'coat fashion editorial studio white wall',
-  activewear: 'activewear sportswear studio athletic apparel',
-  loungewear: 'loungewear cozy clothing studio soft tones',
-  underwear: 'underwear minimal fashion studio isolated',
-  socks: 'socks pair apparel studio white background',
-  scarves: 'scarf accessory fashion studio isolated',
-  hats: 'hat cap fashion studio isolated background',
-  belts: 'belt leather accessory studio product photo',
-  bags: 'bag tote handbag studio product isolated',
-};
+// Result pages fetched per category, shared by all queries of the search
+const PAGE_LIMIT = 10;
+const UNSPLASH_API_URL = 'https://api.unsplash.com';
+const REQUEST_TIMEOUT_MS = 8000;
 
 type UnsplashSearchResponse = {
   total: number;
   total_pages: number;
-  results: {
-    id: string;
-    urls: {
-      regular: string;
-      [key: string]: string;
-    };
-    [key: string]: any;
-  }[];
+  results: UnsplashPhoto[];
 };
 
-export type UnsplashImageResult = {
-  url: string;
+type UnsplashPhoto = {
+  id: string;
+  alt_description?: string | null;
+  description?: string | null;
+  urls: {
+    regular: string;
+    [key: string]: string;
+  };
+  links?: {
+    html?: string;
+    download_location?: string;
+  };
+  user?: {
+    name?: string;
+    links?: { html?: string };
+  };
+  [key: string]: any;
 };
 
-export class UnsplashService {
+// Shared by every UnsplashService instance, the quota belongs to the access key
+export const unsplashRateLimiter = new RateLimiter('unsplash', {
+  limit: env.unsplashRateLimit,
+  windowMs: env.unsplashRateWindowMs,
+});
+
+function toSourceImage(photo: UnsplashPhoto): SourceImage {
+  return {
+    url: photo.urls.regular,
+    provider: 'unsplash',
+    id: photo.id,
+    photographer: photo.user?.name,
+    photographerUrl: photo.user?.links?.html,
+    pageUrl: photo.links?.html,
+    altDescription: photo.alt_description ?? undefined,
+    downloadLocation: photo.links?.download_location,
+  };
+}
+
+function syncRateLimit(headers: Record<string, any> | undefined): void {
+  const limit = headers?.['x-ratelimit-limit'];
+  const remaining = headers?.['x-ratelimit-remaining'];
+  unsplashRateLimiter.update(
+    limit !== undefined ? Number(limit) : undefined,
+    remaining !== undefined ? Number(remaining) : undefined,
+  );
+}
+
+/*
+ * Unsplash answers 403 "Rate Limit Exceeded" (X-Ratelimit-Remaining: 0) once the quota
+ * is spent, 429 is handled the same way
+ */
+function isRateLimitResponse(err: any): boolean {
+  const status = err?.response?.status;
+  if (status === 429) return true;
+  if (status !== 403) return false;
+
+  const remaining = err?.response?.headers?.['x-ratelimit-remaining'];
+  const body = String(err?.response?.data ?? '');
+  return remaining === '0' || /rate limit/i.test(body);
+}
+
+export class UnsplashService implements ImageSourceProvider {
+  readonly name = 'unsplash';
   private readonly accessKey = env.unsplashAccessKey;
-  private readonly querySize = env.unsplashQuerySize;
 
-  private buildQuery(categorySlug: string): string {
-    const base = CATEGORY_QUERY_MAP[categorySlug];
-    if (!base) {
-      logger.warn({ categorySlug }, 'No Unsplash query mapping found for category slug.');
-      return `${categorySlug} apparel studio`;
-    }
-    return base;
-  }
+  constructor(
+    private readonly http: AxiosInstance = axios.create({
+      baseURL: UNSPLASH_API_URL,
+      timeout: REQUEST_TIMEOUT_MS,
+    }),
+  ) {}
 
   private async makeUnsplashRequest(
+    search: ImageSearch,
     query: string,
-    querySize: number = this.querySize,
     page: number = 1,
   ): Promise<{ pages: number; results: UnsplashSearchResponse['results'] }> {
-    const url = 'https://api.unsplash.com/search/photos';
-
-    try {
-      const response = await axios.get<UnsplashSearchResponse>(url, {
-        params: {
-          query,
-          page,
-          per_page: 30,
-        },
-        headers: {
-          Authorization: `Client-ID ${this.accessKey}`,
-        },
-        timeout: 8000,
-      });
-
-      console.log(response.data);
-
-      return {
-        pages: response.data.total_pages,
-        results: response.data?.results,
-      };
-    } catch (err: any) {
-      const status = err?.response?.status;
-      logger.error({ query, status }, 'Unsplash API request failed');
-      throw err;
+    // Quota refusals are not failures: wait for the window to reset and send the request again
+    for (;;) {
+      await unsplashRateLimiter.acquire();
+
+      try {
+        const response = await this.http.get<UnsplashSearchResponse>('/search/photos', {
+          params: {
+            query,
+            page,
+            per_page: 30,
+            orientation: search.orientation,
+            color: search.color,
+          },
+          headers: {
+            Authorization: `Client-ID ${this.accessKey}`,
+          },
+        });
+
+        syncRateLimit(response.headers);
+        logger.info(
+          {
+            query,
+            page,
+            results: response.data?.results?.length ?? 0,
+            totalPages: response.data?.total_pages,
+            budget: unsplashRateLimiter.budget(),
+          },
+          'Unsplash API request completed',
+        );
+
+        return {
+          pages: response.data.total_pages,
+          results: response.data?.results,
+        };
+      } catch (err: any) {
+        const status = err?.response?.status;
+        syncRateLimit(err?.response?.headers);
+
+        if (isRateLimitResponse(err)) {
+          logger.warn(
+            { query, status, budget: unsplashRateLimiter.budget() },
+            'Unsplash rate limit exceeded, waiting for the quota window to reset',
+          );
+          unsplashRateLimiter.exhaust();
+          continue;
+        }
+
+        logger.error({ query, status }, 'Unsplash API request failed');
+        throw err;
+      }
     }
   }
 
-  async fetchImagesForCategory(categorySlug: string, remaining: number = 4): Promise<string[]> {
-    const query = this.buildQuery(categorySlug);
+  /*
+   * One search request, retried on transient errors and failing fast while the
+   * Unsplash circuit is open
+   */
+  private request(search: ImageSearch, query: string, page?: number) {
+    return circuitBreakerFor('unsplash').execute(() =>
+      retry(() => this.makeUnsplashRequest(search, query, page), {
+        operationName: 'unsplash-request',
+      }),
+    );
+  }
 
-    logger.info({ categorySlug, query }, 'Fetching images from Unsplash for category');
+  /*
+   * Stops paging, and moves on to no further query, once `wanted` candidates are collected
+   */
+  async fetchImagesForCategory(search: ImageSearch, wanted: number): Promise<SourceImage[]> {
+    const { categorySlug, queries } = search;
+    const pagesPerQuery = Math.max(1, Math.floor(PAGE_LIMIT / queries.length));
 
-    const images: string[] = [];
+    // Keyed by URL, queries of the same search often return the same photos
+    const images = new Map<string, SourceImage>();
+    let dropped = 0;
 
-    const response = await retry(() => this.makeUnsplashRequest(query, remaining), {
-      operationName: 'unsplash-request',
-    });
-    const { pages, results } = response;
+    for (const query of queries) {
+      if (images.size >= wanted) break;
+      logger.info(
+        { categorySlug, query, orientation: search.orientation, color: search.color },
+        'Fetching images from Unsplash for category',
+      );
 
-    if (!Array.isArray(results) || results.length == 0) {
-      logger.warn({ categorySlug, query }, 'No images found in Unsplash response');
-      return [];
-    }
+      for (let page = 1; page <= pagesPerQuery; page++) {
+        const { pages, results } = await this.request(search, query, page);
+        if (!Array.isArray(results) || results.length == 0) {
+          if (page === 1)
+            logger.warn({ categorySlug, query }, 'No images found in Unsplash response');
+          break;
+        }
 
-    images.push(...results.map((item: any) => item?.urls?.regular));
+        for (const item of results) {
+          const description = `${item?.alt_description ?? ''} ${item?.description ?? ''}`;
+          if (mentionsNegativeKeyword(description, search.negativeKeywords)) {
+            dropped++;
+            continue;
+          }
+          if (item?.urls?.regular) images.set(item.urls.regular, toSourceImage(item));
+        }
 
-    if (pages > 1) {
-      const pageLimit = Math.min(pages, 10);
-      for (let i = 2; i <= pageLimit; i++) {
-        console.log('fetching page: ' + i);
-        const response = await retry(() => this.makeUnsplashRequest(query, remaining, i), {
-          operationName: 'unsplash-request',
-        });
-        images.push(...response.results.map((item: any) => item?.urls?.regular));
+        if (page >= pages || images.size >= wanted) break;
       }
     }
 
     logger.info(
-      { categorySlug, requested: this.querySize, received: images.length },
+      { categorySlug, requested: wanted, received: images.size, dropped },
       'Unsplash images fetched successfully',
     );
 
-    console.log('Fetched Unsplash images:', images);
+    return [...images.values()];
+  }
+
+  /*
+   * Tell Unsplash the photo was used (GET download_location), it counts against the quota
+   */
+  async trackDownload(image: SourceImage): Promise<void> {
+    const { downloadLocation } = image;
+    if (!downloadLocation) return;
+
+    await circuitBreakerFor('unsplash').execute(() =>
+      retry(
+        async () => {
+          await unsplashRateLimiter.acquire();
+          try {
+            // An absolute URL, the base URL does not apply
+            const response = await this.http.get(downloadLocation, {
+              headers: { Authorization: `Client-ID ${this.accessKey}` },
+            });
+            syncRateLimit(response.headers);
+          } catch (err: any) {
+            syncRateLimit(err?.response?.headers);
+            throw err;
+          }
+        },
+        { operationName: 'unsplash-download' },
+      ),
+    );
 
-    return images;
+    logger.info({ photoId: image.id }, 'Unsplash download tracked');
   }
 }
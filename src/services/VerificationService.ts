@@ -0,0 +1,60 @@
+/**
+ * VerificationService
+ * -------------------
+ * Checks that the images registered for products are still reachable:
+ * 1. Find the images each product was last registered with (run journals).
+ * 2. Request every secure_url (HEAD for http(s), file access for file://).
+ * 3. Report per product: ok, missing-images (some URLs are broken) or
+ *    not-registered (no run ever registered the product).
+ */
+
+import { env } from '../config/env';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { checkExists } from '../utils/http';
+import { image } from '../types/image';
+import { RunJournal } from './RunJournal';
+
+export type ImageCheck = {
+  publicId: string;
+  url: string;
+  ok: boolean;
+  error?: string;
+};
+
+export type ProductVerification = {
+  productId: number;
+  status: 'ok' | 'missing-images' | 'not-registered';
+  runId?: string;
+  images: ImageCheck[];
+};
+
+async function checkImage(registered: image): Promise<ImageCheck> {
+  const check = { publicId: registered.public_id, url: registered.secure_url };
+  const error = await checkExists(registered.secure_url);
+  return error ? { ...check, ok: false, error } : { ...check, ok: true };
+}
+
+export class VerificationService {
+  async verify(productIds: number[]): Promise<ProductVerification[]> {
+    const registrations = await RunJournal.latestRegistrations(productIds);
+
+    return await mapWithConcurrency(productIds, env.ingestionConcurrency, async (productId) => {
+      const registration = registrations.get(productId);
+      if (!registration) {
+        return { productId, status: 'not-registered' as const, images: [] };
+      }
+
+      const images = await mapWithConcurrency(
+        registration.images,
+        env.imageConcurrency,
+        checkImage,
+      );
+      return {
+        productId,
+        status: images.every((check) => check.ok) ? ('ok' as const) : ('missing-images' as const),
+        runId: registration.runId,
+        images,
+      };
+    });
+  }
+}
@@ -0,0 +1,46 @@
+// Unsplash `orientation` filter
+export type SearchOrientation = 'landscape' | 'portrait' | 'squarish';
+
+// Unsplash `color` filter
+export type SearchColor =
+  | 'black_and_white'
+  | 'black'
+  | 'white'
+  | 'yellow'
+  | 'orange'
+  | 'red'
+  | 'purple'
+  | 'magenta'
+  | 'green'
+  | 'teal'
+  | 'blue';
+
+/**
+ * Search rules of one category (or the defaults of every category).
+ * - queries:          search queries, each one is searched
+ * - negativeKeywords: photos whose description mentions one of them are dropped
+ * - orientation / color: passed to the provider search filters
+ * - enrich:           product fields whose matching keywords are prepended to every query,
+ *                     e.g. name "Relaxed Cotton Graphic Tee" + keyword "graphic"
+ *                     turns "t-shirt apparel studio" into "graphic t-shirt apparel studio"
+ */
+export type CategoryQueryRule = {
+  queries: string[];
+  negativeKeywords?: string[];
+  orientation?: SearchOrientation;
+  color?: SearchColor;
+  enrich?: {
+    fields: ('name' | 'slug' | 'description')[];
+    keywords: string[];
+  };
+};
+
+/**
+ * Category query config, loaded from CATEGORY_QUERIES_CONFIG_PATH (YAML or JSON).
+ * `version` is bumped on incompatible changes of the format.
+ */
+export type CategoryQueryConfig = {
+  version: 1;
+  defaults?: Omit<CategoryQueryRule, 'queries'>;
+  categories: Record<string, CategoryQueryRule>;
+};
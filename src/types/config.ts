@@ -0,0 +1,119 @@
+/**
+ * Resolved configuration of the service, see config/configSchema.ts for the environment
+ * variable, default and allowed range of each setting.
+ */
+export type EnvConfig = {
+  unsplashAccessKey: string;
+  unsplashQuerySize: number;
+  cloudinaryCloudName: string;
+  cloudinaryApiKey: string;
+  cloudinaryApiSecret: string;
+  cloudinaryUploadFolder: string;
+  laravelApiBaseUrl: string;
+  laravelApiToken: string;
+  retryAttempts: number;
+  retryBackoffMs: number;
+  retryMaxElapsedMs: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerResetMs: number;
+  productInputJsonPath: string;
+  productSource: string;
+  categoriesPath: string;
+  categoryQueriesConfigPath: string;
+  ingestionConcurrency: number;
+  imageConcurrency: number;
+  runJournalDir: string;
+  runReportDir: string;
+  imageSourcesConfigPath: string;
+  localAssetsDir: string;
+  pexelsApiKey?: string;
+  storageBackend: string;
+  localStorageDir: string;
+  localStorageBaseUrl?: string;
+  s3Bucket?: string;
+  s3Region: string;
+  s3Endpoint?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3ForcePathStyle: boolean;
+  s3PublicBaseUrl?: string;
+  imageRulesConfigPath: string;
+  imageDerivativesConfigPath: string;
+  imageTargetFormat: string;
+  imageMaxDimension: number;
+  imageQuality: number;
+  phashIndexPath: string;
+  dedupeEnabled: boolean;
+  dedupeMaxReuses: number;
+  dedupeHammingThreshold: number;
+  port: number;
+  host: string;
+  logLevel: string;
+  controlApiToken?: string;
+  unsplashRateLimit: number;
+  unsplashRateWindowMs: number;
+  imagesPerProduct: number;
+  imageStreaming: boolean;
+  imageCardAspectRatio: number;
+  queueBackend: string;
+  redisUrl?: string;
+  queueName: string;
+  webhookSecret?: string;
+  consumerBatchSize: number;
+  consumerMaxAttempts: number;
+  consumerRetryBackoffMs: number;
+  consumerDrainTimeoutMs: number;
+};
+
+export type ConfigProfile = 'dev' | 'staging' | 'prod';
+
+/**
+ * One setting of the schema.
+ * - env:      environment variable overriding it, an empty variable counts as unset
+ * - type:     how its value is parsed (url: http(s) URL)
+ * - default:  value when no profile, config file or variable sets it
+ * - min/max:  inclusive range of numbers
+ * - values:   allowed values of strings
+ * - required: must be set, possibly only for some configurations
+ * - secret:   masked by `config check`
+ */
+export type SettingSchema = {
+  env: string;
+  type: 'string' | 'integer' | 'number' | 'boolean' | 'url';
+  default?: string | number | boolean;
+  min?: number;
+  max?: number;
+  values?: string[];
+  required?: boolean | ((config: Partial<EnvConfig>) => boolean);
+  secret?: boolean;
+};
+
+// Where the value of a setting comes from, by increasing precedence
+export type ConfigSource = 'default' | 'profile' | 'file' | 'env';
+
+export type LoadedConfig = {
+  config: EnvConfig;
+  profile?: ConfigProfile;
+  configFile?: string;
+  // Unset optional settings have no source
+  sources: Partial<Record<keyof EnvConfig, ConfigSource>>;
+};
+
+/**
+ * Result of `config check`.
+ * - settings:     every setting with its (masked) value and where it comes from
+ * - files:        the config files the pipeline loads, parsed and validated
+ * - dependencies: every configured external dependency, pinged (see HealthCheckService)
+ */
+export type ConfigCheck = {
+  profile?: ConfigProfile;
+  configFile?: string;
+  settings: { name: keyof EnvConfig; env: string; value: string; source?: ConfigSource }[];
+  files: { name: string; path: string; error?: string }[];
+  dependencies: {
+    name: string;
+    status: 'ok' | 'down';
+    latencyMs: number;
+    detail?: string;
+  }[];
+};
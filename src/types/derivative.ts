@@ -0,0 +1,31 @@
+/**
+ * How a derivative is fitted into its box, with Cloudinary's crop modes:
+ * - fill:  cover the box exactly, cropping what overflows
+ * - fit:   fit inside the box, keeping the aspect ratio
+ * - limit: like fit, but never enlarge
+ * - pad:   fit inside the box and pad it to its exact size
+ * - thumb: fill, cropped around the detected subject
+ */
+export type DerivativeCrop = 'fill' | 'fit' | 'limit' | 'pad' | 'thumb';
+
+/**
+ * One responsive variant generated for every uploaded image, e.g. a thumbnail or a zoom
+ * image. At least one of width and height is set, format and quality default to the
+ * stored image's.
+ */
+export type DerivativePreset = {
+  name: string;
+  width?: number;
+  height?: number;
+  crop: DerivativeCrop;
+  format?: string;
+  quality?: number | 'auto';
+};
+
+/**
+ * Derivative presets, loaded from IMAGE_DERIVATIVES_CONFIG_PATH:
+ *   { "presets": [{ "name": "thumbnail", "width": 200, "height": 200, "crop": "fill" }] }
+ */
+export type DerivativePresetsConfig = {
+  presets: DerivativePreset[];
+};
@@ -0,0 +1,33 @@
+/**
+ * Error classes of the pipeline, from the point of view of retrying.
+ * - transient:    network errors, timeouts, 5xx. Worth retrying.
+ * - rate-limited: 429 or quota refusal. Worth retrying, after Retry-After when given.
+ * - auth:         401/403, bad or missing credentials. Retrying cannot help.
+ * - validation:   other 4xx and rejected images. Retrying cannot help.
+ * - not-found:    404/410, or no usable image for a product. Retrying cannot help.
+ * - dependency-open: the dependency's circuit breaker is open, the call was not even made.
+ */
+export type ErrorClass =
+  | 'transient'
+  | 'rate-limited'
+  | 'auth'
+  | 'validation'
+  | 'not-found'
+  | 'dependency-open';
+
+/**
+ * How one operation is retried.
+ * - attempts:     total attempts, including the first one
+ * - backoffMs:    delay before the first retry, multiplied by `factor` on each retry
+ * - maxDelayMs:   cap on a single backoff delay (a longer Retry-After is still honored)
+ * - maxElapsedMs: give up once this much time has passed since the first attempt
+ * - jitter:       randomize each delay (full jitter) so parallel products do not retry in step
+ */
+export type RetryPolicy = {
+  attempts: number;
+  backoffMs: number;
+  factor: number;
+  maxDelayMs: number;
+  maxElapsedMs: number;
+  jitter: boolean;
+};
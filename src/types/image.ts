@@ -1,3 +1,5 @@
+import { SourceImage } from './imageSource';
+
 export type image = {
   secure_url: string;
   public_id: string;
@@ -5,4 +7,57 @@ export type image = {
   height: number;
   bytes: number;
   format: string;
+  // Photo the image was made from, absent for images uploaded before it was recorded
+  source?: SourceImage;
+  // Responsive variants, one per derivative preset. Absent when the storage backend
+  // generates none.
+  derivatives?: ImageDerivative[];
+  // How good a product photo it is (see scoreImage), decides position and primary image
+  score?: number;
+  // Set when the image is registered: order among the product's images, and whether it
+  // is the hero image of the product
+  position?: number;
+  isPrimary?: boolean;
+};
+
+/**
+ * One generated variant of an image (see DerivativePreset)
+ */
+export type ImageDerivative = {
+  name: string;
+  secure_url: string;
+  width: number;
+  height: number;
+  bytes: number;
+  format: string;
+};
+
+/**
+ * Credit of the source photo, as registered in Laravel
+ */
+export type ImageAttribution = {
+  provider: string;
+  source_id: string;
+  photographer: string | null;
+  photographer_url: string | null;
+  source_url: string | null;
+};
+
+/**
+ * One image of the registration payload POSTed to Laravel. Alt text and attribution are
+ * only sent for images whose source photo is known.
+ */
+export type ImagePayload = Omit<image, 'source' | 'score'> & {
+  alt_text?: string | null;
+  attribution?: ImageAttribution | null;
+};
+
+/**
+ * The new images a product gets: how many, the index (and position) of the first one,
+ * after the images it already has, and whether the best one becomes its primary image
+ */
+export type ImageSlots = {
+  needed: number;
+  firstIndex: number;
+  assignPrimary: boolean;
 };
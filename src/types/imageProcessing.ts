@@ -0,0 +1,45 @@
+/**
+ * Why an image was rejected by ImageProcessor, recorded in the run journal.
+ * - not-an-image:       the bytes match no known image signature (HTML error page, JSON...)
+ * - unsupported-format: a known image format we cannot decode (e.g. BMP)
+ * - truncated:          the file ends before the image does
+ * - corrupt:            the image could not be decoded
+ * - too-large:          the file exceeds maxBytes
+ * - too-small:          the image is below minWidth / minHeight
+ * - bad-aspect-ratio:   width / height is outside [minAspectRatio, maxAspectRatio]
+ * - duplicate:          a near-duplicate is already used by too many other products
+ */
+export type ImageRejectionReason =
+  | 'not-an-image'
+  | 'unsupported-format'
+  | 'truncated'
+  | 'corrupt'
+  | 'too-large'
+  | 'too-small'
+  | 'bad-aspect-ratio'
+  | 'duplicate';
+
+export type ImageRules = {
+  minWidth: number;
+  minHeight: number;
+  minAspectRatio: number;
+  maxAspectRatio: number;
+  maxBytes: number;
+};
+
+/**
+ * Validation rules, loaded from IMAGE_RULES_CONFIG_PATH:
+ *   { "default": { "minWidth": 600 }, "categories": { "scarves": { "maxAspectRatio": 3 } } }
+ * Category entries override `default`, which overrides the built-in rules.
+ */
+export type ImageRulesConfig = {
+  default: Partial<ImageRules>;
+  categories: Record<string, Partial<ImageRules>>;
+};
+
+export type ProcessedImage = {
+  buffer: Buffer;
+  format: string;
+  width: number;
+  height: number;
+};
@@ -0,0 +1,56 @@
+import { SearchColor, SearchOrientation } from './categoryQuery';
+
+/**
+ * What to search for one product, resolved from the category query config
+ * (see CategoryQueries.searchFor). Products with the same search share its results.
+ */
+export type ImageSearch = {
+  categorySlug: string;
+  queries: string[];
+  negativeKeywords: string[];
+  orientation?: SearchOrientation;
+  color?: SearchColor;
+};
+
+/**
+ * A candidate photo and what its provider tells about it, carried through to storage
+ * (Cloudinary context/tags) and Laravel so the storefront can credit the photographer.
+ * Only `url` is always known: local files have no attribution.
+ */
+export type SourceImage = {
+  url: string;
+  provider?: string;
+  // Photo ID at the provider
+  id?: string;
+  photographer?: string;
+  photographerUrl?: string;
+  // Page of the photo at the provider, for the credit link
+  pageUrl?: string;
+  altDescription?: string;
+  // Unsplash endpoint to call when the photo is used (API guidelines)
+  downloadLocation?: string;
+};
+
+/**
+ * A source of candidate product photos, e.g. Unsplash, Pexels or a local directory.
+ * Implementations return images whose URL CloudinaryService.downloadImage can read
+ * (http(s):// or file://), and an empty list when they have nothing for the category.
+ * Search filters a provider does not support are ignored. `wanted` is the number of
+ * candidates the caller needs, paginated providers may stop fetching once they have it.
+ * trackDownload is called once per image registered in Laravel, for providers that
+ * want to know which photos are used.
+ */
+export interface ImageSourceProvider {
+  readonly name: string;
+  fetchImagesForCategory(search: ImageSearch, wanted: number): Promise<SourceImage[]>;
+  trackDownload?(image: SourceImage): Promise<void>;
+}
+
+/**
+ * Provider order per category, loaded from IMAGE_SOURCES_CONFIG_PATH:
+ *   { "default": ["unsplash"], "categories": { "hoodies": ["local", "unsplash"] } }
+ */
+export type ImageSourcesConfig = {
+  default: string[];
+  categories: Record<string, string[]>;
+};
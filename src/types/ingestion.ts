@@ -0,0 +1,77 @@
+import { ProductStage } from './journal';
+import { ErrorClass } from './errors';
+import { RateLimitBudget } from '../utils/rateLimiter';
+import { CircuitState } from '../utils/circuitBreaker';
+import { Product } from './product';
+
+/**
+ * Which products a worker run processes.
+ * - selectors, all of them apply when several are set:
+ *     productIds / productRanges: product IDs, ranges are inclusive ([10, 50])
+ *     categories: category slugs
+ *     statuses: product statuses (e.g. active)
+ *     fewerThanImages: products with fewer images registered in Laravel
+ * - limit / shuffleSeed: shuffle the selection (reproducibly with the same seed),
+ *   then keep the first `limit` products
+ * - useFailed: failed products of the latest run journal (or of failedRunId)
+ * - resumeRunId: continue an interrupted run, other filters are ignored
+ * - dryRun: plan the run without uploading or registering anything, planOut saves the plan
+ * - applyPlan: run a saved plan, other filters are ignored
+ * - products: run these products instead of the catalog's, e.g. those of queued
+ *   product-created events (see ProductEventConsumer), other filters are ignored
+ */
+export type WorkerOptions = {
+  productIds?: number[];
+  productRanges?: [number, number][];
+  categories?: string[];
+  statuses?: string[];
+  fewerThanImages?: number;
+  limit?: number;
+  shuffleSeed?: string;
+  useFailed?: boolean;
+  failedRunId?: string;
+  resumeRunId?: string;
+  dryRun?: boolean;
+  planOut?: string;
+  applyPlan?: string;
+  products?: Product[];
+};
+
+// interrupted: found in the journal only, not finished and not running in this process
+export type RunState = 'running' | 'completed' | 'cancelled' | 'failed' | 'interrupted';
+
+export type ProductState =
+  | 'pending'
+  | 'running'
+  | 'registered'
+  | 'skipped'
+  | 'failed'
+  // Failed fast without calling a dependency whose circuit breaker was open
+  | 'dependency-open'
+  | 'cancelled';
+
+export type ProductStatus = {
+  productId: number;
+  state: ProductState;
+  // Last journal stage reached, also after a failure
+  stage?: ProductStage;
+  error?: string;
+  errorClass?: ErrorClass;
+  // Set once the product starts, and when it settles
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+};
+
+export type IngestionStatus = {
+  runId: string;
+  state: RunState;
+  startedAt: string;
+  finishedAt?: string;
+  total: number;
+  counts: Record<ProductState, number>;
+  products: ProductStatus[];
+  unsplashBudget?: RateLimitBudget;
+  // Circuit breaker state of each dependency called so far
+  dependencies?: Record<string, CircuitState>;
+};
@@ -0,0 +1,126 @@
+import { image } from './image';
+import { ImageRejectionReason } from './imageProcessing';
+import { ErrorClass } from './errors';
+import { SourceImage } from './imageSource';
+
+/**
+ * Stages a product goes through, in pipeline order.
+ * - fetched:    candidate source images were picked for the product
+ * - downloaded: one source URL was downloaded (recorded per image)
+ * - uploaded:   one image was uploaded to Cloudinary (recorded per image)
+ * - registered: the uploaded images were registered in Laravel
+ */
+export type ProductStage = 'fetched' | 'downloaded' | 'uploaded' | 'registered';
+
+/**
+ * What started a run: the CLI or control API (batch), or the event consumer, which
+ * starts one small run per batch of product events
+ */
+export type RunOrigin = 'batch' | 'consumer';
+
+export type RunStartedEntry = {
+  event: 'run-started';
+  at: string;
+  runId: string;
+  origin: RunOrigin;
+  productIds: number[];
+};
+
+export type ProductStageEntry = {
+  event: 'stage';
+  at: string;
+  productId: number;
+  stage: ProductStage;
+  candidates?: SourceImage[];
+  needed?: number;
+  firstIndex?: number;
+  assignPrimary?: boolean;
+  index?: number;
+  url?: string;
+  image?: image;
+  // Downloaded size and sha256
+  bytes?: number;
+  checksum?: string;
+};
+
+export type ProductFailedEntry = {
+  event: 'failed';
+  at: string;
+  productId: number;
+  error: string;
+  errorClass: ErrorClass;
+};
+
+export type ImageRejectedEntry = {
+  event: 'rejected';
+  at: string;
+  productId: number;
+  index: number;
+  url: string;
+  reason: ImageRejectionReason;
+  message: string;
+};
+
+/**
+ * The product needed no images: it already has IMAGES_PER_PRODUCT in Laravel
+ */
+export type ProductSkippedEntry = {
+  event: 'skipped';
+  at: string;
+  productId: number;
+};
+
+/**
+ * Uploaded images deleted again because their registration failed for good
+ */
+export type ImagesRolledBackEntry = {
+  event: 'rolled-back';
+  at: string;
+  productId: number;
+  publicIds: string[];
+};
+
+export type JournalEntry =
+  | RunStartedEntry
+  | ProductStageEntry
+  | ProductFailedEntry
+  | ProductSkippedEntry
+  | ImageRejectedEntry
+  | ImagesRolledBackEntry;
+
+/**
+ * State of one product, folded from its journal entries.
+ * A failure does not reset progress: `candidates` and `uploaded` survive it, so a resumed
+ * run only redoes the work that did not complete.
+ * - candidates: source images, more than `needed` so rejected images can be replaced
+ * - firstIndex: index of the first new image, after the images the product already had
+ * - assignPrimary: whether one of the new images becomes the primary image
+ * - uploaded: images uploaded so far, keyed by index
+ * - sources:  candidate URL behind each uploaded index
+ * - rejected: candidate URLs rejected by ImageProcessor
+ * - skipped:  settled without images, the product needed none
+ */
+export type ProductProgress = {
+  productId: number;
+  stage?: ProductStage;
+  candidates?: SourceImage[];
+  needed?: number;
+  firstIndex: number;
+  assignPrimary: boolean;
+  uploaded: Record<number, image>;
+  sources: Record<number, string>;
+  rejected: string[];
+  registered: boolean;
+  skipped: boolean;
+  error?: string;
+  errorClass?: ErrorClass;
+};
+
+/**
+ * One image uploaded by a run, and whether that run went on to register it
+ */
+export type JournalUpload = {
+  runId: string;
+  image: image;
+  registered: boolean;
+};
@@ -0,0 +1,37 @@
+import { ImagePayload } from './image';
+import { ImageSearch, SourceImage } from './imageSource';
+
+/**
+ * What an ingestion run would do for one product, computed by a dry run.
+ * - search:           queries and filters sent to the image sources
+ * - registeredImages: images the product already has in Laravel
+ * - needed:           images the run would upload (0: the product is skipped)
+ * - firstIndex:       index (and position) of the first new image, after the registered ones
+ * - assignPrimary:    whether the best new image would become the primary image
+ * - candidates:       source images in order, the spares replace rejected downloads
+ * - publicIds:        public_id each uploaded image would get
+ * - payload:          body POSTed to Laravel, fields only known after upload are missing
+ * - error:            why the product could not be planned, it is left out of --apply
+ */
+export type ProductPlan = {
+  productId: number;
+  categorySlug: string;
+  search: ImageSearch;
+  registeredImages: number;
+  needed: number;
+  firstIndex: number;
+  assignPrimary: boolean;
+  candidates: SourceImage[];
+  publicIds: string[];
+  payload?: {
+    endpoint: string;
+    imageData: Partial<ImagePayload>[];
+  };
+  error?: string;
+};
+
+export type IngestionPlan = {
+  createdAt: string;
+  storageBackend: string;
+  products: ProductPlan[];
+};
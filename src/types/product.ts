@@ -0,0 +1,46 @@
+/**
+ * A catalog product, as validated by parseProduct (utils/productSchema.ts).
+ * `categories` holds category IDs, the first one decides the image category.
+ */
+export type Product = {
+  id: number;
+  name: string;
+  slug: string;
+  description?: string;
+  status: string;
+  price?: number;
+  weight?: number;
+  categories: number[];
+};
+
+export type Category = {
+  id: number;
+  slug: string;
+  name: string;
+};
+
+/**
+ * One product record as read by a source, before validation.
+ * `location` points at the record for error reports, e.g. "products.csv line 12".
+ * `error` is set when the record could not even be read (e.g. invalid JSON line).
+ */
+export type RawProductRecord = {
+  location: string;
+  value: unknown;
+  error?: string;
+};
+
+/**
+ * Where the product catalog comes from: a JSON/JSONL file, a CSV file or the
+ * Laravel API. Sources only read records, ProductCatalog validates them.
+ */
+export interface ProductSource {
+  readonly name: string;
+  load(): Promise<RawProductRecord[]>;
+}
+
+export type ProductValidationIssue = {
+  location: string;
+  productId?: unknown;
+  errors: string[];
+};
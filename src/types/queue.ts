@@ -0,0 +1,46 @@
+import { ErrorClass } from './errors';
+import { Product } from './product';
+
+/**
+ * A product-created event, as accepted by the webhook (POST /webhooks/products).
+ * - id:         event ID sent by Laravel (`event_id`), or generated on receipt
+ * - product:    the created product, validated like a catalog record
+ * - attempts:   failed processing attempts so far
+ * - lastError:  error of the last failed attempt
+ * - deadLetteredAt: set once the event is moved to the dead-letter list
+ */
+export type ProductEvent = {
+  id: string;
+  product: Product;
+  receivedAt: string;
+  attempts: number;
+  lastError?: { message: string; errorClass?: ErrorClass };
+  deadLetteredAt?: string;
+};
+
+/**
+ * Queue of product events between the webhook and the consumer (ProductEventConsumer).
+ *
+ * Delivery is at-least-once: a reserved event stays in the queue until it is acked,
+ * retried or dead-lettered, and the events a stopped consumer left reserved are
+ * delivered again (recover). Events are deduplicated by product ID: a product already
+ * queued, reserved or waiting for a retry is not queued a second time.
+ */
+export interface ProductEventQueue {
+  readonly name: string;
+  // false when the product is already in the queue
+  enqueue(event: ProductEvent): Promise<boolean>;
+  // Next event, waiting at most timeoutMs for one (0: do not wait)
+  reserve(timeoutMs: number): Promise<ProductEvent | undefined>;
+  ack(event: ProductEvent): Promise<void>;
+  // Deliver the event (with its updated attempts and last error) again after delayMs
+  retry(event: ProductEvent, delayMs: number): Promise<void>;
+  deadLetter(event: ProductEvent): Promise<void>;
+  // Queue the reserved events again, returns how many
+  recover(): Promise<number>;
+  deadLetters(): Promise<ProductEvent[]>;
+  // Queue the dead-lettered events again with a fresh attempt count, returns how many
+  requeueDeadLetters(): Promise<number>;
+  ping(): Promise<void>;
+  close(): Promise<void>;
+}
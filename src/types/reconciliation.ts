@@ -0,0 +1,47 @@
+import { image } from './image';
+import { StoredAsset } from './storage';
+
+/**
+ * Difference between storage and Laravel for one image (by public_id).
+ * - orphan:     stored, but not registered in Laravel (e.g. the registration failed)
+ * - missing:    registered in Laravel, but gone from storage
+ * - mismatched: in both, but Laravel registered another version (URL, size or format),
+ *               e.g. a later upload overwrote the stored image
+ */
+export type DriftKind = 'orphan' | 'missing' | 'mismatched';
+
+/**
+ * What the repair did about a drift.
+ * - registered:    orphan uploaded by a run and still needed, registered in Laravel
+ * - deleted:       orphan nobody needs, deleted from storage
+ * - unregistered:  missing image removed from Laravel, the next ingest replaces it
+ * - re-registered: the stored version registered again in Laravel
+ */
+export type DriftRepair = 'registered' | 'deleted' | 'unregistered' | 're-registered';
+
+export type ImageDrift = {
+  kind: DriftKind;
+  publicId: string;
+  stored?: StoredAsset;
+  registered?: image;
+  // Run that uploaded the stored image, from the run journals
+  runId?: string;
+  repair?: DriftRepair;
+  repairError?: string;
+};
+
+/**
+ * Reconciliation of one product.
+ * - in-sync:  storage and Laravel agree
+ * - drift:    differences found (not repaired, or the repair failed)
+ * - repaired: differences found and all of them repaired
+ * - error:    the product could not be compared, see `error`
+ */
+export type ProductReconciliation = {
+  productId: number;
+  status: 'in-sync' | 'drift' | 'repaired' | 'error';
+  stored: number;
+  registered: number;
+  drift: ImageDrift[];
+  error?: string;
+};
@@ -0,0 +1,51 @@
+import { ProductStage } from './journal';
+import { ErrorClass } from './errors';
+import { ProductState, RunState } from './ingestion';
+import { RateLimitBudget } from '../utils/rateLimiter';
+import { CircuitState } from '../utils/circuitBreaker';
+
+/**
+ * Outcome of one product in a run report.
+ * - outcome:    final state (registered, skipped, failed, dependency-open, cancelled)
+ * - stage:      last journal stage reached, also after a failure
+ * - durationMs: time spent in the pipeline, absent for products never started
+ * - images:     images uploaded for the product by this run or a resumed one
+ * - bytes:      stored size of these images
+ */
+export type ProductReport = {
+  productId: number;
+  outcome: ProductState;
+  stage?: ProductStage;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  images: number;
+  bytes: number;
+  errorClass?: ErrorClass;
+  error?: string;
+};
+
+/**
+ * Machine-readable summary of an ingestion run, written to <RUN_REPORT_DIR>/<runId>.json
+ * when the run ends (see runReport.ts). Consumed by CI and the ingestion dashboard.
+ */
+export type RunReport = {
+  runId: string;
+  state: RunState;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  storageBackend: string;
+  counts: Record<ProductState, number>;
+  failuresByClass: Partial<Record<ErrorClass, number>>;
+  totals: {
+    products: number;
+    succeeded: number;
+    failed: number;
+    images: number;
+    bytes: number;
+  };
+  unsplashBudget?: RateLimitBudget;
+  dependencies?: Record<string, CircuitState>;
+  products: ProductReport[];
+};
@@ -0,0 +1,42 @@
+import { Readable } from 'stream';
+import { image, ImageDerivative } from './image';
+import { SourceImage } from './imageSource';
+
+/**
+ * An image found in storage. Width and height are only known when the backend
+ * reports them without downloading the image (Cloudinary).
+ */
+export type StoredAsset = Pick<image, 'public_id' | 'secure_url' | 'bytes' | 'format'> &
+  Partial<Pick<image, 'width' | 'height'>>;
+
+/**
+ * Where uploaded product images end up (Cloudinary, local disk, S3-compatible bucket).
+ * Every backend stores an image under the same logical public_id:
+ *      <CLOUDINARY_UPLOAD_FOLDER>/<productId>/image_<index>
+ * and reports it back in the `image` shape registered in Laravel.
+ * Backends that can keep metadata with the file store the `source` attribution with it,
+ * the others ignore it.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  upload(buffer: Buffer, productId: string, index: number, source?: SourceImage): Promise<image>;
+  // Upload a download as it arrives (IMAGE_STREAMING). The image is not normalized yet,
+  // the backend does it. Backends without it get buffered uploads.
+  uploadStream?(
+    stream: Readable,
+    productId: string,
+    index: number,
+    source?: SourceImage,
+  ): Promise<image>;
+  // Generate the derivatives of a stored image again, e.g. when one of them went missing.
+  // Only backends that generate derivatives implement it.
+  derivatives?(publicId: string): Promise<ImageDerivative[]>;
+  // Every image stored for the product, e.g. to reconcile it with Laravel
+  list(productId: string): Promise<StoredAsset[]>;
+  // Deleting an image that does not exist is not an error
+  remove(publicId: string): Promise<void>;
+  // Delete every image of the product and its folder, returns how many images were deleted
+  removeFolder(productId: string): Promise<number>;
+  // Resolves when the backend is reachable with the configured credentials
+  ping(): Promise<void>;
+}
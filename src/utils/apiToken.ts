@@ -0,0 +1,22 @@
+import { timingSafeEqual } from 'crypto';
+import { preHandlerAsyncHookHandler } from 'fastify';
+
+/**
+ * Shared token of the HTTP control API (see server.ts):
+ *   X-Internal-Token: <CONTROL_API_TOKEN>
+ *
+ * The ingestion and product routes need it, requests without it get 401.
+ */
+export const API_TOKEN_HEADER = 'X-Internal-Token';
+
+export function requireApiToken(token: string): preHandlerAsyncHookHandler {
+  const expected = Buffer.from(token);
+
+  return async function (request, reply) {
+    const value = request.headers[API_TOKEN_HEADER.toLowerCase()];
+    const given = Buffer.from((Array.isArray(value) ? value[0] : value) ?? '');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return reply.code(401).send({ error: `Missing or invalid ${API_TOKEN_HEADER} header` });
+    }
+  };
+}
@@ -0,0 +1,138 @@
+import { env } from '../config/env';
+import { logger } from './logger';
+import { classifyError, IngestionError } from './errors';
+import { dependencyDuration } from './metrics';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+type CircuitBreakerOptions = {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+};
+
+/**
+ * Thrown without calling the dependency while its circuit is open
+ */
+export class DependencyOpenError extends IngestionError {
+  constructor(readonly dependency: string) {
+    super('dependency-open', `Dependency ${dependency} is unavailable (circuit open)`);
+    this.name = 'DependencyOpenError';
+  }
+}
+
+/**
+ * Circuit breaker for one external dependency (Unsplash, Cloudinary, Laravel...).
+ *
+ * - closed:    calls go through. After `failureThreshold` consecutive failed operations
+ *              the circuit opens.
+ * - open:      calls fail at once with DependencyOpenError, for `resetTimeoutMs`.
+ * - half-open: one trial call goes through. Success closes the circuit, failure opens it again.
+ *
+ * An operation counts as failed when it ends with a transient, rate-limited or auth error,
+ * i.e. after its retries. Validation and not-found errors mean the dependency answered,
+ * they count as successes.
+ *
+ * The duration of each call that goes through is observed in the
+ * ingestion_dependency_duration_seconds histogram (see metrics.ts).
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions,
+  ) {}
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+
+    try {
+      const result = await dependencyDuration.time(operation, (outcome) => ({
+        dependency: this.name,
+        outcome,
+      }));
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      const { errorClass } = classifyError(error);
+      if (errorClass === 'validation' || errorClass === 'not-found') {
+        this.onSuccess();
+      } else if (errorClass !== 'dependency-open') {
+        this.onFailure();
+      }
+      throw error;
+    }
+  }
+
+  currentState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  private beforeCall(): void {
+    const state = this.currentState();
+    if (state === 'open') {
+      throw new DependencyOpenError(this.name);
+    }
+    if (state === 'half-open') {
+      // Only one trial call at a time, the others keep failing fast until it settles
+      if (this.trialInFlight) throw new DependencyOpenError(this.name);
+      this.state = 'half-open';
+      this.trialInFlight = true;
+      logger.info({ dependency: this.name }, 'Circuit half-open, sending a trial call');
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info({ dependency: this.name }, 'Circuit closed, dependency recovered');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      logger.error(
+        {
+          dependency: this.name,
+          consecutiveFailures: this.consecutiveFailures,
+          resetTimeoutMs: this.options.resetTimeoutMs,
+        },
+        'Circuit opened, failing calls to the dependency fast',
+      );
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/*
+ * The circuit breaker of a dependency, shared by every caller in the process
+ */
+export function circuitBreakerFor(dependency: string): CircuitBreaker {
+  let breaker = breakers.get(dependency);
+  if (!breaker) {
+    breaker = new CircuitBreaker(dependency, {
+      failureThreshold: env.circuitBreakerThreshold,
+      resetTimeoutMs: env.circuitBreakerResetMs,
+    });
+    breakers.set(dependency, breaker);
+  }
+  return breaker;
+}
+
+export function circuitStates(): Record<string, CircuitState> {
+  return Object.fromEntries([...breakers].map(([name, breaker]) => [name, breaker.currentState()]));
+}
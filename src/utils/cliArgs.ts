@@ -0,0 +1,145 @@
+import { WorkerOptions } from '../types/ingestion';
+
+// Flags taking a value, as --name=value or --name value
+const VALUE_FLAGS = new Set([
+  'products',
+  'categories',
+  'category',
+  'status',
+  'fewer-than',
+  'limit',
+  'shuffle-seed',
+  'resume',
+  'run',
+  'plan-out',
+  'apply',
+  'keep',
+]);
+
+const BOOLEAN_FLAGS = new Set([
+  'useFailed',
+  'dry-run',
+  'runs',
+  'repair',
+  'assets',
+  'help',
+  'serve',
+  'report-duplicates',
+  'requeue',
+]);
+
+export type ParsedArgs = {
+  positionals: string[];
+  flags: Record<string, string | true>;
+};
+
+/**
+ * Invalid command line, reported with the help text instead of a stack trace
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h') {
+      flags.help = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, ...rest] = arg.slice(2).split('=');
+    if (VALUE_FLAGS.has(name)) {
+      const value = rest.length > 0 ? rest.join('=') : argv[++i];
+      if (value === undefined || value === '') {
+        throw new CliUsageError(`--${name} needs a value`);
+      }
+      flags[name] = value;
+    } else if (BOOLEAN_FLAGS.has(name) && rest.length === 0) {
+      flags[name] = true;
+    } else {
+      throw new CliUsageError(`Unknown option --${name}`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function positiveInteger(flag: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new CliUsageError(`--${flag} expects a positive integer, got "${value}"`);
+  }
+  return number;
+}
+
+function list(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/*
+ * --products=12,45,90 or --products=10-50 (inclusive range), both can be mixed
+ */
+function parseProductSelector(value: string): Pick<WorkerOptions, 'productIds' | 'productRanges'> {
+  const productIds: number[] = [];
+  const productRanges: [number, number][] = [];
+
+  for (const item of list(value)) {
+    const range = item.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])];
+      if (from > to) throw new CliUsageError(`Invalid product range ${item}`);
+      productRanges.push([from, to]);
+    } else {
+      productIds.push(positiveInteger('products', item));
+    }
+  }
+
+  return {
+    productIds: productIds.length > 0 ? productIds : undefined,
+    productRanges: productRanges.length > 0 ? productRanges : undefined,
+  };
+}
+
+/*
+ * Worker options from CLI flags:
+ *   --products=12,45,90-120  --category=hoodies,denim  --status=active  --fewer-than=4
+ *   --limit=20  --shuffle-seed=abc  --useFailed  --resume=<runId>
+ *   --dry-run  --plan-out=plan.json  --apply=plan.json
+ */
+export function workerOptionsFrom({ flags }: ParsedArgs): WorkerOptions {
+  const value = (name: string) => (typeof flags[name] === 'string' ? flags[name] : undefined);
+
+  const products = value('products');
+  const categories = value('category') ?? value('categories');
+  const statuses = value('status');
+  const fewerThan = value('fewer-than');
+  const limit = value('limit');
+
+  return {
+    ...(products ? parseProductSelector(products) : {}),
+    categories: categories ? list(categories) : undefined,
+    statuses: statuses ? list(statuses) : undefined,
+    fewerThanImages: fewerThan ? positiveInteger('fewer-than', fewerThan) : undefined,
+    limit: limit ? positiveInteger('limit', limit) : undefined,
+    shuffleSeed: value('shuffle-seed'),
+    useFailed: flags.useFailed === true,
+    resumeRunId: value('resume'),
+    dryRun: flags['dry-run'] === true,
+    planOut: value('plan-out'),
+    applyPlan: value('apply'),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Map over `items` with at most `limit` tasks in flight at any time.
+ *
+ * - Results are returned in the same order as `items`, regardless of which
+ *   task finishes first (callers rely on this for `image_<index>` ids).
+ * - Behaves like Promise.all on failure: the first rejection is thrown and no
+ *   new tasks are started, tasks already in flight are left to settle.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
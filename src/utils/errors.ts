@@ -0,0 +1,124 @@
+import { ErrorClass } from '../types/errors';
+import { ImageRejectionReason } from '../types/imageProcessing';
+
+type IngestionErrorOptions = {
+  status?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+};
+
+/**
+ * Base class of the typed pipeline errors, see ErrorClass.
+ * Errors from axios, the Cloudinary SDK or the AWS SDK are turned into one with classifyError().
+ */
+export class IngestionError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(
+    readonly errorClass: ErrorClass,
+    message: string,
+    options: IngestionErrorOptions = {},
+  ) {
+    super(message);
+    this.name = 'IngestionError';
+    this.cause = options.cause;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.errorClass === 'transient' || this.errorClass === 'rate-limited';
+  }
+}
+
+export class TransientError extends IngestionError {
+  constructor(message: string, options?: IngestionErrorOptions) {
+    super('transient', message, options);
+    this.name = 'TransientError';
+  }
+}
+
+export class RateLimitedError extends IngestionError {
+  constructor(message: string, options?: IngestionErrorOptions) {
+    super('rate-limited', message, options);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class AuthError extends IngestionError {
+  constructor(message: string, options?: IngestionErrorOptions) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class ValidationError extends IngestionError {
+  constructor(message: string, options?: IngestionErrorOptions) {
+    super('validation', message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends IngestionError {
+  constructor(message: string, options?: IngestionErrorOptions) {
+    super('not-found', message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+// A validation error: retrying the same image cannot help, the next candidate is tried instead
+export class ImageRejectedError extends IngestionError {
+  constructor(
+    readonly reason: ImageRejectionReason,
+    message: string,
+  ) {
+    super('validation', message);
+    this.name = 'ImageRejectedError';
+  }
+}
+
+export function errorClassForStatus(status: number): ErrorClass {
+  if (status === 429) return 'rate-limited';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404 || status === 410) return 'not-found';
+  if (status === 408 || status >= 500) return 'transient';
+  return 'validation';
+}
+
+/*
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/*
+ * HTTP status of an error from axios, the Cloudinary SDK or the AWS SDK
+ */
+function statusOf(error: any): number | undefined {
+  return error?.response?.status ?? error?.http_code ?? error?.$metadata?.httpStatusCode;
+}
+
+/*
+ * Turn any error into an IngestionError. Errors without an HTTP status (network errors,
+ * timeouts, unknown failures) are treated as transient.
+ */
+export function classifyError(error: unknown): IngestionError {
+  if (error instanceof IngestionError) return error;
+
+  const err = error as any;
+  const message = err?.message ?? String(error);
+  const status = statusOf(err);
+  const retryAfterMs = parseRetryAfter(err?.response?.headers?.['retry-after']);
+
+  const errorClass = status !== undefined ? errorClassForStatus(status) : 'transient';
+  return new IngestionError(errorClass, message, { status, retryAfterMs, cause: error });
+}
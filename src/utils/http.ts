@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+
+export type DependencyHealth = {
+  status: 'ok' | 'down';
+  latencyMs: number;
+  httpStatus?: number;
+  error?: string;
+};
+
+/*
+ * Check that a dependency answers at all. Any HTTP response below 500 counts as
+ * reachable: a 401 or 404 still proves the host is up and talking HTTP.
+ */
+export async function checkReachable(
+  url: string,
+  headers: Record<string, string> = {},
+  timeout = 5000,
+): Promise<DependencyHealth> {
+  const startedAt = Date.now();
+
+  try {
+    const response = await axios.get(url, {
+      headers,
+      timeout,
+      validateStatus: () => true,
+    });
+
+    return {
+      status: response.status < 500 ? 'ok' : 'down',
+      latencyMs: Date.now() - startedAt,
+      httpStatus: response.status,
+    };
+  } catch (error: any) {
+    return { status: 'down', latencyMs: Date.now() - startedAt, error: error?.message };
+  }
+}
+
+/*
+ * Check that a stored file is there: HEAD for http(s), file access for file://.
+ * Returns why it is not, undefined when it is.
+ */
+export async function checkExists(url: string, timeout = 8000): Promise<string | undefined> {
+  try {
+    if (url.startsWith('file:')) {
+      await fs.access(fileURLToPath(url));
+      return undefined;
+    }
+
+    const response = await axios.head(url, { timeout, validateStatus: () => true });
+    return response.status >= 400 ? `HTTP ${response.status}` : undefined;
+  } catch (error: any) {
+    return error?.code ?? error?.message ?? String(error);
+  }
+}
+
+/*
+ * Run a ping function and report it in the same shape as checkReachable
+ */
+export async function checkPing(ping: () => Promise<void>): Promise<DependencyHealth> {
+  const startedAt = Date.now();
+
+  try {
+    await ping();
+    return { status: 'ok', latencyMs: Date.now() - startedAt };
+  } catch (error: any) {
+    return { status: 'down', latencyMs: Date.now() - startedAt, error: error?.message };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Detect image formats from magic bytes instead of trusting URLs or Content-Type headers.
+ * Format names follow Cloudinary's naming (jpg rather than jpeg).
+ */
+
+type Signature = {
+  format: string;
+  offset: number;
+  bytes: number[];
+};
+
+const SIGNATURES: Signature[] = [
+  { format: 'jpg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { format: 'png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { format: 'gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8(7|9)a
+  { format: 'tiff', offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { format: 'tiff', offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { format: 'bmp', offset: 0, bytes: [0x42, 0x4d] },
+];
+
+function matchesAt(buffer: Buffer, offset: number, bytes: number[]): boolean {
+  if (buffer.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(text: string): number[] {
+  return [...text].map((char) => char.charCodeAt(0));
+}
+
+export function sniffImageFormat(buffer: Buffer): string | undefined {
+  // RIFF....WEBP
+  if (matchesAt(buffer, 0, ascii('RIFF')) && matchesAt(buffer, 8, ascii('WEBP'))) {
+    return 'webp';
+  }
+  // ISO BMFF: ....ftypavif / ftypavis
+  if (matchesAt(buffer, 4, ascii('ftypavi'))) {
+    return 'avif';
+  }
+
+  return SIGNATURES.find(({ offset, bytes }) => matchesAt(buffer, offset, bytes))?.format;
+}
+
+/*
+ * Check the end-of-image marker of formats that have one.
+ * Catches downloads cut short, which decoders often render as a half-grey image.
+ */
+export function isTruncated(buffer: Buffer, format: string): boolean {
+  switch (format) {
+    case 'jpg':
+      // EOI marker, some encoders pad a few bytes after it
+      return buffer.subarray(-32).indexOf(Buffer.from([0xff, 0xd9])) === -1;
+    case 'png':
+      // Last chunk is IEND: length (4) + "IEND" (4) + CRC (4)
+      return !matchesAt(buffer, buffer.length - 8, ascii('IEND'));
+    case 'gif':
+      return buffer[buffer.length - 1] !== 0x3b;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,24 @@
+import sharp from 'sharp';
+
+export type ImageMetadata = {
+  width: number;
+  height: number;
+  format: string;
+};
+
+/*
+ * Read dimensions and format from the image header, for backends that do not report them.
+ * Formats use Cloudinary's naming (jpg rather than jpeg) so every backend registers the same values.
+ */
+export async function readImageMetadata(buffer: Buffer): Promise<ImageMetadata> {
+  const { width, height, format } = await sharp(buffer).metadata();
+  if (!width || !height || !format) {
+    throw new Error('Unable to read image dimensions and format');
+  }
+
+  return { width, height, format: format === 'jpeg' ? 'jpg' : format };
+}
+
+export function contentTypeFor(format: string): string {
+  return format === 'jpg' ? 'image/jpeg' : `image/${format}`;
+}
@@ -0,0 +1,91 @@
+import sharp from 'sharp';
+import { env } from '../config/env';
+import { image } from '../types/image';
+
+// Greyscale sample the background is estimated on, and the width of its border in pixels
+const SAMPLE_SIZE = 64;
+const BORDER = 4;
+// Mean brightness jump between neighbouring edge pixels from which a background is busy
+const MAX_MEAN_JUMP = 24;
+
+// Shorter side from which an image counts as full resolution
+const FULL_RESOLUTION = 1200;
+
+const WEIGHTS = { orientation: 0.2, resolution: 0.25, aspectRatio: 0.25, background: 0.3 };
+
+/*
+ * How plain the background is, from 0 (busy) to 1 (flat): how much the brightness jumps
+ * between neighbouring pixels along the edges of the image, where a product shot usually
+ * shows only its backdrop. Smooth studio gradients still count as plain.
+ */
+export async function backgroundPlainness(buffer: Buffer): Promise<number> {
+  const pixels = await sharp(buffer)
+    .greyscale()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  const at = (row: number, col: number) => pixels[row * SAMPLE_SIZE + col];
+
+  let jumps = 0;
+  let pairs = 0;
+  for (let row = 0; row < SAMPLE_SIZE; row++) {
+    for (let col = 0; col < SAMPLE_SIZE; col++) {
+      const inner =
+        row >= BORDER && row < SAMPLE_SIZE - BORDER && col >= BORDER && col < SAMPLE_SIZE - BORDER;
+      if (inner) continue;
+
+      if (col + 1 < SAMPLE_SIZE) {
+        jumps += Math.abs(at(row, col) - at(row, col + 1));
+        pairs++;
+      }
+      if (row + 1 < SAMPLE_SIZE) {
+        jumps += Math.abs(at(row, col) - at(row + 1, col));
+        pairs++;
+      }
+    }
+  }
+
+  return 1 - Math.min(1, jumps / pairs / MAX_MEAN_JUMP);
+}
+
+/*
+ * Score of an image as a product photo, from 0 to 1: portrait orientation, resolution,
+ * aspect ratio close to the product card (IMAGE_CARD_ASPECT_RATIO) and background
+ * plainness. Streamed uploads are scored on the stored image, read back after the upload.
+ */
+export function scoreImage(width: number, height: number, background: number): number {
+  const aspectRatio = width / height;
+
+  const scores = {
+    orientation: aspectRatio < 0.9 ? 1 : aspectRatio <= 1.1 ? 0.7 : 0.3,
+    resolution: Math.min(1, Math.min(width, height) / FULL_RESOLUTION),
+    // 1 for the card's ratio, 0 from twice (or half) of it
+    aspectRatio:
+      1 - Math.min(1, Math.abs(Math.log(aspectRatio / env.imageCardAspectRatio)) / Math.LN2),
+    background,
+  };
+
+  let total = 0;
+  let weights = 0;
+  for (const [criterion, weight] of Object.entries(WEIGHTS)) {
+    const score = scores[criterion as keyof typeof WEIGHTS];
+    total += score * weight;
+    weights += weight;
+  }
+  return Math.round((total / weights) * 1000) / 1000;
+}
+
+/*
+ * Order the images of a registration best first and number them from `firstPosition`.
+ * The best one becomes the primary image when the product has none yet. Images without
+ * a score come last, in upload order.
+ */
+export function rankImages(images: image[], firstPosition: number, assignPrimary: boolean) {
+  return [...images]
+    .sort((a, b) => (b.score ?? -1) - (a.score ?? -1))
+    .map((ranked, rank) => ({
+      ...ranked,
+      position: firstPosition + rank,
+      isPrimary: assignPrimary && rank === 0,
+    }));
+}
@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { ImageRejectedError, TransientError } from './errors';
+
+// Enough bytes for every signature known to sniffImageFormat
+const HEAD_BYTES = 32;
+
+export type StreamDigest = {
+  bytes: number;
+  // sha256 of the downloaded bytes, hex
+  checksum: string;
+};
+
+type MeteredStreamOptions = {
+  maxBytes: number;
+  // Content-Length announced by the server: a body that ends early is a broken download
+  expectedBytes?: number;
+  // Called once with the first bytes, may throw to reject the image before the rest arrives
+  inspectHead?: (head: Buffer) => void;
+};
+
+/**
+ * Pass-through stream between a download and whatever consumes it (a buffer or an upload).
+ * Counts and hashes the bytes on the fly, and fails as soon as maxBytes is exceeded, so an
+ * oversized image is never downloaded in full.
+ *
+ * A download that ends before its Content-Length fails with a TransientError: the whole
+ * download is retried from the start with a new stream, nothing of the broken one is kept.
+ */
+export class MeteredStream extends Transform {
+  private bytes = 0;
+  private checksum?: string;
+  private readonly hash = createHash('sha256');
+  private head: Buffer[] = [];
+  private headBytes = 0;
+  private inspected = false;
+
+  constructor(private readonly options: MeteredStreamOptions) {
+    super();
+  }
+
+  /*
+   * Size and checksum of the whole download, once the stream has ended
+   */
+  digest(): StreamDigest {
+    if (this.checksum === undefined) {
+      throw new Error('Download digest requested before the stream ended');
+    }
+    return { bytes: this.bytes, checksum: this.checksum };
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.bytes > this.options.maxBytes) {
+      callback(
+        new ImageRejectedError(
+          'too-large',
+          `Image exceeds ${this.options.maxBytes} bytes, download aborted`,
+        ),
+      );
+      return;
+    }
+    this.hash.update(chunk);
+
+    if (this.inspected) {
+      callback(null, chunk);
+      return;
+    }
+
+    // Hold the first bytes back until the format can be sniffed
+    this.head.push(chunk);
+    this.headBytes += chunk.length;
+    if (this.headBytes >= HEAD_BYTES) {
+      this.releaseHead(callback);
+    } else {
+      callback();
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    const { expectedBytes } = this.options;
+    if (expectedBytes !== undefined && this.bytes !== expectedBytes) {
+      callback(new TransientError(`Download ended after ${this.bytes} of ${expectedBytes} bytes`));
+      return;
+    }
+
+    this.checksum = this.hash.digest('hex');
+    if (this.inspected) {
+      callback();
+    } else {
+      this.releaseHead(callback);
+    }
+  }
+
+  private releaseHead(callback: TransformCallback): void {
+    const head = Buffer.concat(this.head);
+    this.head = [];
+    this.inspected = true;
+
+    try {
+      this.options.inspectHead?.(head);
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+    callback(null, head);
+  }
+}
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IngestionPlan } from '../types/plan';
+import { ImageSearch, SourceImage } from '../types/imageSource';
+
+export async function writePlan(filePath: string, plan: IngestionPlan): Promise<void> {
+  await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(plan, null, 2), 'utf-8');
+}
+
+export async function readPlan(filePath: string): Promise<IngestionPlan> {
+  const plan = JSON.parse(await fs.readFile(filePath, 'utf-8')) as IngestionPlan;
+  if (!Array.isArray(plan?.products)) {
+    throw new Error(`${filePath} is not an ingestion plan (no products list)`);
+  }
+  return plan;
+}
+
+function describeCandidate(candidate?: SourceImage): string {
+  if (!candidate) return '(no candidate)';
+  if (!candidate.photographer) return candidate.url;
+  return `${candidate.url} (${candidate.photographer} on ${candidate.provider})`;
+}
+
+function describeSearch(search: ImageSearch): string {
+  const filters = [
+    search.orientation && `orientation ${search.orientation}`,
+    search.color && `color ${search.color}`,
+    search.negativeKeywords.length > 0 && `without ${search.negativeKeywords.join(', ')}`,
+  ].filter(Boolean);
+
+  const queries = search.queries.map((query) => `"${query}"`).join(' | ');
+  return filters.length > 0 ? `${queries} (${filters.join('; ')})` : queries;
+}
+
+/*
+ * Human-readable plan, one block per product
+ */
+export function printPlan(plan: IngestionPlan): void {
+  const planned = plan.products.filter((product) => product.needed > 0 && !product.error);
+  const images = planned.reduce((sum, product) => sum + product.needed, 0);
+
+  console.log(
+    `\n📝 Dry run: ${planned.length} of ${plan.products.length} products would get ` +
+      `${images} images (storage: ${plan.storageBackend}). Nothing was uploaded or registered.\n`,
+  );
+
+  for (const product of plan.products) {
+    console.log(
+      `Product ${product.productId} [${product.categorySlug}]: ` +
+        `${product.registeredImages} registered, ${product.needed} to fetch` +
+        (product.needed > 0 && product.firstIndex > 0 ? ` from image_${product.firstIndex}` : ''),
+    );
+    console.log(`   search ${describeSearch(product.search)}`);
+
+    if (product.error) {
+      console.log(`   ✖ ${product.error}`);
+    } else if (product.needed > 0) {
+      product.publicIds.forEach((publicId, i) => {
+        console.log(`   ${publicId}  <-  ${describeCandidate(product.candidates[i])}`);
+      });
+      const spares = product.candidates.length - product.publicIds.length;
+      if (spares > 0) console.log(`   + ${spares} spare candidates`);
+      console.log(
+        `   POST ${product.payload?.endpoint} ${JSON.stringify(product.payload?.imageData)}`,
+      );
+    }
+  }
+  console.log('');
+}
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Fields every log line written inside a scope carries, see the `mixin` of the logger.
+ * - runId:     the ingestion run
+ * - productId: the product whose pipeline (or reconciliation, purge...) is running
+ * - eventId:   the queued product event being settled (see ProductEventConsumer)
+ */
+export type LogContext = {
+  runId?: string;
+  productId?: number;
+  eventId?: string;
+};
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/*
+ * Run `fn` with `context` added to the current one. Everything `fn` awaits or starts
+ * (retries, service calls, timers) inherits it, concurrent scopes do not mix.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/*
+ * A copy: the logger merges the fields of each log line into the object it gets
+ */
+export function currentLogContext(): LogContext {
+  return { ...storage.getStore() };
+}
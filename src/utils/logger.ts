@@ -3,15 +3,21 @@
  * This logger will be used in the future to send the logs to a centralized logging service
  * This logger will include a pino instance
  * This logger supports different log levels: info, warn, error
+ * LOG_LEVEL overrides the level once the configuration is loaded (see config/env.ts),
+ * e.g. silent for the test suite
  * This logger will differentiate between dev and prod environments
+ * Every log line carries the run and product it belongs to, when logged inside
+ * withLogContext (see logContext.ts)
  */
 
 import { pino } from 'pino';
+import { currentLogContext } from './logContext';
 
 const isDev = process.env.NODE_ENV !== 'production';
 
 export const logger = pino({
     level: isDev ? 'debug' : 'info',
+    mixin: () => currentLogContext(),
     transport: isDev ? {
         target: 'pino-pretty',
         options: { colorize: true, translateTime: 'HH:MM:ss', ignore: 'pid,hostname' }
@@ -0,0 +1,255 @@
+/**
+ * In-process metrics, rendered in the Prometheus text exposition format by GET /metrics.
+ *
+ * - Counter:   only goes up (products processed, images uploaded, bytes, retries...)
+ * - Histogram: observations counted in cumulative buckets, with their sum (latencies)
+ *
+ * Metrics live in one registry per process and are never reset: Prometheus computes rates
+ * from the raw totals. A CLI run does not serve them, its run report (see runReport.ts)
+ * carries the per-run figures instead.
+ */
+
+type Labels = Record<string, string>;
+
+// Seconds, from a fast API call to a large upload retried a few times
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/*
+ * Series key of a label set, label names in their declared order
+ */
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+}
+
+function pickLabels(labelNames: string[], labels: Labels): Labels {
+  return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    protected readonly labelNames: string[],
+  ) {}
+
+  abstract readonly type: 'counter' | 'histogram';
+
+  protected abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+      .concat(this.samples())
+      .join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.series.get(key);
+    if (series) {
+      series.value += amount;
+    } else {
+      this.series.set(key, { labels: pickLabels(this.labelNames, labels), value: amount });
+    }
+  }
+
+  value(labels: Labels = {}): number {
+    return this.series.get(seriesKey(this.labelNames, labels))?.value ?? 0;
+  }
+
+  protected samples(): string[] {
+    // A counter without labels is reported from the start, at 0
+    if (this.series.size === 0 && this.labelNames.length === 0) {
+      return [`${this.name} 0`];
+    }
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+    );
+  }
+}
+
+type HistogramSeries = { labels: Labels; buckets: number[]; sum: number; count: number };
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    private readonly bounds: number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels: pickLabels(this.labelNames, labels),
+        buckets: this.bounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) series!.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /*
+   * Run `operation` and observe its duration in seconds, whether it succeeds or fails.
+   * `labels` may depend on the outcome.
+   */
+  async time<T>(
+    operation: () => Promise<T>,
+    labels: (outcome: 'success' | 'failure') => Labels,
+  ): Promise<T> {
+    const startedAt = process.hrtime.bigint();
+    const elapsed = () => Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+    try {
+      const result = await operation();
+      this.observe(labels('success'), elapsed());
+      return result;
+    } catch (error) {
+      this.observe(labels('failure'), elapsed());
+      throw error;
+    }
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, buckets, sum, count }) => [
+      ...this.bounds.map(
+        (bound, i) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /*
+   * Every metric in the Prometheus text format (version 0.0.4)
+   */
+  render(): string {
+    return [...this.metrics.values()].map((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// Metrics of the ingestion pipeline
+
+export const productsProcessed = metrics.counter(
+  'ingestion_products_processed_total',
+  'Products processed by ingestion runs, by outcome',
+  ['outcome'],
+);
+
+export const productsFailed = metrics.counter(
+  'ingestion_products_failed_total',
+  'Products whose ingestion failed, by error class',
+  ['error_class'],
+);
+
+export const imagesDownloaded = metrics.counter(
+  'ingestion_images_downloaded_total',
+  'Source images downloaded',
+);
+
+export const imagesRejected = metrics.counter(
+  'ingestion_images_rejected_total',
+  'Downloaded images rejected by the image rules or as duplicates, by reason',
+  ['reason'],
+);
+
+export const imagesUploaded = metrics.counter(
+  'ingestion_images_uploaded_total',
+  'Images uploaded to the storage backend',
+  ['backend'],
+);
+
+export const imagesRegistered = metrics.counter(
+  'ingestion_images_registered_total',
+  'Images registered in Laravel',
+);
+
+export const bytesDownloaded = metrics.counter(
+  'ingestion_downloaded_bytes_total',
+  'Bytes of source images downloaded',
+);
+
+export const bytesUploaded = metrics.counter(
+  'ingestion_uploaded_bytes_total',
+  'Bytes of images stored by the storage backend',
+  ['backend'],
+);
+
+export const dependencyDuration = metrics.histogram(
+  'ingestion_dependency_duration_seconds',
+  'Duration of calls to external dependencies, retries included',
+  ['dependency', 'outcome'],
+);
+
+export const retries = metrics.counter(
+  'ingestion_retries_total',
+  'Retried attempts, by operation',
+  ['operation'],
+);
+
+export const eventsReceived = metrics.counter(
+  'ingestion_events_received_total',
+  'Product events received by the webhook, by outcome (queued, duplicate, rejected)',
+  ['outcome'],
+);
+
+export const eventsSettled = metrics.counter(
+  'ingestion_events_settled_total',
+  'Product events settled by the consumer, by outcome (acked, retried, dead-lettered...)',
+  ['outcome'],
+);
@@ -0,0 +1,32 @@
+import sharp from 'sharp';
+
+/*
+ * Difference hash (dHash) of an image, as a 16-char hex string (64 bits).
+ * The image is shrunk to 9x8 greyscale and each bit says whether a pixel is brighter
+ * than its right neighbour. Resizes, re-encodes and small colour shifts keep the hash
+ * within a few bits, so near-duplicates are found by Hamming distance.
+ */
+export async function computeDHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer).greyscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
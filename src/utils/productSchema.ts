@@ -0,0 +1,84 @@
+import { Category, Product } from '../types/product';
+
+type ParseResult<T> = { value: T; errors: [] } | { value?: undefined; errors: string[] };
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/*
+ * Laravel may return categories as objects, files as plain IDs
+ */
+function categoryIdOf(value: unknown): unknown {
+  return typeof value === 'object' && value !== null ? (value as any).id : value;
+}
+
+export function parseCategory(raw: unknown): ParseResult<Category> {
+  const record = (raw ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isPositiveInteger(record.id)) errors.push('id must be a positive integer');
+  if (!isNonEmptyString(record.slug)) errors.push('slug must be a non-empty string');
+  if (!isNonEmptyString(record.name)) errors.push('name must be a non-empty string');
+
+  if (errors.length > 0) return { errors };
+  return {
+    value: { id: record.id as number, slug: record.slug as string, name: record.name as string },
+    errors: [],
+  };
+}
+
+/*
+ * Check a raw record against the Product schema. Collects every problem of the record
+ * instead of stopping at the first one. `categoryIds` are the known categories.
+ */
+export function parseProduct(raw: unknown, categoryIds: Set<number>): ParseResult<Product> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['record must be an object'] };
+  }
+
+  const record = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isPositiveInteger(record.id)) errors.push('id must be a positive integer');
+  if (!isNonEmptyString(record.name)) errors.push('name must be a non-empty string');
+  if (!isNonEmptyString(record.slug)) errors.push('slug must be a non-empty string');
+  if (!isNonEmptyString(record.status)) errors.push('status must be a non-empty string');
+  if (record.description !== undefined && typeof record.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  for (const field of ['price', 'weight']) {
+    const value = record[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      errors.push(`${field} must be a number`);
+    }
+  }
+
+  const categories = Array.isArray(record.categories) ? record.categories.map(categoryIdOf) : [];
+  if (categories.length === 0) {
+    errors.push('categories must be a non-empty list of category IDs');
+  } else if (!categories.every(isPositiveInteger)) {
+    errors.push('categories must only contain positive integer IDs');
+  } else if (!categoryIds.has(categories[0])) {
+    errors.push(`unknown category ${categories[0]}`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    value: {
+      id: record.id as number,
+      name: record.name as string,
+      slug: record.slug as string,
+      description: record.description as string | undefined,
+      status: record.status as string,
+      price: record.price as number | undefined,
+      weight: record.weight as number | undefined,
+      categories: categories as number[],
+    },
+    errors: [],
+  };
+}
@@ -0,0 +1,17 @@
+import { env } from '../config/env';
+
+/*
+ * Logical public_id of a product image, the same for every storage backend:
+ *      <CLOUDINARY_UPLOAD_FOLDER>/<productId>/image_<index>
+ */
+export function publicIdFor(productId: number | string, index: number): string {
+  return `${env.cloudinaryUploadFolder}/${productId}/image_${index}`;
+}
+
+/*
+ * Index of a public_id made by publicIdFor, undefined for any other public_id
+ */
+export function indexOfPublicId(publicId: string): number | undefined {
+  const match = publicId.match(/\/image_(\d+)$/);
+  return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,30 @@
+/*
+ * Deterministic pseudo-random numbers in [0, 1) from a string seed (mulberry32), so a
+ * shuffled selection can be reproduced with the same --shuffle-seed
+ */
+export function seededRandom(seed: string): () => number {
+  // FNV-1a hash of the seed as the initial state
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/*
+ * Fisher-Yates shuffle of a copy of `items`
+ */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,112 @@
+import { logger } from './logger';
+
+export type RateLimitBudget = {
+  limit: number;
+  remaining: number;
+  resetAt?: string;
+};
+
+type RateLimiterOptions = {
+  limit: number;
+  windowMs: number;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket refilled once per quota window, for APIs with an hourly request quota
+ * such as Unsplash. Each request takes a token with acquire(); when the bucket is empty,
+ * callers wait for the window to reset instead of sending requests that would fail.
+ *
+ * The bucket is kept in sync with the server through update(), fed from the
+ * X-Ratelimit-Limit / X-Ratelimit-Remaining response headers. The window starts with
+ * the first request seen, as the API does not report when its window resets.
+ */
+export class RateLimiter {
+  private limit: number;
+  private remaining: number;
+  private readonly windowMs: number;
+  private windowStartedAt?: number;
+  private pause?: Promise<void>;
+
+  constructor(
+    private readonly name: string,
+    options: RateLimiterOptions,
+  ) {
+    this.limit = options.limit;
+    this.remaining = options.limit;
+    this.windowMs = options.windowMs;
+  }
+
+  /*
+   * Take one token, waiting for the next window when the quota is used up
+   */
+  async acquire(): Promise<void> {
+    for (;;) {
+      this.refillIfWindowElapsed();
+
+      if (this.remaining > 0) {
+        this.windowStartedAt ??= Date.now();
+        this.remaining--;
+        return;
+      }
+
+      // All callers share one pause, so the log line appears once per window
+      this.pause ??= this.waitForReset().finally(() => (this.pause = undefined));
+      await this.pause;
+    }
+  }
+
+  /*
+   * Sync the bucket with the quota reported by the server
+   */
+  update(limit?: number, remaining?: number): void {
+    if (limit !== undefined && Number.isFinite(limit)) {
+      this.limit = limit;
+    }
+    if (remaining !== undefined && Number.isFinite(remaining)) {
+      // Requests still in flight already took their token, never hand it out twice
+      this.remaining = Math.min(this.remaining, remaining);
+    }
+
+    logger.debug({ limiter: this.name, ...this.budget() }, 'Rate limit budget updated');
+  }
+
+  /*
+   * The server refused a request for quota reasons, stop until the window resets
+   */
+  exhaust(): void {
+    this.windowStartedAt ??= Date.now();
+    this.remaining = 0;
+  }
+
+  budget(): RateLimitBudget {
+    return {
+      limit: this.limit,
+      remaining: this.remaining,
+      resetAt: this.windowStartedAt
+        ? new Date(this.windowStartedAt + this.windowMs).toISOString()
+        : undefined,
+    };
+  }
+
+  private refillIfWindowElapsed(): void {
+    if (this.windowStartedAt && Date.now() >= this.windowStartedAt + this.windowMs) {
+      this.windowStartedAt = undefined;
+      this.remaining = this.limit;
+    }
+  }
+
+  private async waitForReset(): Promise<void> {
+    const waitMs = Math.max(0, (this.windowStartedAt ?? Date.now()) + this.windowMs - Date.now());
+
+    logger.warn(
+      { limiter: this.name, waitMs, ...this.budget() },
+      'Rate limit quota exhausted, pausing until the window resets',
+    );
+
+    await sleep(waitMs);
+  }
+}
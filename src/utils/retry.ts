@@ -1,10 +1,11 @@
-import { env } from '../config/env';
 import { logger } from './logger';
+import { classifyError } from './errors';
+import { retries } from './metrics';
+import { retryPolicyFor } from '../config/retryPolicies';
+import { RetryPolicy } from '../types/errors';
 
-type RetryOptions = {
-  attempts?: number;
-  backoffMs?: number;
-  factor?: number; // Exponential backoff factor
+// Any policy field given here overrides the policy of the operation (see RETRY_POLICIES)
+type RetryOptions = Partial<RetryPolicy> & {
   operationName?: string;
 };
 
@@ -12,41 +13,67 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/*
+ * Run `operation`, retrying transient and rate-limited errors with exponential backoff.
+ * Other errors (auth, validation, not-found) are thrown at once. Errors are thrown as
+ * IngestionError (see classifyError), so callers can tell the error class.
+ */
 export async function retry<T>(
   operation: () => Promise<T>,
   options: RetryOptions = {},
 ): Promise<T> {
-  const {
-    attempts = env.retryAttempts,
-    backoffMs = env.retryBackoffMs,
-    factor = 2,
-    operationName = 'operation',
-  } = options;
+  const { operationName = 'operation', ...overrides } = options;
+  const policy = { ...retryPolicyFor(operationName), ...overrides };
+  const startedAt = Date.now();
 
-  let lastError: unknown;
-
-  for (let attempt = 1; attempt <= attempts; attempt++) {
+  for (let attempt = 1; ; attempt++) {
     try {
       // Try the operation
       return await operation();
-    } catch (error) {
-      lastError = error;
+    } catch (caught) {
+      const error = classifyError(caught);
+      const { errorClass } = error;
+
+      if (!error.retryable) {
+        logger.error(
+          { operationName, attempt, errorClass, error },
+          'Operation failed, not retrying',
+        );
+        throw error;
+      }
 
-      const isLastAttempt = attempt === attempts;
+      if (attempt >= policy.attempts) {
+        // If the last attempt fails, throw the error
+        logger.error(
+          { operationName, attempt, errorClass, error },
+          'Operation failed after all retries',
+        );
+        throw error;
+      }
 
-      if (isLastAttempt) {
-        // If the last attempt fails, throw there error
-        logger.error({ operationName, attempt, error }, 'Operation failed after all retries');
+      // Amount of time to wait before retrying, never shorter than what Retry-After asks for
+      const backoffMs = Math.min(
+        policy.backoffMs * Math.pow(policy.factor, attempt - 1),
+        policy.maxDelayMs,
+      );
+      const jitteredMs = policy.jitter ? Math.random() * backoffMs : backoffMs;
+      const waitMs = Math.round(Math.max(jitteredMs, error.retryAfterMs ?? 0));
+
+      if (Date.now() - startedAt + waitMs > policy.maxElapsedMs) {
+        logger.error(
+          { operationName, attempt, errorClass, maxElapsedMs: policy.maxElapsedMs, error },
+          'Operation failed, retry time budget exhausted',
+        );
         throw error;
       }
-      // Amount of time to wait before retrying
-      const waitMs = backoffMs * Math.pow(factor, attempt - 1);
 
-      logger.warn({ operationName, attempt, waitMs }, 'Retrying operation due to error');
+      logger.warn(
+        { operationName, attempt, errorClass, waitMs },
+        'Retrying operation due to error',
+      );
+      retries.inc({ operation: operationName });
 
       await sleep(waitMs);
     }
   }
-
-  throw lastError ?? new Error(`Operation ${operationName} failed after all retries`);
 }
@@ -0,0 +1,128 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { env } from '../config/env';
+import { ErrorClass } from '../types/errors';
+import { IngestionStatus, ProductStatus } from '../types/ingestion';
+import { ProductProgress } from '../types/journal';
+import { ProductReport, RunReport } from '../types/report';
+
+export function runReportPath(runId: string): string {
+  return path.join(env.runReportDir, `${runId}.json`);
+}
+
+function hasFailed(product: ProductStatus): boolean {
+  return product.state === 'failed' || product.state === 'dependency-open';
+}
+
+/*
+ * Failed products per error class, products failed without a class count as transient
+ */
+export function failuresByClass(products: ProductStatus[]): Partial<Record<ErrorClass, number>> {
+  const byClass: Partial<Record<ErrorClass, number>> = {};
+  for (const product of products.filter(hasFailed)) {
+    const errorClass = product.errorClass ?? 'transient';
+    byClass[errorClass] = (byClass[errorClass] ?? 0) + 1;
+  }
+  return byClass;
+}
+
+/*
+ * Report of a finished run, from its final status and the journal progress of its products
+ */
+export function buildRunReport(
+  status: IngestionStatus,
+  progressFor: (productId: number) => ProductProgress | undefined,
+): RunReport {
+  const finishedAt = status.finishedAt ?? new Date().toISOString();
+
+  const products = status.products.map((product): ProductReport => {
+    const uploaded = Object.values(progressFor(product.productId)?.uploaded ?? {});
+    return {
+      productId: product.productId,
+      outcome: product.state,
+      stage: product.stage,
+      startedAt: product.startedAt,
+      finishedAt: product.finishedAt,
+      durationMs: product.durationMs,
+      images: uploaded.length,
+      bytes: uploaded.reduce((sum, image) => sum + (image.bytes ?? 0), 0),
+      errorClass: product.errorClass,
+      error: product.error,
+    };
+  });
+
+  const { counts } = status;
+  return {
+    runId: status.runId,
+    state: status.state,
+    startedAt: status.startedAt,
+    finishedAt,
+    durationMs: Date.parse(finishedAt) - Date.parse(status.startedAt),
+    storageBackend: env.storageBackend,
+    counts,
+    failuresByClass: failuresByClass(status.products),
+    totals: {
+      products: status.total,
+      succeeded: counts.registered + counts.skipped,
+      failed: counts.failed + counts['dependency-open'],
+      images: products.reduce((sum, product) => sum + product.images, 0),
+      bytes: products.reduce((sum, product) => sum + product.bytes, 0),
+    },
+    unsplashBudget: status.unsplashBudget,
+    dependencies: status.dependencies,
+    products,
+  };
+}
+
+/*
+ * Write the report to <RUN_REPORT_DIR>/<runId>.json, returns its path
+ */
+export async function writeRunReport(report: RunReport): Promise<string> {
+  const filePath = runReportPath(report.runId);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(report, null, 2), 'utf-8');
+  return filePath;
+}
+
+export async function removeRunReport(runId: string): Promise<void> {
+  await fs.rm(runReportPath(runId), { force: true });
+}
+
+/*
+ * Human-readable end-of-run summary, with the commands to retry the failed products
+ */
+export function printRunSummary(status: IngestionStatus): void {
+  const { counts, runId } = status;
+  const failed = status.products.filter(hasFailed).map((product) => product.productId);
+  const byClass = Object.entries(failuresByClass(status.products)).map(
+    ([errorClass, count]) => `${errorClass}: ${count}`,
+  );
+
+  console.log('\n🏁 Ingestion completed.');
+  console.log(`   ✔ Success: ${counts.registered + counts.skipped}`);
+  console.log(
+    `   ✖ Failed: ${failed.length}${byClass.length > 0 ? ` (${byClass.join(', ')})` : ''}`,
+  );
+  if (counts.cancelled > 0) {
+    console.log(`   ⏹ Cancelled: ${counts.cancelled}`);
+  }
+  const openCircuits = Object.entries(status.dependencies ?? {})
+    .filter(([, state]) => state !== 'closed')
+    .map(([dependency]) => dependency);
+  if (openCircuits.length > 0) {
+    console.log(`   ⚡ Dependencies open: ${openCircuits.join(', ')}`);
+  }
+  if (status.unsplashBudget) {
+    const { remaining, limit } = status.unsplashBudget;
+    console.log(`   ⏱ Unsplash budget: ${remaining}/${limit} requests left`);
+  }
+  console.log(`   📄 Report: ${runReportPath(runId)}`);
+  console.log('');
+
+  if (failed.length > 0) {
+    console.log(`⚠️  You can retry failed products with:`);
+    console.log(`   node index.js ingest --resume=${runId}`);
+    console.log(`   node index.js retry-failed --run=${runId}`);
+    console.log(`   node index.js ingest --products=${failed.join(',')}\n`);
+  }
+}
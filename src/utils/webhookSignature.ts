@@ -0,0 +1,49 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signature of the webhooks Laravel posts (see routes/webhooks.ts):
+ *   X-Signature-Timestamp: <unix seconds>
+ *   X-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>" keyed with WEBHOOK_SECRET>
+ *
+ * Signing the timestamp with the body lets the receiver refuse replays of old requests.
+ */
+export const SIGNATURE_HEADER = 'X-Signature';
+export const TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+
+// Clock skew and delivery delay allowed between Laravel and this service
+const TOLERANCE_MS = 5 * 60 * 1000;
+
+export function signPayload(secret: string, timestamp: string, body: Buffer | string): string {
+  const hmac = createHmac('sha256', secret).update(`${timestamp}.`).update(body);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/*
+ * Returns why the request cannot be trusted, undefined when its signature is valid
+ */
+export function verifySignature(
+  secret: string,
+  body: Buffer,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  now: number = Date.now(),
+): string | undefined {
+  if (!signature || !timestamp) {
+    return `Missing ${SIGNATURE_HEADER} or ${TIMESTAMP_HEADER} header`;
+  }
+
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds)) {
+    return `Invalid ${TIMESTAMP_HEADER} header`;
+  }
+  if (Math.abs(now - seconds * 1000) > TOLERANCE_MS) {
+    return 'Signature timestamp is too old or in the future';
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return 'Invalid signature';
+  }
+  return undefined;
+}
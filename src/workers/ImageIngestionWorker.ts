@@ -3,28 +3,60 @@
  * ---------------------
  * Responsibilities:
  * 1. Load products from:
- *      - full dataset (products.json)
+ *      - full catalog (ProductCatalog: JSON/JSONL or CSV file, or the Laravel API)
  *      - targeted rerun (--products=1,2,3)
- *      - failed-products.json (--useFailed)
+ *      - failed products of the latest run journal (--useFailed)
+ *      - an interrupted run (--resume=<runId>)
+ *      - queued product-created events (WorkerOptions.products, see ProductEventConsumer)
  *
  * 2. For each product, run the ingestion pipeline:
- *      a) Fetch category-relevant images from Unsplash
+ *      a) Fetch category-relevant images from the category's image sources
+ *         (Unsplash, Pexels, local directory, see ImageSourceRegistry)
  *      b) Download these URLs into buffers
  *      c) Upload buffers to Cloudinary and collect secure URLs
- *      d) Register uploaded URLs in the Laravel backend
+ *      d) Check that the derivatives (thumbnail, card...) of the uploads exist, rank the
+ *         uploads by score (see rankImages): positions continue after the images the
+ *         product already has, the best image becomes primary if it has none
+ *      e) Register uploaded URLs in the Laravel backend, with the attribution of their
+ *         source photos, then report the used photos to their source (Unsplash
+ *         download tracking)
  *
- * 3. Apply retry + exponential backoff for:
- *      - Unsplash (rate limit)
+ * 3. Apply retry + exponential backoff with jitter (see RETRY_POLICIES) for:
+ *      - Unsplash (network/server errors, its quota is handled by the rate limiter)
  *      - Cloudinary (network/server errors)
  *      - Laravel 5xx errors
+ *    Auth, validation and not-found errors are not retried, the error class of each
+ *    failed product is recorded in the run journal. Each call is retried in one place
+ *    only, the worker does not wrap whole steps in another retry.
  *
- * 4. Log each step with structured logs.
+ *    Each dependency has a circuit breaker (see CircuitBreaker): once it keeps failing,
+ *    the remaining products fail fast with the `dependency-open` state instead of
+ *    hammering it. They can be retried later with --useFailed or --resume.
  *
- * 5. Track failed products and write them to failed-products.json:
- *      { "failed": [12,45,90] }
+ * 4. Process products concurrently:
+ *      - at most INGESTION_CONCURRENCY products in flight
+ *      - at most IMAGE_CONCURRENCY images per product in flight
+ *      - concurrent products of the same category share one image source fetch
  *
- * 6. Suggest rerun commands:
- *      node index.js --products=12,45,90
+ * 5. Log each step with structured logs. Every line logged during a run carries its runId,
+ *    and the productId of the product being processed (see withLogContext), whichever
+ *    service logs it.
+ *
+ * 6. Record every product stage in the run journal (see RunJournal):
+ *      fetched -> downloaded -> uploaded -> registered, or failed
+ *
+ * 7. Avoid reusing the same photo across products: near-duplicates (perceptual hash)
+ *    of images used by other products are skipped (see PerceptualHashIndex).
+ *
+ * 8. Roll back uploads whose registration Laravel refused for good: the uploaded
+ *    images are deleted again and the rollback is recorded in the journal.
+ *
+ * 9. Count products, images, bytes, latencies and retries in the process metrics
+ *    (GET /metrics, see metrics.ts) and write a JSON report of each run to
+ *    <RUN_REPORT_DIR>/<runId>.json: outcome, timings and error class of every product
+ *    (see runReport.ts). The CLI prints a summary of it with rerun commands:
+ *      node index.js ingest --resume=<runId>
+ *      node index.js retry-failed --run=<runId>
  *
  * This worker is the orchestrator of the entire ingestion pipeline.
  */
@@ -33,203 +65,547 @@
  * Targeted Rerun Design
  * ---------------------
  * The worker supports processing only a subset of products instead of all.
+ * Runs are configured with WorkerOptions, built from CLI flags (utils/cliArgs.ts)
+ * or from the HTTP control API (POST /ingestions).
+ *
+ * CLI options (`ingest` and `retry-failed` commands, see cli.ts):
+ *   --products=12,45,10-50 / --category=hoodies,denim / --status=active / --fewer-than=4
+ *      -> Only process the products matching every given selector
+ *         (see ProductCatalog.select).
  *
- * CLI options:
- *   --products=12,45,90
- *      -> Only process these product IDs.
+ *   --limit=20 [--shuffle-seed=abc]
+ *      -> Only process the first N selected products, after a reproducible shuffle.
  *
- *   --useFailed
- *      -> Load failed-products.json and only retry those products.
+ *   --useFailed (retry-failed [--run=<runId>])
+ *      -> Load the latest run journal (or the given one) and only retry its failed
+ *         products. Selectors narrow them down further.
+ *
+ *   --dry-run [--plan-out=plan.json]
+ *      -> Resolve the products, their Laravel image counts, categories, queries and
+ *         candidate images, and print what would be uploaded and registered. Nothing is
+ *         uploaded, registered or journaled. --plan-out also writes the plan as JSON.
+ *
+ *   --apply=plan.json
+ *      -> Run exactly the plan of an earlier dry run (its products, candidate images and
+ *         image counts). Other filters are ignored.
+ *
+ *   --resume=<runId>
+ *      -> Continue the given run in place. Registered products are skipped, the others
+ *         pick up at the stage where they stopped: their candidate images and already
+ *         uploaded images are reused from the journal instead of being fetched
+ *         and uploaded again.
  *
  * Behavior:
  * - full run: process entire dataset
  * - targeted run: filter products based on provided IDs
- * - failed rerun: read failed-products.json, re-attempt only those IDs
+ * - failed rerun: read the latest journal, re-attempt only its failed IDs in a new run
+ * - resumed run: append to the existing journal, re-attempt its unregistered IDs
  *
  * This feature allows:
  * - quickly retrying transient failures (Cloudinary/Unsplash issues)
  * - avoiding reprocessing the entire catalog
  * - better development and production iteration
  */
-import products from '../../data/products.json';
-import categories from '../../data/categories.json';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { UnsplashService } from '../services/UnsplashService';
+import { ImageSourceRegistry } from '../services/ImageSourceRegistry';
+import { hasSelectors, ProductCatalog } from '../services/ProductCatalog';
+import { InlineProductSource } from '../services/InlineProductSource';
+import { unsplashRateLimiter } from '../services/UnsplashService';
 import { CloudinaryService } from '../services/CloudinaryService';
 import { LaravelApiClient } from '../services/LaravelApiClient';
-import { retry } from '../utils/retry';
+import { RunJournal } from '../services/RunJournal';
+import { PerceptualHashIndex } from '../services/PerceptualHashIndex';
+import { ImageRejectedError } from '../services/ImageProcessor';
+import { ProcessedImage } from '../types/imageProcessing';
+import { image, ImageSlots } from '../types/image';
+import { ImageSearch, SourceImage } from '../types/imageSource';
+import { IngestionPlan, ProductPlan } from '../types/plan';
+import { Product } from '../types/product';
+import {
+  IngestionStatus,
+  ProductState,
+  ProductStatus,
+  RunState,
+  WorkerOptions,
+} from '../types/ingestion';
+import { computeDHash } from '../utils/perceptualHash';
+import { circuitStates } from '../utils/circuitBreaker';
+import { productsFailed, productsProcessed } from '../utils/metrics';
+import { buildRunReport, failuresByClass, writeRunReport } from '../utils/runReport';
+import { classifyError, NotFoundError } from '../utils/errors';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { printPlan, readPlan, writePlan } from '../utils/ingestionPlan';
+import { indexOfPublicId, publicIdFor } from '../utils/publicId';
+import { rankImages } from '../utils/imageScore';
+import { CategoryQueries } from '../config/categoryQueries';
 import { logger } from '../utils/logger';
-import axios from 'axios';
+import { withLogContext } from '../utils/logContext';
 import { env } from '../config/env';
-import AxiosXHR = Axios.AxiosXHR;
 
-export class ImageIngestionWorker {
-  private readonly productsToProcess: any[] = [];
-  private readonly failedProducts: number[] = [];
-  private readonly categoryCache: { [key: string]: string[] } = {};
+export function emptyProductCounts(): Record<ProductState, number> {
+  return {
+    pending: 0,
+    running: 0,
+    registered: 0,
+    skipped: 0,
+    failed: 0,
+    'dependency-open': 0,
+    cancelled: 0,
+  };
+}
 
-  constructor() {
-    // Parse CLI Flags
-    const productFlag = process.argv.find((arg) => arg.startsWith('--products='));
-    const useFailedFlag = process.argv.includes('--useFailed');
+// Services the worker calls, built from the configuration unless given (tests)
+export type WorkerDependencies = {
+  imageSources?: ImageSourceRegistry;
+  cloudinaryService?: CloudinaryService;
+  laravelApiClient?: LaravelApiClient;
+  // Already loaded by the caller, instead of loading it again
+  catalog?: ProductCatalog;
+};
 
-    // Targeted run (--products=1,2,3)
-    if (productFlag) {
-      const productIds = productFlag
-        .split('=')[1]
-        .split(',')
-        .map((id) => Number(id.trim()));
-      this.productsToProcess = products.filter((product: any) => productIds.includes(product.id));
+// Candidate images picked per missing image, the spares replace rejected downloads
+const CANDIDATES_PER_IMAGE = 3;
 
-      console.log(`Targeted run: Processing ${productIds.join(',')} products...`);
-      return;
-    }
+export class ImageIngestionWorker {
+  private productsToProcess: Product[] = [];
+  private catalog?: ProductCatalog;
+  // Keyed by search, holds the in-flight fetch as well, so concurrent products share it
+  private readonly categoryCache: { [key: string]: Promise<SourceImage[]> } = {};
+  private readonly categoryQueries = new CategoryQueries();
+  private readonly imageSources: ImageSourceRegistry;
+  private readonly cloudinaryService: CloudinaryService;
+  private readonly laravelApiClient: LaravelApiClient;
+  private readonly productStatus = new Map<number, ProductStatus>();
+  private journal?: RunJournal;
+  private prepared = false;
+  private hashIndex?: PerceptualHashIndex;
+  private state: RunState = 'running';
+  private cancelRequested = false;
+  private startedAt = new Date().toISOString();
+  private finishedAt?: string;
+
+  constructor(
+    private readonly options: WorkerOptions = {},
+    dependencies: WorkerDependencies = {},
+  ) {
+    this.imageSources = dependencies.imageSources ?? new ImageSourceRegistry();
+    this.cloudinaryService = dependencies.cloudinaryService ?? new CloudinaryService();
+    this.laravelApiClient = dependencies.laravelApiClient ?? new LaravelApiClient();
+    this.catalog = dependencies.catalog;
+  }
 
-    if (useFailedFlag) {
-      try {
-        const failedFile = require('../../data/failed-products.json');
-        this.failedProducts = failedFile.failed || [];
+  get runId(): string | undefined {
+    return this.journal?.runId;
+  }
+
+  /*
+   * Select the products of this run and open its journal.
+   * Called by run(), or beforehand by callers that need the run ID straight away.
+   */
+  async prepare(): Promise<void> {
+    if (this.prepared) return;
+
+    const catalog = await this.loadCatalog();
+    this.categoryQueries.checkCategories(catalog.categories);
+    const { useFailed, failedRunId, resumeRunId, dryRun, applyPlan } = this.options;
+
+    if (applyPlan) {
+      await this.prepareApply(catalog, applyPlan);
+    } else if (resumeRunId) {
+      // Resumed run (--resume=<runId>)
+      this.journal = await RunJournal.open(resumeRunId);
+      const pendingIds = this.journal.pendingProductIds();
+      this.productsToProcess = catalog.products.filter((product) =>
+        pendingIds.includes(product.id),
+      );
 
-        this.productsToProcess = products.filter((product: any) =>
-          this.failedProducts.includes(product.id),
+      logger.info(
+        { runId: resumeRunId, products: pendingIds.length },
+        'Resumed run: processing its unregistered products',
+      );
+    } else {
+      if (this.options.products) {
+        this.productsToProcess = catalog.products;
+        logger.info(
+          { productIds: this.productsToProcess.map((product) => product.id) },
+          'Event run: processing the products of queued events',
+        );
+      } else if (useFailed) {
+        const sourceRunId = failedRunId ?? (await RunJournal.latestRunId());
+        if (sourceRunId) {
+          const failedIds = (await RunJournal.open(sourceRunId)).failedProductIds();
+          this.productsToProcess = await catalog.select(
+            this.options,
+            (product) => this.registeredImageCount(product),
+            catalog.products.filter((product) => failedIds.includes(product.id)),
+          );
+
+          logger.info(
+            { sourceRunId, productIds: this.productsToProcess.map((product) => product.id) },
+            'Failed rerun: reprocessing the failed products',
+          );
+        } else {
+          logger.warn('No run journal found, there are no failed products to rerun');
+        }
+      } else if (hasSelectors(this.options)) {
+        // Targeted run (--products=1,2,10-50, --category=hoodies, --status=active...)
+        this.productsToProcess = await catalog.select(this.options, (product) =>
+          this.registeredImageCount(product),
+        );
+        logger.info(
+          { products: this.productsToProcess.length },
+          'Targeted run: processing the selected products',
         );
+      } else {
+        this.productsToProcess = catalog.products;
+        logger.info(
+          { products: this.productsToProcess.length },
+          'Full run: processing all products',
+        );
+      }
 
-        console.log(`Failed rerun: Reprocessing ${this.failedProducts.join(',')} products...`);
-        return;
-      } catch (error) {
-        console.error('Failed to load failed-products.json:', error);
+      // A dry run leaves no trace, not even a journal
+      // Event runs are the consumer's, `status` and `retry-failed` do not pick them up
+      if (!dryRun) {
+        this.journal = await RunJournal.create(
+          this.productsToProcess.map((product) => product.id),
+          this.options.products ? 'consumer' : 'batch',
+        );
       }
     }
 
-    this.productsToProcess = products;
-    console.log('Full run: Processing all products...');
+    for (const product of this.productsToProcess) {
+      this.productStatus.set(product.id, { productId: product.id, state: 'pending' });
+    }
+    this.prepared = true;
   }
 
-  async run() {
-    console.log(`Starting ingestion for ${this.productsToProcess.length} products...`);
-    for (const product of this.productsToProcess) {
-      try {
-        await this.processProduct(product);
-      } catch (error) {
-        console.error(`Error processing product ${product.id}:`, error);
+  private async loadCatalog(): Promise<ProductCatalog> {
+    const { products } = this.options;
+    this.catalog ??= await ProductCatalog.load(
+      products ? new InlineProductSource(products, 'events') : undefined,
+    );
+    return this.catalog;
+  }
 
-        this.failedProducts.push(product.id);
-      }
+  /*
+   * Run exactly what a dry run planned (--apply=plan.json): the planned products, with
+   * the planned candidates and image counts, recorded in the journal as if fetched.
+   * Products that were skipped or could not be planned are left out.
+   */
+  private async prepareApply(catalog: ProductCatalog, planPath: string): Promise<void> {
+    const plan = await readPlan(planPath);
+    if (plan.storageBackend !== env.storageBackend) {
+      logger.warn(
+        { planPath, planned: plan.storageBackend, configured: env.storageBackend },
+        'Plan was made for another storage backend, its public_ids may not match',
+      );
     }
 
-    await this.writeFailedProducts();
+    const planned = plan.products.filter(
+      (entry) => entry.needed > 0 && !entry.error && entry.candidates.length > 0,
+    );
+    this.productsToProcess = catalog.products.filter((product) =>
+      planned.some((entry) => entry.productId === product.id),
+    );
+
+    this.journal = await RunJournal.create(this.productsToProcess.map((product) => product.id));
+    for (const entry of planned) {
+      if (this.productsToProcess.some((product) => product.id === entry.productId)) {
+        const { needed, firstIndex, assignPrimary } = entry;
+        await this.journal.fetched(entry.productId, entry.candidates, {
+          needed,
+          firstIndex,
+          assignPrimary,
+        });
+      }
+    }
 
-    console.log('\n🏁 Ingestion completed.');
-    console.log(`   ✔ Success: ${this.productsToProcess.length - this.failedProducts.length}`);
-    console.log(`   ✖ Failed: ${this.failedProducts.length}\n`);
+    logger.info(
+      { planPath, products: this.productsToProcess.length },
+      'Applying plan: processing its planned products',
+    );
+  }
 
-    if (this.failedProducts.length > 0) {
-      console.log(`⚠️  You can retry failed products with:`);
-      console.log(`   node index.js --products=${this.failedProducts.join(',')}\n`);
+  private async loadHashIndex(): Promise<void> {
+    if (env.dedupeEnabled) {
+      this.hashIndex = await PerceptualHashIndex.load();
     }
   }
 
-  async writeFailedProducts(): Promise<void> {
-    // If there are no failed products, skip writing to failed-products.json
-    if (this.failedProducts.length === 0) {
-      console.log(`No failed products to write to failed-products.json.`);
-      return;
+  /*
+   * Stop starting new products. Products already in flight run to completion,
+   * the others are reported as cancelled and stay pending in the journal (resumable).
+   */
+  cancel(): void {
+    this.cancelRequested = true;
+  }
+
+  async run(): Promise<IngestionStatus> {
+    try {
+      await this.prepare();
+      await withLogContext({ runId: this.runId }, async () => {
+        if (this.options.dryRun) {
+          await this.dryRun();
+        } else {
+          await this.loadHashIndex();
+          await this.processAll();
+        }
+      });
+      this.state = this.cancelRequested ? 'cancelled' : 'completed';
+    } catch (error) {
+      this.state = 'failed';
+      throw error;
+    } finally {
+      this.finishedAt = new Date().toISOString();
+      if (this.journal && !this.options.dryRun) {
+        await this.writeReport();
+      }
     }
 
-    // Clean duplicate ID's;
-    const uniqueFailedProductIds = [...new Set(this.failedProducts)];
-    const filePath = path.join(__dirname, '../../data/failed-products.json');
-    const payload = { failed: uniqueFailedProductIds };
+    return this.status();
+  }
 
+  /*
+   * Best effort: a report that cannot be written must not fail the run
+   */
+  private async writeReport(): Promise<void> {
     try {
-      await fs.writeFile(filePath, JSON.stringify(payload, null, 2), 'utf-8');
-      console.log(`Failed products: ${uniqueFailedProductIds.join(', ')} written to ${filePath}. `);
+      const report = buildRunReport(this.status(), (productId) =>
+        this.journal!.progressFor(productId),
+      );
+      const reportPath = await writeRunReport(report);
+      logger.info({ runId: report.runId, reportPath }, 'Run report written');
     } catch (error) {
-      console.error(`Error writing failed products to ${filePath}:`, error);
+      logger.error({ runId: this.runId, error }, 'Failed to write the run report');
     }
   }
 
-  async processProduct(product: any): Promise<void> {
-    logger.info({ productId: product.id }, `Starting pipeline for product`);
-    const unsplashService = new UnsplashService();
-    const cloudinaryService = new CloudinaryService();
-    const laravelApiClient = new LaravelApiClient();
+  /*
+   * --dry-run: resolve everything a run needs (Laravel image counts, categories, queries,
+   * candidate images) and print the plan. Nothing is uploaded, registered or journaled.
+   */
+  private async dryRun(): Promise<void> {
+    const { planOut } = this.options;
+
+    const plan: IngestionPlan = {
+      createdAt: new Date().toISOString(),
+      storageBackend: env.storageBackend,
+      products: await mapWithConcurrency(
+        this.productsToProcess,
+        env.ingestionConcurrency,
+        (product) => withLogContext({ productId: product.id }, () => this.planProduct(product)),
+      ),
+    };
+
+    printPlan(plan);
+
+    if (planOut) {
+      await writePlan(planOut, plan);
+      console.log(
+        `Plan written to ${planOut}, run it with: node index.js ingest --apply=${planOut}\n`,
+      );
+    }
+  }
+
+  private async planProduct(product: Product): Promise<ProductPlan> {
+    const categorySlug = this.categorySlugFor(product);
+    const productPlan: ProductPlan = {
+      productId: product.id,
+      categorySlug,
+      search: this.categoryQueries.searchFor(categorySlug, product),
+      registeredImages: 0,
+      needed: 0,
+      firstIndex: 0,
+      assignPrimary: false,
+      candidates: [],
+      publicIds: [],
+    };
 
     try {
-      // Step 0: Check if the product has images already registered in Laravel
-      const numberOfRegisteredImages: AxiosXHR<any> = await axios.get(
-        env.laravelApiBaseUrl + `/ingest/products/${product.id}/images`,
+      const { candidates, slots, registeredImages } = await this.resolveCandidates(
+        product,
+        categorySlug,
+      );
+      const { needed, firstIndex } = slots;
+      Object.assign(productPlan, { registeredImages, candidates, ...slots });
+      productPlan.publicIds = Array.from({ length: needed }, (_, i) =>
+        publicIdFor(product.id, firstIndex + i),
       );
 
-      if (numberOfRegisteredImages.data >= 4) {
-        logger.info(
-          { productId: product.id },
-          `Product with ID ${product.id} already has 4 images registered in Laravel, skipping ingestion pipeline.`,
-        );
-        return;
+      if (needed > 0 && candidates.length === 0) {
+        productPlan.error = `No image source returned images for category ${categorySlug}`;
+      } else if (needed > 0) {
+        const format = env.imageTargetFormat === 'original' ? undefined : env.imageTargetFormat;
+        productPlan.payload = {
+          endpoint: `${env.laravelApiBaseUrl}/ingest/products/${product.id}/images`,
+          imageData: productPlan.publicIds.map((public_id) => ({ public_id, format })),
+        };
       }
+    } catch (error) {
+      productPlan.error = classifyError(error).message;
+    }
 
-      const remaining = 4 - numberOfRegisteredImages.data;
-
-      // Step 1: Fetch image URLs from Unsplash
-      const categoryId = product.categories[0];
-      const categorySlug: string = categories.find(
-        (cat: { id: number; slug: string; name: string }) => cat.id === categoryId,
-      )!.slug;
+    return productPlan;
+  }
 
-      if (!this.categoryCache[categorySlug]) {
-        this.categoryCache[categorySlug] = await retry(() => {
-          return unsplashService.fetchImagesForCategory(categorySlug, remaining);
-        });
+  private async processAll(): Promise<void> {
+    const journal = this.journal!;
+
+    logger.info(
+      {
+        runId: journal.runId,
+        products: this.productsToProcess.length,
+        concurrency: env.ingestionConcurrency,
+      },
+      'Starting ingestion run',
+    );
+    // Every log line of a product's pipeline carries its productId, retries included
+    await mapWithConcurrency(this.productsToProcess, env.ingestionConcurrency, (product) =>
+      withLogContext({ productId: product.id }, async () => {
+        if (this.cancelRequested) {
+          this.setProductState(product.id, 'cancelled');
+          productsProcessed.inc({ outcome: 'cancelled' });
+          return;
+        }
+
+        this.setProductState(product.id, 'running');
+        try {
+          const outcome = await this.processProduct(product);
+          this.setProductState(product.id, outcome);
+          productsProcessed.inc({ outcome });
+        } catch (error) {
+          const { errorClass } = classifyError(error);
+          const outcome = errorClass === 'dependency-open' ? 'dependency-open' : 'failed';
+
+          this.setProductState(product.id, outcome);
+          productsProcessed.inc({ outcome });
+          productsFailed.inc({ error_class: errorClass });
+          this.hashIndex?.release(product.id);
+          await journal.failed(product.id, error);
+        }
+      }),
+    );
+
+    await this.hashIndex?.save();
+
+    const { runId, counts, products, unsplashBudget } = this.status();
+    logger.info(
+      {
+        runId,
+        counts,
+        failuresByClass: failuresByClass(products),
+        dependencies: circuitStates(),
+        unsplashBudget,
+      },
+      'Ingestion run completed',
+    );
+  }
 
-        logger.info(
-          {
-            productId: product.id,
-            categorySlug,
-            remaining,
-          },
-          'Cached Unsplash URLs successfully',
-        );
-      } else {
-        logger.info(
-          {
-            productId: product.id,
-            categorySlug,
-            cachedCount: this.categoryCache[categorySlug].length,
-          },
-          'Using cached Unsplash URLs',
-        );
-      }
+  /*
+   * Products keep the time they started at, their duration is known once they settle
+   */
+  private setProductState(productId: number, state: ProductState): void {
+    const now = new Date();
+    const startedAt =
+      state === 'running' ? now.toISOString() : this.productStatus.get(productId)?.startedAt;
+    const settled = startedAt !== undefined && state !== 'running' && state !== 'pending';
+
+    this.productStatus.set(productId, {
+      productId,
+      state,
+      startedAt,
+      finishedAt: settled ? now.toISOString() : undefined,
+      durationMs: settled ? now.getTime() - Date.parse(startedAt) : undefined,
+    });
+  }
 
-      const randomImages = this.categoryCache[categorySlug].sort(() => Math.random() - 0.5);
+  /*
+   * Progress of the run, with per-product state and last journal stage
+   */
+  status(): IngestionStatus {
+    const counts = emptyProductCounts();
+
+    const productStatuses = [...this.productStatus.values()].map((status) => {
+      counts[status.state]++;
+      const progress = this.journal?.progressFor(status.productId);
+      return {
+        ...status,
+        stage: progress?.stage,
+        error: progress?.error,
+        errorClass: progress?.errorClass,
+      };
+    });
+
+    return {
+      runId: this.journal?.runId ?? '',
+      state: this.state,
+      startedAt: this.journal?.startedAt ?? this.startedAt,
+      finishedAt: this.finishedAt,
+      total: productStatuses.length,
+      counts,
+      products: productStatuses,
+      unsplashBudget: unsplashRateLimiter.budget(),
+      dependencies: circuitStates(),
+    };
+  }
 
-      const rawUrls = randomImages.slice(0, remaining);
+  /*
+   * Run the pipeline for one product.
+   * Returns `skipped` when the product needs no images, `registered` otherwise.
+   */
+  async processProduct(product: Product): Promise<'registered' | 'skipped'> {
+    logger.info({ productId: product.id }, `Starting pipeline for product`);
+    const { cloudinaryService, laravelApiClient } = this;
+    const journal = this.journal!;
 
-      logger.info(
-        {
-          productId: product.id,
-          categorySlug,
-          rawUrlsCount: rawUrls.length,
-          remaining,
-        },
-        'Fetched Unsplash URLs successfully',
-      );
+    try {
+      const progress = journal.progressFor(product.id);
+      if (progress?.registered) {
+        logger.info({ productId: product.id }, 'Product already registered in this run, skipping');
+        return 'skipped';
+      }
 
-      if (rawUrls.length === 0) {
-        throw new Error('Unsplash returned zero images');
+      const categorySlug = this.categorySlugFor(product);
+
+      // Resume: reuse the candidates picked before the interruption, their uploads are still valid
+      const { candidates, slots } =
+        progress?.candidates && progress.needed
+          ? {
+              candidates: progress.candidates,
+              slots: {
+                needed: progress.needed,
+                firstIndex: progress.firstIndex,
+                assignPrimary: progress.assignPrimary,
+              },
+            }
+          : await this.pickCandidates(product, categorySlug);
+      const { needed, firstIndex, assignPrimary } = slots;
+      if (needed === 0) {
+        // Settled: a resumed run does not check it again
+        await journal.skipped(product.id);
+        return 'skipped';
       }
 
-      // Upload the images coming from Unsplash to Cloudinary
-      const uploadedImages = await retry(() => {
-        return cloudinaryService.uploadAll(rawUrls, product.id);
+      // Upload the images coming from the image sources to Cloudinary.
+      // Not retried here: downloads and uploads retry on their own. The journal keeps the
+      // images uploaded before a failure, a resumed run does not upload them again.
+      const current = journal.progressFor(product.id);
+      const uploadedImages = await cloudinaryService.uploadAll(candidates, needed, product.id, {
+        categorySlug,
+        firstIndex,
+        uploaded: current?.uploaded,
+        excludedUrls: [...(current?.rejected ?? []), ...Object.values(current?.sources ?? {})],
+        onDownloaded: (index, url, digest) => journal.downloaded(product.id, index, url, digest),
+        onProcessed: (index, url, image) => this.claimImage(product.id, index, url, image),
+        onUploaded: (index, url, image) => journal.uploaded(product.id, index, url, image),
+        onRejected: (index, url, error) => journal.rejected(product.id, index, url, error),
       });
 
-      if (rawUrls.length !== uploadedImages.length) {
+      if (needed !== uploadedImages.length) {
         logger.warn(
           {
             productId: product.id,
-            rawCount: rawUrls.length,
+            rawCount: needed,
             uploadedCount: uploadedImages.length,
           },
           'Number of uploaded images does not match the number of fetched images',
@@ -237,15 +613,227 @@ export class ImageIngestionWorker {
         throw new Error('Failed to upload all images to Cloudinary');
       }
 
-      await laravelApiClient.uploadProductImages(product.id, uploadedImages);
+      // Laravel links to the derivatives straight away, they must exist first
+      const verifiedImages = await cloudinaryService.verifyDerivatives(product.id, uploadedImages);
+      const rankedImages = rankImages(verifiedImages, firstIndex, assignPrimary);
+
+      try {
+        await laravelApiClient.uploadProductImages(product.id, rankedImages);
+      } catch (error) {
+        await this.rollBackUploads(product.id, rankedImages, error);
+        throw error;
+      }
+      await journal.registered(product.id);
+      await this.hashIndex?.markRegistered(product.id);
+      await this.imageSources.trackDownloads(
+        uploadedImages.flatMap((image) => (image.source ? [image.source] : [])),
+      );
 
       logger.info(
         { productId: product.id, count: uploadedImages.length },
         'Images found and uploaded successfully.',
       );
+
+      return 'registered';
     } catch (error) {
       logger.error({ productId: product.id, error }, 'Pipeline failed for product');
       throw error;
     }
   }
+
+  /*
+   * Compensate a registration Laravel refused for good (validation, not-found): delete the
+   * images uploaded for it, nothing would ever point at them. Transient and auth failures
+   * or an open circuit keep the uploads, a resumed run registers them.
+   */
+  private async rollBackUploads(productId: number, images: image[], error: unknown) {
+    const { errorClass } = classifyError(error);
+    if (errorClass !== 'validation' && errorClass !== 'not-found') return;
+
+    const removed = await this.cloudinaryService.removeImages(images.map((i) => i.public_id));
+    if (removed.length > 0) {
+      await this.journal!.rolledBack(productId, removed);
+    }
+    logger.warn(
+      { productId, errorClass, removed, kept: images.length - removed.length },
+      'Registration refused, uploaded images deleted',
+    );
+  }
+
+  /*
+   * Refuse images that are near-duplicates of images used by other products
+   * (see PerceptualHashIndex). The rejection sends uploadAll to the next candidate.
+   */
+  private async claimImage(
+    productId: number,
+    index: number,
+    url: string,
+    image: ProcessedImage,
+  ): Promise<void> {
+    if (!this.hashIndex) return;
+
+    const hash = await computeDHash(image.buffer);
+    const clashes = this.hashIndex.claim({ hash, productId, index, url });
+    if (clashes.length > 0) {
+      throw new ImageRejectedError(
+        'duplicate',
+        `Near-duplicate already used by products ${clashes.join(',')}`,
+      );
+    }
+  }
+
+  private categorySlugFor(product: Product): string {
+    return this.catalog!.categorySlugFor(product);
+  }
+
+  /*
+   * Decide which candidate images a product gets and record them in the journal
+   */
+  private async pickCandidates(
+    product: Product,
+    categorySlug: string,
+  ): Promise<{ candidates: SourceImage[]; slots: ImageSlots }> {
+    const { candidates, slots } = await this.resolveCandidates(product, categorySlug);
+    if (slots.needed === 0) {
+      return { candidates, slots };
+    }
+
+    if (candidates.length === 0) {
+      throw new NotFoundError(`No image source returned images for category ${categorySlug}`);
+    }
+
+    await this.journal!.fetched(product.id, candidates, slots);
+
+    return { candidates, slots };
+  }
+
+  /*
+   * Candidate images of a product, without side effects (shared with dry runs).
+   * Picks CANDIDATES_PER_IMAGE candidates per missing image, so rejected downloads can be
+   * replaced. `needed` is 0 when the product already has enough images in Laravel.
+   */
+  private async resolveCandidates(
+    product: Product,
+    categorySlug: string,
+  ): Promise<{ candidates: SourceImage[]; slots: ImageSlots; registeredImages: number }> {
+    // Step 0: Check if the product has images already registered in Laravel
+    const { registeredImages, firstIndex, assignPrimary } = await this.registeredLayout(product);
+
+    if (registeredImages >= env.imagesPerProduct) {
+      logger.info(
+        { productId: product.id, registeredImages },
+        `Product with ID ${product.id} already has ${env.imagesPerProduct} images registered in Laravel, skipping ingestion pipeline.`,
+      );
+      return { candidates: [], slots: { needed: 0, firstIndex, assignPrimary }, registeredImages };
+    }
+
+    const remaining = env.imagesPerProduct - registeredImages;
+
+    // Step 1: Fetch images from the category's image sources
+    const search = this.categoryQueries.searchFor(categorySlug, product);
+    const categoryImages = await this.getCategoryImages(
+      search,
+      product.id,
+      remaining * CANDIDATES_PER_IMAGE,
+    );
+
+    // Shuffle a copy, the cached list is shared with other products in flight
+    const randomImages = [...categoryImages].sort(() => Math.random() - 0.5);
+
+    const candidates = randomImages.slice(0, remaining * CANDIDATES_PER_IMAGE);
+
+    logger.info(
+      {
+        productId: product.id,
+        categorySlug,
+        candidatesCount: candidates.length,
+        remaining,
+      },
+      'Fetched candidate images successfully',
+    );
+
+    return {
+      candidates,
+      slots: { needed: remaining, firstIndex, assignPrimary },
+      registeredImages,
+    };
+  }
+
+  /*
+   * Where new images of a product go: after its registered images, whether counted, by
+   * public_id index or by position, so a top-up never overwrites image_0. A product whose
+   * images Laravel lists gets a primary image unless one of them is primary already.
+   */
+  private async registeredLayout(
+    product: Product,
+  ): Promise<{ registeredImages: number; firstIndex: number; assignPrimary: boolean }> {
+    const { count, images } = await this.laravelApiClient.getProductImages(product.id);
+    if (!images) {
+      return { registeredImages: count, firstIndex: count, assignPrimary: count === 0 };
+    }
+
+    const taken = images.flatMap((registered) => [
+      indexOfPublicId(registered.public_id ?? '') ?? -1,
+      typeof registered.position === 'number' ? registered.position : -1,
+    ]);
+    return {
+      registeredImages: count,
+      firstIndex: Math.max(count, ...taken.map((index) => index + 1)),
+      assignPrimary: !images.some((registered) => registered.isPrimary),
+    };
+  }
+
+  private async registeredImageCount(product: Product): Promise<number> {
+    return await this.laravelApiClient.registeredImageCount(product.id);
+  }
+
+  /*
+   * Return the source images of a search, fetching them once per run. Products of a category
+   * share one search unless query enrichment gives them their own.
+   * The promise itself is cached, so products processed concurrently wait on the same
+   * request (its logs carry the productId of the product that started it).
+   * A failed fetch is evicted so the next product of the search can try again.
+   * `wanted` is the candidate count of the product that starts the fetch.
+   */
+  private async getCategoryImages(
+    search: ImageSearch,
+    productId: number,
+    wanted: number,
+  ): Promise<SourceImage[]> {
+    const { categorySlug } = search;
+    const key = JSON.stringify(search);
+    const cached = this.categoryCache[key];
+    if (cached) {
+      const images = await cached;
+      logger.info(
+        {
+          productId,
+          categorySlug,
+          cachedCount: images.length,
+        },
+        'Using cached source images',
+      );
+      return images;
+    }
+
+    // Not retried here, each image source retries its own requests
+    const pending = this.imageSources.fetchImagesForCategory(search, wanted);
+    this.categoryCache[key] = pending;
+
+    try {
+      const images = await pending;
+      logger.info(
+        {
+          productId,
+          categorySlug,
+          wanted,
+        },
+        'Cached source images successfully',
+      );
+      return images;
+    } catch (error) {
+      delete this.categoryCache[key];
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,43 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { describe, mock, test } from 'node:test';
+import { runCli } from '../../src/cli';
+
+/*
+ * Run the command line, returning its exit code and what it printed
+ */
+async function cli(...argv: string[]): Promise<{ exitCode?: number; output: string }> {
+  const lines: string[] = [];
+  const log = mock.method(console, 'log', (line: string) => lines.push(line));
+  const error = mock.method(console, 'error', (line: string) => lines.push(line));
+  try {
+    const exitCode = await runCli(argv);
+    return { exitCode, output: lines.join('\n') };
+  } finally {
+    log.mock.restore();
+    error.mock.restore();
+  }
+}
+
+describe('queue command', () => {
+  test('lists the dead-lettered events', async () => {
+    const { exitCode, output } = await cli('queue', 'dead-letters');
+
+    assert.strictEqual(exitCode, 0);
+    assert.match(output, /0 dead-lettered events in memory queue/);
+  });
+
+  test('queues the dead-lettered events again with --requeue', async () => {
+    const { exitCode, output } = await cli('queue', 'dead-letters', '--requeue');
+
+    assert.strictEqual(exitCode, 0);
+    assert.match(output, /Queued 0 dead-lettered events again/);
+  });
+
+  test('refuses an unknown action', async () => {
+    const { exitCode, output } = await cli('queue', 'stuck');
+
+    assert.strictEqual(exitCode, 2);
+    assert.match(output, /Unknown queue action stuck/);
+  });
+});
@@ -0,0 +1,126 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { ConfigError, displayValue, loadConfig } from '../../src/config/configLoader';
+import { testDir } from '../helpers/env';
+
+// The required settings, local storage needs no credentials
+const REQUIRED = {
+  UNSPLASH_ACCESS_KEY: 'key',
+  LARAVEL_API_BASE_URL: 'http://laravel.test/api',
+  LARAVEL_API_TOKEN: 'token',
+  STORAGE_BACKEND: 'local',
+};
+
+async function configFile(fileName: string, content: string): Promise<string> {
+  const filePath = path.join(testDir, fileName);
+  await fs.writeFile(filePath, content, 'utf-8');
+  return filePath;
+}
+
+describe('loadConfig', () => {
+  test('falls back to the schema defaults', () => {
+    const { config, profile, sources } = loadConfig(REQUIRED);
+
+    assert.strictEqual(config.retryAttempts, 3);
+    assert.strictEqual(config.dedupeEnabled, true);
+    assert.strictEqual(profile, undefined);
+    assert.strictEqual(sources.retryAttempts, 'default');
+    assert.strictEqual(sources.storageBackend, 'env');
+  });
+
+  test('layers the profile, the config file and the environment, in that order', async () => {
+    const file = await configFile(
+      'config.yaml',
+      'profile: dev\nretryAttempts: 5\nimagesPerProduct: 6\n',
+    );
+
+    const { config, profile, sources } = loadConfig({
+      ...REQUIRED,
+      CONFIG_FILE: file,
+      IMAGES_PER_PRODUCT: '8',
+      // Empty counts as unset
+      IMAGE_QUALITY: '',
+    });
+
+    assert.strictEqual(profile, 'dev');
+    assert.deepStrictEqual(
+      [
+        config.ingestionConcurrency,
+        config.retryAttempts,
+        config.imagesPerProduct,
+        config.imageQuality,
+      ],
+      [2, 5, 8, 82],
+    );
+    assert.deepStrictEqual(
+      [sources.ingestionConcurrency, sources.retryAttempts, sources.imagesPerProduct],
+      ['profile', 'file', 'env'],
+    );
+  });
+
+  test('applies CONFIG_PROFILE over the profile of the config file', async () => {
+    const file = await configFile('config.json', JSON.stringify({ profile: 'dev' }));
+
+    const { config, profile } = loadConfig({
+      ...REQUIRED,
+      STORAGE_BACKEND: '',
+      CONFIG_FILE: file,
+      CONFIG_PROFILE: 'staging',
+      CLOUDINARY_CLOUD_NAME: 'cloud',
+      CLOUDINARY_API_KEY: 'key',
+      CLOUDINARY_API_SECRET: 'secret',
+    });
+
+    assert.strictEqual(profile, 'staging');
+    assert.strictEqual(config.cloudinaryUploadFolder, 'staging/products');
+  });
+
+  test('reports every problem at once', async () => {
+    const file = await configFile('invalid.json', JSON.stringify({ retryAtempts: 5 }));
+
+    assert.throws(
+      () =>
+        loadConfig({
+          CONFIG_FILE: file,
+          CONFIG_PROFILE: 'qa',
+          UNSPLASH_ACCESS_KEY: 'key',
+          LARAVEL_API_BASE_URL: 'ftp://laravel.test',
+          RETRY_ATTEMPTS: 'three',
+          DEDUPE_ENABLED: 'yes',
+        }),
+      (error: unknown) => {
+        assert.ok(error instanceof ConfigError);
+        assert.deepStrictEqual(error.errors, [
+          `${file}: unknown setting retryAtempts`,
+          'CONFIG_PROFILE must be one of dev, staging, prod, got "qa"',
+          'LARAVEL_API_BASE_URL must be an http(s) URL, got "ftp://laravel.test"',
+          'RETRY_ATTEMPTS must be a number, got "three"',
+          'DEDUPE_ENABLED must be true or false, got "yes"',
+          'Missing required setting CLOUDINARY_CLOUD_NAME',
+          'Missing required setting CLOUDINARY_API_KEY',
+          'Missing required setting CLOUDINARY_API_SECRET',
+          'Missing required setting LARAVEL_API_TOKEN',
+        ]);
+        return true;
+      },
+    );
+  });
+
+  test('refuses a config file that cannot be read', () => {
+    assert.throws(
+      () => loadConfig({ ...REQUIRED, CONFIG_FILE: path.join(testDir, 'missing.yaml') }),
+      /CONFIG_FILE .*missing\.yaml cannot be read/,
+    );
+  });
+});
+
+describe('displayValue', () => {
+  test('masks secrets and shows unset values', () => {
+    assert.strictEqual(displayValue('laravelApiToken', 'token'), '********');
+    assert.strictEqual(displayValue('retryAttempts', 3), '3');
+    assert.strictEqual(displayValue('redisUrl', ''), '(unset)');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Hermetic configuration of a test process, imported by every test file BEFORE any module
+ * of src/ (the configuration is resolved once, when src/config/env.ts is loaded):
+ * - fake credentials, every data file in a temporary directory (removed on exit)
+ * - local storage, Unsplash as the only image source
+ * - fast retries, no log output
+ * - the Cloudinary SDK talks plain HTTP, to the fake of test/helpers/fakeCloudinary.ts
+ *
+ * `node --test` runs each test file in its own process, so files do not share the
+ * circuit breakers, rate limiter or metrics of src/.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const testDir = mkdtempSync(path.join(os.tmpdir(), 'image-ingestion-test-'));
+process.on('exit', () => rmSync(testDir, { recursive: true, force: true }));
+export const fixturesDir = path.join(__dirname, '..', 'fixtures');
+
+export const UNSPLASH_ACCESS_KEY = 'test-unsplash-key';
+export const LARAVEL_API_TOKEN = 'test-laravel-token';
+export const CLOUDINARY_CLOUD_NAME = 'test-cloud';
+export const CLOUDINARY_API_KEY = 'test-cloudinary-key';
+export const CONTROL_API_TOKEN = 'test-control-token';
+
+Object.assign(process.env, {
+  LOG_LEVEL: 'silent',
+  UNSPLASH_ACCESS_KEY,
+  UNSPLASH_RATE_LIMIT: '1000',
+  UNSPLASH_RATE_WINDOW_MS: '1000',
+  // Never reached: tests pass HTTP clients on their fakes
+  LARAVEL_API_BASE_URL: 'http://127.0.0.1:9',
+  LARAVEL_API_TOKEN,
+  STORAGE_BACKEND: 'local',
+  LOCAL_STORAGE_DIR: path.join(testDir, 'storage'),
+  CLOUDINARY_CLOUD_NAME,
+  CLOUDINARY_API_KEY,
+  CLOUDINARY_API_SECRET: 'test-cloudinary-secret',
+  // Selects the SDK's http client when it loads, the fake sets the real address
+  CLOUDINARY_URL: `cloudinary://${CLOUDINARY_API_KEY}:secret@${CLOUDINARY_CLOUD_NAME}?upload_prefix=http://127.0.0.1`,
+  CONTROL_API_TOKEN,
+  PRODUCT_INPUT_JSON_PATH: path.join(fixturesDir, 'products.json'),
+  IMAGE_SOURCES_CONFIG_PATH: path.join(fixturesDir, 'image-sources.json'),
+  RUN_JOURNAL_DIR: path.join(testDir, 'runs'),
+  RUN_REPORT_DIR: path.join(testDir, 'reports'),
+  PHASH_INDEX_PATH: path.join(testDir, 'hash-index.json'),
+  IMAGES_PER_PRODUCT: '2',
+  IMAGE_CONCURRENCY: '2',
+  INGESTION_CONCURRENCY: '2',
+  RETRY_ATTEMPTS: '3',
+  RETRY_BACKOFF_MS: '5',
+  RETRY_MAX_ELAPSED_MS: '5000',
+  CIRCUIT_BREAKER_THRESHOLD: '50',
+});
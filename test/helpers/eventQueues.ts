@@ -0,0 +1,102 @@
+/**
+ * Behaviour every ProductEventQueue shares (see types/queue.ts), run against each backend
+ * from its own test file. `create` returns an empty queue, closed after each test.
+ */
+
+import assert from 'node:assert';
+import { afterEach, beforeEach, test } from 'node:test';
+import { ProductEvent, ProductEventQueue } from '../../src/types/queue';
+
+export function productEvent(productId: number, id = `evt-${productId}`): ProductEvent {
+  return {
+    id,
+    product: {
+      id: productId,
+      name: `Product ${productId}`,
+      slug: `product-${productId}`,
+      status: 'active',
+      categories: [2],
+    },
+    receivedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function eventQueueBehaviour(create: () => Promise<ProductEventQueue>): void {
+  let queue: ProductEventQueue;
+
+  beforeEach(async () => {
+    queue = await create();
+  });
+  afterEach(() => queue.close());
+
+  test('delivers events in order, each product once', async () => {
+    assert.strictEqual(await queue.enqueue(productEvent(1)), true);
+    assert.strictEqual(await queue.enqueue(productEvent(2)), true);
+    assert.strictEqual(await queue.enqueue(productEvent(1, 'evt-again')), false);
+
+    assert.strictEqual((await queue.reserve(0))?.id, 'evt-1');
+    assert.strictEqual((await queue.reserve(0))?.id, 'evt-2');
+    assert.strictEqual(await queue.reserve(0), undefined);
+  });
+
+  test('waits for an event queued while reserving', async () => {
+    const reserved = queue.reserve(1000);
+    await sleep(20);
+    await queue.enqueue(productEvent(1));
+
+    assert.strictEqual((await reserved)?.id, 'evt-1');
+  });
+
+  test('lets an acked product be queued again', async () => {
+    await queue.enqueue(productEvent(1));
+    const event = (await queue.reserve(0))!;
+    assert.strictEqual(await queue.enqueue(productEvent(1, 'evt-again')), false);
+
+    await queue.ack(event);
+
+    assert.strictEqual(await queue.enqueue(productEvent(1, 'evt-again')), true);
+  });
+
+  test('delivers a retried event again once its delay is over', async () => {
+    await queue.enqueue(productEvent(1));
+    const event = (await queue.reserve(0))!;
+
+    await queue.retry({ ...event, attempts: 1 }, 50);
+
+    assert.strictEqual(await queue.reserve(0), undefined);
+    // Still queued while it waits
+    assert.strictEqual(await queue.enqueue(productEvent(1, 'evt-again')), false);
+    await sleep(60);
+    assert.strictEqual((await queue.reserve(0))?.attempts, 1);
+  });
+
+  test('keeps dead letters until they are queued again with fresh attempts', async () => {
+    await queue.enqueue(productEvent(1));
+    const event = (await queue.reserve(0))!;
+
+    await queue.deadLetter({ ...event, attempts: 5, lastError: { message: 'Refused' } });
+
+    const [dead] = await queue.deadLetters();
+    assert.strictEqual(dead.id, 'evt-1');
+    assert.ok(dead.deadLetteredAt);
+    assert.strictEqual(await queue.requeueDeadLetters(), 1);
+    assert.deepStrictEqual(await queue.deadLetters(), []);
+    const requeued = await queue.reserve(0);
+    assert.strictEqual(requeued?.attempts, 0);
+    assert.strictEqual(requeued?.deadLetteredAt, undefined);
+  });
+
+  test('queues the events left reserved again on recover', async () => {
+    await queue.enqueue(productEvent(1));
+    await queue.enqueue(productEvent(2));
+    await queue.reserve(0);
+
+    assert.strictEqual(await queue.recover(), 1);
+
+    assert.strictEqual((await queue.reserve(0))?.id, 'evt-1');
+    assert.strictEqual((await queue.reserve(0))?.id, 'evt-2');
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * Fake Cloudinary, for the SDK configured by test/helpers/env.ts (start() points its
+ * upload_prefix at the fake):
+ * - POST /v1_1/:cloud/image/upload       multipart upload, with eager derivatives
+ * - POST /v1_1/:cloud/image/explicit     derivatives of a stored image, generated again
+ * - POST /v1_1/:cloud/image/destroy      delete one image
+ * - GET|DELETE /v1_1/:cloud/resources/image/upload?prefix=   Admin API list / delete
+ * - DELETE /v1_1/:cloud/folders/:folder  delete an (empty) folder
+ * - GET /v1_1/:cloud/ping
+ * - GET|HEAD /:cloud/image/upload/...    the delivery URLs of stored images and derivatives
+ *
+ * Upload API calls need the configured api_key. Stored images are kept in `assets`, by
+ * public_id, and served as uploaded (never transformed). Derivatives only exist: they
+ * answer with an empty body.
+ */
+
+import { v2 as cloudinary } from 'cloudinary';
+import sharp from 'sharp';
+import { CLOUDINARY_API_KEY, CLOUDINARY_CLOUD_NAME } from './env';
+import { FakeResponse, FakeServer, RecordedRequest } from './fakeServer';
+
+export type FakeAsset = {
+  public_id: string;
+  secure_url: string;
+  width: number;
+  height: number;
+  bytes: number;
+  format: string;
+  // Fields of the upload call (folder, context, tags, eager...)
+  params: Record<string, string>;
+  file: Buffer;
+  eager: { secure_url: string; width: number; height: number; bytes: number; format: string }[];
+};
+
+/*
+ * Fields and file of a multipart/form-data body
+ */
+function parseMultipart(request: RecordedRequest): {
+  fields: Record<string, string>;
+  file?: Buffer;
+} {
+  const boundary = String(request.headers['content-type']).match(/boundary=(.+)$/)?.[1];
+  const fields: Record<string, string> = {};
+  let file: Buffer | undefined;
+  if (!boundary) return { fields };
+
+  const delimiter = Buffer.from(`--${boundary}`);
+  let start = request.body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = request.body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+
+    // Between the delimiters: CRLF, headers, empty line, content, CRLF
+    const part = request.body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const headers = part.subarray(0, headerEnd).toString('utf-8');
+    const content = part.subarray(headerEnd + 4);
+    const name = headers.match(/name="([^"]+)"/)?.[1];
+    if (name === 'file') file = content;
+    else if (name) fields[name] = content.toString('utf-8');
+    start = next;
+  }
+  return { fields, file };
+}
+
+function form(request: RecordedRequest): Record<string, string> {
+  if (request.method === 'GET') return Object.fromEntries(request.query);
+  return Object.fromEntries(new URLSearchParams(request.body.toString('utf-8')));
+}
+
+export class FakeCloudinary extends FakeServer {
+  readonly assets = new Map<string, FakeAsset>();
+  readonly destroyed: string[] = [];
+
+  async start(): Promise<this> {
+    await super.start();
+    cloudinary.config({ upload_prefix: this.url });
+    return this;
+  }
+
+  uploads(): RecordedRequest[] {
+    return this.requestsTo('POST', /\/image\/upload$/);
+  }
+
+  protected route(request: RecordedRequest) {
+    const delivery = `/${CLOUDINARY_CLOUD_NAME}/image/upload/`;
+    if (request.path.startsWith(delivery)) return () => this.deliver(request.path);
+
+    const api = request.path.match(new RegExp(`^/v1_1/${CLOUDINARY_CLOUD_NAME}/(.+)$`));
+    if (!api) return undefined;
+    const [, action] = api;
+
+    if (request.method === 'POST' && action.startsWith('image/')) {
+      const { fields, file } = parseMultipart(request);
+      if (fields.api_key !== CLOUDINARY_API_KEY) {
+        return () => ({ status: 401, body: { error: { message: 'Invalid api_key' } } });
+      }
+      if (action === 'image/upload') return () => this.upload(fields, file);
+      if (action === 'image/explicit') return () => this.explicit(fields);
+      if (action === 'image/destroy') return () => this.destroy(fields.public_id);
+      return undefined;
+    }
+
+    if (request.headers.authorization !== this.basicAuth()) {
+      return () => ({ status: 401, body: { error: { message: 'Invalid credentials' } } });
+    }
+    if (action === 'ping') return () => ({ body: { status: 'ok' } });
+    if (action === 'resources/image/upload') {
+      const { prefix = '' } = form(request);
+      if (request.method === 'GET') return () => this.resources(prefix);
+      if (request.method === 'DELETE') return () => this.destroyPrefix(prefix);
+    }
+    if (request.method === 'DELETE' && action.startsWith('folders/')) {
+      return () => ({ body: { deleted: [decodeURIComponent(action.slice('folders/'.length))] } });
+    }
+    return undefined;
+  }
+
+  private basicAuth(): string {
+    const { api_key, api_secret } = cloudinary.config();
+    return `Basic ${Buffer.from(`${api_key}:${api_secret}`).toString('base64')}`;
+  }
+
+  private async upload(fields: Record<string, string>, file?: Buffer): Promise<FakeResponse> {
+    if (!file || file.length === 0) {
+      return { status: 400, body: { error: { message: 'Missing required parameter - file' } } };
+    }
+
+    const publicId = [fields.folder, fields.public_id].filter(Boolean).join('/');
+    const metadata = await sharp(file).metadata();
+    const format = fields.format || metadata.format || 'jpg';
+    const asset: FakeAsset = {
+      public_id: publicId,
+      secure_url: this.deliveryUrl(`v1/${publicId}.${format}`),
+      width: metadata.width ?? 0,
+      height: metadata.height ?? 0,
+      bytes: file.length,
+      format,
+      params: fields,
+      file,
+      eager: this.eager(publicId, fields.eager),
+    };
+    this.assets.set(publicId, asset);
+
+    const { params, file: _file, ...response } = asset;
+    return { body: response };
+  }
+
+  private explicit(fields: Record<string, string>): FakeResponse {
+    const asset = this.assets.get(fields.public_id);
+    if (!asset) {
+      return {
+        status: 404,
+        body: { error: { message: `Resource not found - ${fields.public_id}` } },
+      };
+    }
+    asset.eager = this.eager(asset.public_id, fields.eager);
+    return { body: { public_id: asset.public_id, eager: asset.eager } };
+  }
+
+  private destroy(publicId: string): FakeResponse {
+    const found = this.assets.delete(publicId);
+    if (found) this.destroyed.push(publicId);
+    return { body: { result: found ? 'ok' : 'not found' } };
+  }
+
+  private resources(prefix: string): FakeResponse {
+    const resources = [...this.assets.values()]
+      .filter((asset) => asset.public_id.startsWith(prefix))
+      .map(({ params, file, eager, ...resource }) => resource);
+    return { body: { resources } };
+  }
+
+  private destroyPrefix(prefix: string): FakeResponse {
+    const deleted: Record<string, string> = {};
+    for (const publicId of [...this.assets.keys()]) {
+      if (!publicId.startsWith(prefix)) continue;
+      this.destroy(publicId);
+      deleted[publicId] = 'deleted';
+    }
+    return { body: { deleted, partial: false } };
+  }
+
+  /*
+   * Results of the eager transformations "w_400,h_400,c_fill,q_80/webp|...", in order
+   */
+  private eager(publicId: string, eager?: string): FakeAsset['eager'] {
+    if (!eager) return [];
+
+    return eager.split('|').map((transformation) => {
+      const [options, format = 'jpg'] = transformation.split('/');
+      const option = (key: string) =>
+        Number(options.match(new RegExp(`\\b${key}_(\\d+)`))?.[1] ?? 0);
+      return {
+        secure_url: this.deliveryUrl(`${options}/v1/${publicId}.${format}`),
+        width: option('w'),
+        height: option('h'),
+        bytes: 1024,
+        format,
+      };
+    });
+  }
+
+  private deliveryUrl(path: string): string {
+    return `${this.url}/${CLOUDINARY_CLOUD_NAME}/image/upload/${path}`;
+  }
+
+  private deliver(path: string): FakeResponse {
+    const url = `${this.url}${path}`;
+    for (const asset of this.assets.values()) {
+      if (asset.secure_url === url) {
+        return { headers: { 'Content-Type': 'image/webp' }, body: asset.file };
+      }
+      if (asset.eager.some((eager) => eager.secure_url === url)) {
+        return { headers: { 'Content-Type': 'image/webp' }, body: '' };
+      }
+    }
+    return { status: 404 };
+  }
+}
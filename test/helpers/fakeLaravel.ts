@@ -0,0 +1,90 @@
+/**
+ * Fake Laravel ingest API, for LaravelApiClient:
+ * - GET /ingest/products/:id/images            registered images, `{ data: [...] }`
+ * - POST /ingest/products/:id/images           register `imageData`, upserted by public_id
+ * - DELETE /ingest/products/:id/images         unregister `public_ids`, or every image
+ * - GET /ingest/products/missing-images?page=  `missingImages`, paginated by `pageSize`
+ *
+ * Calls need the `X-Internal-Token`. Registered images are kept in `images`, by product id.
+ */
+
+import { AxiosInstance } from 'axios';
+import { createLaravelHttpClient } from '../../src/services/LaravelApiClient';
+import { LARAVEL_API_TOKEN } from './env';
+import { FakeResponse, FakeServer, json, RecordedRequest } from './fakeServer';
+
+export class FakeLaravel extends FakeServer {
+  readonly images = new Map<number, any[]>();
+  // Products returned by missing-images
+  missingImages: unknown[] = [];
+  pageSize = 2;
+
+  /*
+   * HTTP client for LaravelApiClient, on this fake
+   */
+  client(): AxiosInstance {
+    return createLaravelHttpClient(this.url, LARAVEL_API_TOKEN);
+  }
+
+  registrations(productId?: number): RecordedRequest[] {
+    return this.requestsTo('POST', new RegExp(`^/ingest/products/${productId ?? '\\d+'}/images$`));
+  }
+
+  protected route(request: RecordedRequest) {
+    if (request.headers['x-internal-token'] !== LARAVEL_API_TOKEN) {
+      return () => ({ status: 401, body: { message: 'Unauthenticated.' } });
+    }
+
+    if (request.method === 'GET' && request.path === '/ingest/products/missing-images') {
+      return () => this.missing(Number(request.query.get('page') ?? 1));
+    }
+
+    const match = request.path.match(/^\/ingest\/products\/(\d+)\/images$/);
+    if (!match) return undefined;
+    const productId = Number(match[1]);
+
+    if (request.method === 'GET')
+      return () => ({ body: { data: this.images.get(productId) ?? [] } });
+    if (request.method === 'POST') return () => this.register(productId, json(request));
+    if (request.method === 'DELETE') return () => this.unregister(productId, json(request));
+    return undefined;
+  }
+
+  private register(productId: number, body: any): FakeResponse {
+    if (!Array.isArray(body.imageData) || body.imageData.length === 0) {
+      return {
+        status: 422,
+        body: { message: 'The image data field is required.', errors: { imageData: ['required'] } },
+      };
+    }
+
+    const images = this.images.get(productId) ?? [];
+    for (const image of body.imageData) {
+      const existing = images.findIndex((candidate) => candidate.public_id === image.public_id);
+      if (existing === -1) images.push(image);
+      else images[existing] = image;
+    }
+    this.images.set(productId, images);
+    return { status: 201, body: { data: images } };
+  }
+
+  private unregister(productId: number, body: any): FakeResponse {
+    const publicIds: string[] | undefined = body.public_ids;
+    const images = (this.images.get(productId) ?? []).filter(
+      (image) => publicIds && !publicIds.includes(image.public_id),
+    );
+    this.images.set(productId, images);
+    return { status: 204 };
+  }
+
+  private missing(page: number): FakeResponse {
+    const lastPage = Math.max(1, Math.ceil(this.missingImages.length / this.pageSize));
+    return {
+      body: {
+        data: this.missingImages.slice((page - 1) * this.pageSize, page * this.pageSize),
+        current_page: page,
+        last_page: lastPage,
+      },
+    };
+  }
+}
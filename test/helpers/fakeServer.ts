@@ -0,0 +1,135 @@
+/**
+ * Base of the in-process fakes of external APIs: an HTTP server on a random local port
+ * that records every request and answers injected failures before its routes.
+ * Requests matching a hold wait, unanswered, until the hold is released.
+ */
+
+import http, { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+};
+
+export type FakeResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  // Objects are sent as JSON
+  body?: unknown;
+};
+
+/**
+ * An injected failure: the next `times` requests matching `method` and `path` get
+ * `status` (and `body`), or have their connection destroyed with `status: 'reset'`.
+ */
+export type Failure = {
+  method?: string;
+  path?: RegExp;
+  status: number | 'reset';
+  times?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+type Hold = {
+  method?: string;
+  path?: RegExp;
+  released: Promise<void>;
+};
+
+type Route = (request: RecordedRequest) => FakeResponse | Promise<FakeResponse>;
+
+export abstract class FakeServer {
+  readonly requests: RecordedRequest[] = [];
+  private readonly failures: (Failure & { times: number })[] = [];
+  private readonly holds: Hold[] = [];
+  private readonly server = http.createServer((req, res) => this.handle(req, res));
+  url = '';
+
+  async start(): Promise<this> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  fail(failure: Failure): void {
+    this.failures.push({ ...failure, times: failure.times ?? 1 });
+  }
+
+  /*
+   * Keep the requests matching `method` and `path` open until the returned function is called
+   */
+  hold({ method, path }: { method?: string; path?: RegExp } = {}): () => void {
+    let release!: () => void;
+    const hold: Hold = { method, path, released: new Promise((resolve) => (release = resolve)) };
+    this.holds.push(hold);
+    return () => {
+      this.holds.splice(this.holds.indexOf(hold), 1);
+      release();
+    };
+  }
+
+  requestsTo(method: string, path: RegExp): RecordedRequest[] {
+    return this.requests.filter((request) => request.method === method && path.test(request.path));
+  }
+
+  protected abstract route(request: RecordedRequest): Route | undefined;
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    const url = new URL(req.url ?? '/', 'http://fake');
+    const request: RecordedRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body: Buffer.concat(chunks),
+    };
+    this.requests.push(request);
+
+    const matches = (candidate: { method?: string; path?: RegExp }) =>
+      (!candidate.method || candidate.method === request.method) &&
+      (!candidate.path || candidate.path.test(request.path));
+    await this.holds.find(matches)?.released;
+
+    const failure = this.failures.find((candidate) => candidate.times > 0 && matches(candidate));
+    let response: FakeResponse;
+    if (failure) {
+      failure.times--;
+      if (failure.status === 'reset') {
+        req.socket.destroy();
+        return;
+      }
+      response = { status: failure.status, headers: failure.headers, body: failure.body ?? {} };
+    } else {
+      const route = this.route(request);
+      response = route ? await route(request) : { status: 404, body: { error: 'Not found' } };
+    }
+
+    const { status = 200, headers = {}, body } = response;
+    const payload =
+      body === undefined || Buffer.isBuffer(body) || typeof body === 'string'
+        ? body
+        : JSON.stringify(body);
+    res.writeHead(status, {
+      ...(payload !== body || body === undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...headers,
+    });
+    res.end(request.method === 'HEAD' ? undefined : payload);
+  }
+}
+
+export function json(request: RecordedRequest): any {
+  return request.body.length > 0 ? JSON.parse(request.body.toString('utf-8')) : {};
+}
@@ -0,0 +1,141 @@
+/**
+ * Fake Unsplash API:
+ * - GET /search/photos?query=&page=&per_page=   `photosPerQuery` photos per query, paginated
+ *   by per_page (at most `pageSize`), each one served by the fake as a unique JPEG
+ * - GET /photos/:id/download                     download tracking
+ * - GET /images/:id.jpg                          the photo itself
+ *
+ * Like Unsplash, API calls need `Authorization: Client-ID <key>` and report the hourly
+ * quota in X-Ratelimit-Limit / X-Ratelimit-Remaining. Once it is spent, calls get 403
+ * "Rate Limit Exceeded" until `rateWindowMs` has passed since the first call.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { UNSPLASH_ACCESS_KEY } from './env';
+import { FakeResponse, FakeServer, RecordedRequest } from './fakeServer';
+import { testPhoto } from './images';
+
+type FakeUnsplashOptions = {
+  photosPerQuery?: number;
+  pageSize?: number;
+  rateLimit?: number;
+  rateWindowMs?: number;
+};
+
+export class FakeUnsplash extends FakeServer {
+  readonly trackedDownloads: string[] = [];
+  private readonly photosPerQuery: number;
+  private readonly pageSize: number;
+  private readonly rateLimit: number;
+  private readonly rateWindowMs: number;
+  private remaining: number;
+  private windowStartedAt?: number;
+  private readonly images = new Map<string, Promise<Buffer>>();
+
+  constructor(options: FakeUnsplashOptions = {}) {
+    super();
+    this.photosPerQuery = options.photosPerQuery ?? 12;
+    this.pageSize = options.pageSize ?? 30;
+    this.rateLimit = options.rateLimit ?? 1000;
+    this.rateWindowMs = options.rateWindowMs ?? 60 * 60 * 1000;
+    this.remaining = this.rateLimit;
+  }
+
+  /*
+   * HTTP client for UnsplashService, on this fake
+   */
+  client(): AxiosInstance {
+    return axios.create({ baseURL: this.url, timeout: 5000 });
+  }
+
+  searches(): RecordedRequest[] {
+    return this.requestsTo('GET', /^\/search\/photos$/);
+  }
+
+  protected route(request: RecordedRequest) {
+    const image = request.path.match(/^\/images\/([\w-]+)\.jpg$/);
+    if (image) return () => this.image(image[1]);
+
+    if (request.headers.authorization !== `Client-ID ${UNSPLASH_ACCESS_KEY}`) {
+      return () => ({
+        status: 401,
+        body: { errors: ['OAuth error: The access token is invalid'] },
+      });
+    }
+
+    if (request.path === '/search/photos') return () => this.limited(() => this.search(request));
+
+    const download = request.path.match(/^\/photos\/([\w-]+)\/download$/);
+    if (download) {
+      return () =>
+        this.limited(() => {
+          this.trackedDownloads.push(download[1]);
+          return { body: { url: `${this.url}/images/${download[1]}.jpg` } };
+        });
+    }
+    return undefined;
+  }
+
+  /*
+   * Takes one call from the quota, refusing it once the quota is spent
+   */
+  private limited(respond: () => FakeResponse): FakeResponse {
+    const now = Date.now();
+    if (this.windowStartedAt === undefined || now - this.windowStartedAt >= this.rateWindowMs) {
+      this.windowStartedAt = now;
+      this.remaining = this.rateLimit;
+    }
+
+    if (this.remaining === 0) {
+      return {
+        status: 403,
+        headers: this.rateHeaders(),
+        body: 'Rate Limit Exceeded',
+      };
+    }
+    this.remaining--;
+
+    const response = respond();
+    return { ...response, headers: { ...response.headers, ...this.rateHeaders() } };
+  }
+
+  private rateHeaders(): Record<string, string> {
+    return {
+      'X-Ratelimit-Limit': String(this.rateLimit),
+      'X-Ratelimit-Remaining': String(this.remaining),
+    };
+  }
+
+  private search(request: RecordedRequest): FakeResponse {
+    const query = request.query.get('query') ?? '';
+    const page = Number(request.query.get('page') ?? 1);
+    const perPage = Math.min(Number(request.query.get('per_page') ?? 10), this.pageSize);
+
+    const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const ids = Array.from({ length: this.photosPerQuery }, (_, i) => `${slug}-${i}`);
+    const results = ids.slice((page - 1) * perPage, page * perPage).map((id) => ({
+      id,
+      alt_description: `${query} photo ${id}`,
+      description: null,
+      urls: { regular: `${this.url}/images/${id}.jpg` },
+      links: {
+        html: `https://unsplash.com/photos/${id}`,
+        download_location: `${this.url}/photos/${id}/download`,
+      },
+      user: { name: 'Test Photographer', links: { html: 'https://unsplash.com/@test' } },
+    }));
+
+    return {
+      body: {
+        total: ids.length,
+        total_pages: Math.ceil(ids.length / perPage),
+        results,
+      },
+    };
+  }
+
+  private async image(id: string): Promise<FakeResponse> {
+    if (!this.images.has(id)) this.images.set(id, testPhoto(id));
+    return { headers: { 'Content-Type': 'image/jpeg' }, body: await this.images.get(id)! };
+  }
+}
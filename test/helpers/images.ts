@@ -0,0 +1,18 @@
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+/*
+ * A JPEG photo unique to `seed`: a grid of gray blocks whose levels derive from the seed,
+ * so that the perceptual hashes of two seeds are far apart (no false near-duplicates).
+ * 640x800 by default, portrait like a product photo and above the minimum resolution.
+ */
+export async function testPhoto(seed: string, width = 640, height = 800): Promise<Buffer> {
+  const levels = createHash('sha256').update(seed).digest();
+  const grid = Buffer.alloc(9 * 8);
+  for (let i = 0; i < grid.length; i++) grid[i] = levels[i % levels.length];
+
+  return await sharp(grid, { raw: { width: 9, height: 8, channels: 1 } })
+    .resize(width, height, { kernel: 'nearest', fit: 'fill' })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+}
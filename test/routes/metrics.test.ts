@@ -0,0 +1,21 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { after, before, describe, test } from 'node:test';
+import { FastifyInstance } from 'fastify';
+import { buildServer } from '../../src/server';
+
+describe('GET /metrics', () => {
+  let server: FastifyInstance;
+
+  before(() => {
+    server = buildServer();
+  });
+  after(() => server.close());
+
+  test('is served to Prometheus without the control API token', async () => {
+    const response = await server.inject({ method: 'GET', url: '/metrics' });
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.match(response.headers['content-type'] as string, /^text\/plain/);
+  });
+});
@@ -0,0 +1,40 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { after, before, describe, test } from 'node:test';
+import { FastifyInstance } from 'fastify';
+import { buildServer } from '../../src/server';
+import { RunJournal } from '../../src/services/RunJournal';
+import { CONTROL_API_TOKEN } from '../helpers/env';
+
+describe('POST /products/:id/reingest', () => {
+  let server: FastifyInstance;
+
+  before(() => {
+    server = buildServer();
+  });
+  after(() => server.close());
+
+  test('answers 404 for an unknown product without starting a run', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/products/99/reingest',
+      headers: { 'X-Internal-Token': CONTROL_API_TOKEN },
+    });
+
+    assert.strictEqual(response.statusCode, 404);
+    assert.deepStrictEqual(await RunJournal.runIds(), []);
+  });
+
+  test('needs the control API token', async () => {
+    for (const token of [undefined, 'wrong-token']) {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/products/1/reingest',
+        headers: token ? { 'X-Internal-Token': token } : {},
+      });
+
+      assert.strictEqual(response.statusCode, 401);
+    }
+    assert.deepStrictEqual(await RunJournal.runIds(), []);
+  });
+});
@@ -0,0 +1,82 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, before, beforeEach, describe, test } from 'node:test';
+import Fastify, { FastifyInstance } from 'fastify';
+import webhookRoutes from '../../src/routes/webhooks';
+import { InMemoryEventQueue } from '../../src/services/InMemoryEventQueue';
+import { ProductEventIntake } from '../../src/services/ProductEventIntake';
+import { signPayload } from '../../src/utils/webhookSignature';
+import { fixturesDir } from '../helpers/env';
+
+const SECRET = 'webhook-secret';
+
+describe('POST /webhooks/products', () => {
+  let queue: InMemoryEventQueue;
+  let server: FastifyInstance;
+  let product: unknown;
+
+  before(async () => {
+    const products = JSON.parse(
+      await fs.readFile(path.join(fixturesDir, 'products.json'), 'utf-8'),
+    );
+    product = products[1];
+  });
+
+  beforeEach(async () => {
+    queue = new InMemoryEventQueue();
+    server = Fastify();
+    server.register(webhookRoutes, { intake: new ProductEventIntake(queue), secret: SECRET });
+    await server.ready();
+  });
+  afterEach(() => server.close());
+
+  function post(payload: string, secret = SECRET) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return server.inject({
+      method: 'POST',
+      url: '/webhooks/products',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Signature-Timestamp': timestamp,
+        'X-Signature': signPayload(secret, timestamp, payload),
+      },
+      payload,
+    });
+  }
+
+  test('queues the product of a signed event', async () => {
+    const payload = JSON.stringify({ event: 'product.created', event_id: 'evt-1', product });
+
+    const response = await post(payload);
+
+    assert.strictEqual(response.statusCode, 202);
+    assert.deepStrictEqual(response.json(), { eventId: 'evt-1', productId: 2, queued: true });
+    assert.strictEqual((await post(payload)).json().queued, false);
+    assert.strictEqual((await queue.reserve(0))?.product.id, 2);
+  });
+
+  test('refuses unsigned requests and wrong signatures', async () => {
+    const payload = JSON.stringify({ event: 'product.created', product });
+
+    const unsigned = await server.inject({
+      method: 'POST',
+      url: '/webhooks/products',
+      headers: { 'Content-Type': 'application/json' },
+      payload,
+    });
+
+    assert.strictEqual(unsigned.statusCode, 401);
+    assert.strictEqual((await post(payload, 'other-secret')).statusCode, 401);
+    assert.strictEqual(await queue.reserve(0), undefined);
+  });
+
+  test('answers 400 to a body that is not JSON and 422 to an invalid event', async () => {
+    assert.strictEqual((await post('{"event":')).statusCode, 400);
+
+    const invalid = await post(JSON.stringify({ event: 'product.created', product: { id: 9 } }));
+    assert.strictEqual(invalid.statusCode, 422);
+    assert.strictEqual(invalid.json().error, 'Invalid product');
+  });
+});
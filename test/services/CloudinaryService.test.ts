@@ -0,0 +1,73 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { env } from '../../src/config/env';
+import { CloudinaryService } from '../../src/services/CloudinaryService';
+import { CloudinaryStorageBackend } from '../../src/services/CloudinaryStorageBackend';
+import { ImageRejectedError } from '../../src/utils/errors';
+import { ProcessedImage } from '../../src/types/imageProcessing';
+import { SourceImage } from '../../src/types/imageSource';
+import { backgroundPlainness, scoreImage } from '../../src/utils/imageScore';
+import { FakeCloudinary } from '../helpers/fakeCloudinary';
+import { FakeUnsplash } from '../helpers/fakeUnsplash';
+import { testPhoto } from '../helpers/images';
+
+describe('CloudinaryService with IMAGE_STREAMING', () => {
+  let unsplash: FakeUnsplash;
+  let cloudinary: FakeCloudinary;
+  let service: CloudinaryService;
+
+  const candidate = (id: string): SourceImage => ({
+    url: `${unsplash.url}/images/${id}.jpg`,
+    provider: 'unsplash',
+    id,
+  });
+
+  before(async () => {
+    env.imageStreaming = true;
+    unsplash = await new FakeUnsplash().start();
+    cloudinary = await new FakeCloudinary().start();
+  });
+  after(async () => {
+    env.imageStreaming = false;
+    await Promise.all([unsplash.close(), cloudinary.close()]);
+  });
+
+  beforeEach(() => {
+    cloudinary.requests.length = 0;
+    cloudinary.assets.clear();
+    cloudinary.destroyed.length = 0;
+    service = new CloudinaryService(new CloudinaryStorageBackend([]));
+  });
+
+  test('checks and scores the stored image once uploaded', async () => {
+    const processed: ProcessedImage[] = [];
+
+    const [uploaded] = await service.uploadAll([candidate('a')], 1, 7, {
+      categorySlug: 'hoodies',
+      onProcessed: async (_index, _url, image) => {
+        processed.push(image);
+      },
+    });
+
+    const photo = await testPhoto('a');
+    assert.strictEqual(processed.length, 1);
+    assert.deepStrictEqual(processed[0].buffer, photo);
+    assert.strictEqual(processed[0].width, 640);
+    assert.strictEqual(uploaded.score, scoreImage(640, 800, await backgroundPlainness(photo)));
+  });
+
+  test('deletes an upload refused once stored and moves to the next candidate', async () => {
+    const [uploaded] = await service.uploadAll([candidate('a'), candidate('b')], 1, 7, {
+      categorySlug: 'hoodies',
+      onProcessed: async (_index, url) => {
+        if (url.endsWith('/a.jpg')) throw new ImageRejectedError('duplicate', 'Already used');
+      },
+    });
+
+    assert.strictEqual(uploaded.source?.id, 'b');
+    assert.strictEqual(cloudinary.uploads().length, 2);
+    assert.deepStrictEqual(cloudinary.destroyed, ['products/7/image_0']);
+    assert.ok(cloudinary.assets.has('products/7/image_0'));
+  });
+});
@@ -0,0 +1,95 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { CloudinaryStorageBackend } from '../../src/services/CloudinaryStorageBackend';
+import { DerivativePreset } from '../../src/types/derivative';
+import { FakeCloudinary } from '../helpers/fakeCloudinary';
+import { testPhoto } from '../helpers/images';
+
+const presets: DerivativePreset[] = [
+  { name: 'thumbnail', width: 200, height: 200, crop: 'fill', format: 'webp', quality: 'auto' },
+  { name: 'zoom', width: 2000, height: 2000, crop: 'limit', format: 'jpg', quality: 90 },
+];
+
+describe('CloudinaryStorageBackend', () => {
+  let cloudinary: FakeCloudinary;
+  let storage: CloudinaryStorageBackend;
+  let photo: Buffer;
+
+  before(async () => {
+    photo = await testPhoto('cloudinary');
+    storage = new CloudinaryStorageBackend(presets);
+    cloudinary = await new FakeCloudinary().start();
+  });
+  after(() => cloudinary.close());
+
+  beforeEach(() => {
+    cloudinary.requests.length = 0;
+    cloudinary.assets.clear();
+  });
+
+  test('uploads under the product folder with attribution and eager derivatives', async () => {
+    const uploaded = await storage.upload(photo, '7', 0, {
+      url: 'https://images.example.com/a.jpg',
+      provider: 'unsplash',
+      id: 'abc',
+      photographer: 'Test Photographer',
+      altDescription: 'A hoodie',
+    });
+
+    assert.strictEqual(uploaded.public_id, 'products/7/image_0');
+    assert.strictEqual(uploaded.width, 640);
+    assert.strictEqual(uploaded.height, 800);
+    assert.strictEqual(uploaded.format, 'jpeg');
+    assert.deepStrictEqual(
+      uploaded.derivatives?.map(({ name, width, height, format }) => ({
+        name,
+        width,
+        height,
+        format,
+      })),
+      [
+        { name: 'thumbnail', width: 200, height: 200, format: 'webp' },
+        { name: 'zoom', width: 2000, height: 2000, format: 'jpg' },
+      ],
+    );
+
+    const { params } = cloudinary.assets.get('products/7/image_0')!;
+    assert.strictEqual(params.tags, 'unsplash,unsplash_abc');
+    assert.match(params.context, /alt=A hoodie/);
+    assert.match(params.context, /caption=Photo by Test Photographer on unsplash/);
+    assert.strictEqual(params.eager_async, '0');
+  });
+
+  test('lists, regenerates and removes stored images', async () => {
+    await storage.upload(photo, '7', 0);
+    await storage.upload(photo, '7', 1);
+    await storage.upload(photo, '8', 0);
+
+    assert.deepStrictEqual(
+      (await storage.list('7')).map((asset) => asset.public_id),
+      ['products/7/image_0', 'products/7/image_1'],
+    );
+    assert.strictEqual((await storage.derivatives('products/7/image_1')).length, 2);
+
+    await storage.remove('products/7/image_0');
+    assert.strictEqual(await storage.removeFolder('7'), 1);
+    assert.deepStrictEqual([...cloudinary.assets.keys()], ['products/8/image_0']);
+  });
+
+  test('rejects a failed upload', async () => {
+    cloudinary.fail({
+      path: /\/image\/upload$/,
+      status: 500,
+      body: { error: { message: 'Boom' } },
+    });
+
+    await assert.rejects(storage.upload(photo, '7', 0), { message: 'Boom', http_code: 500 });
+  });
+
+  test('pings the Admin API', async () => {
+    await storage.ping();
+
+    assert.strictEqual(cloudinary.requestsTo('GET', /\/ping$/).length, 1);
+  });
+});
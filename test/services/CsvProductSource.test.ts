@@ -0,0 +1,43 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { CsvProductSource } from '../../src/services/CsvProductSource';
+import { testDir } from '../helpers/env';
+
+async function write(fileName: string, content: string): Promise<string> {
+  const filePath = path.join(testDir, fileName);
+  await fs.writeFile(filePath, content, 'utf-8');
+  return filePath;
+}
+
+describe('CsvProductSource', () => {
+  test('reads rows by header, converting numbers and category lists', async () => {
+    const filePath = await write(
+      'products.csv',
+      'id,name,slug,status,price,categories\n' +
+        '1,"Tee, relaxed",relaxed-tee,active,24.9,1|3\n' +
+        'x2,Hoodie,hoodie,active,,2\n',
+    );
+
+    assert.deepStrictEqual(await new CsvProductSource(filePath).load(), [
+      {
+        location: 'products.csv line 2',
+        value: {
+          id: 1,
+          name: 'Tee, relaxed',
+          slug: 'relaxed-tee',
+          status: 'active',
+          price: 24.9,
+          categories: [1, 3],
+        },
+      },
+      {
+        // Left as text, for validation to report
+        location: 'products.csv line 3',
+        value: { id: 'x2', name: 'Hoodie', slug: 'hoodie', status: 'active', categories: [2] },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { describe, test } from 'node:test';
+import { env } from '../../src/config/env';
+import { ImageProcessor } from '../../src/services/ImageProcessor';
+import { testDir } from '../helpers/env';
+import { testPhoto } from '../helpers/images';
+
+// Built-in rules only, no rules file in the test directory
+const processor = () => new ImageProcessor(path.join(testDir, 'missing-image-rules.json'));
+
+describe('ImageProcessor', () => {
+  test('converts to the target format and strips metadata', async () => {
+    const photo = await sharp(await testPhoto('processor'))
+      .withMetadata({ exif: { IFD0: { Copyright: 'Someone' } } })
+      .jpeg()
+      .toBuffer();
+
+    const processed = await processor().process(photo, 'hoodies');
+
+    assert.deepStrictEqual(
+      [processed.format, processed.width, processed.height],
+      ['webp', 640, 800],
+    );
+    assert.strictEqual((await sharp(processed.buffer).metadata()).exif, undefined);
+  });
+
+  test('shrinks images beyond the maximum dimension', async () => {
+    env.imageMaxDimension = 400;
+    try {
+      const processed = await processor().process(await testPhoto('processor'), 'hoodies');
+
+      assert.deepStrictEqual([processed.width, processed.height], [320, 400]);
+    } finally {
+      env.imageMaxDimension = 2000;
+    }
+  });
+
+  test('rejects files that are not usable images, with their reason', async () => {
+    const photo = await testPhoto('processor');
+    const rejected = async (buffer: Buffer, reason: string) =>
+      await assert.rejects(processor().process(buffer, 'hoodies'), { reason });
+
+    await rejected(Buffer.from('<html>Not found</html>'), 'not-an-image');
+    // A BMP header: a known format sharp cannot decode
+    await rejected(Buffer.concat([Buffer.from('BM'), Buffer.alloc(64)]), 'unsupported-format');
+    await rejected(photo.subarray(0, photo.length / 2), 'truncated');
+    await rejected(await testPhoto('small', 300, 400), 'too-small');
+    await rejected(await testPhoto('banner', 2000, 600), 'bad-aspect-ratio');
+  });
+
+  test('applies the rules of the category over the default ones', async () => {
+    const configPath = path.join(testDir, 'image-rules.json');
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({ default: { minWidth: 700 }, categories: { scarves: { minWidth: 600 } } }),
+    );
+    const rules = new ImageProcessor(configPath);
+
+    await assert.rejects(rules.process(await testPhoto('scarf'), 'hoodies'), {
+      reason: 'too-small',
+    });
+    assert.strictEqual((await rules.process(await testPhoto('scarf'), 'scarves')).width, 640);
+    assert.strictEqual(rules.rulesFor('scarves').maxAspectRatio, 2);
+  });
+});
@@ -0,0 +1,8 @@
+import '../helpers/env';
+import { describe } from 'node:test';
+import { InMemoryEventQueue } from '../../src/services/InMemoryEventQueue';
+import { eventQueueBehaviour } from '../helpers/eventQueues';
+
+describe('InMemoryEventQueue', () => {
+  eventQueueBehaviour(async () => new InMemoryEventQueue());
+});
@@ -0,0 +1,81 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { CloudinaryService } from '../../src/services/CloudinaryService';
+import { CloudinaryStorageBackend } from '../../src/services/CloudinaryStorageBackend';
+import { ImageSourceRegistry } from '../../src/services/ImageSourceRegistry';
+import { IngestionManager, RunInProgressError } from '../../src/services/IngestionManager';
+import { LaravelApiClient } from '../../src/services/LaravelApiClient';
+import { RunJournal } from '../../src/services/RunJournal';
+import { UnsplashService } from '../../src/services/UnsplashService';
+import { WorkerDependencies } from '../../src/workers/ImageIngestionWorker';
+import { FakeCloudinary } from '../helpers/fakeCloudinary';
+import { fixturesDir } from '../helpers/env';
+import { FakeLaravel } from '../helpers/fakeLaravel';
+import { FakeUnsplash } from '../helpers/fakeUnsplash';
+
+describe('IngestionManager', () => {
+  let unsplash: FakeUnsplash;
+  let cloudinary: FakeCloudinary;
+  let laravel: FakeLaravel;
+  let dependencies: () => WorkerDependencies;
+
+  before(async () => {
+    unsplash = await new FakeUnsplash().start();
+    cloudinary = await new FakeCloudinary().start();
+    laravel = await new FakeLaravel().start();
+    dependencies = () => ({
+      imageSources: new ImageSourceRegistry(path.join(fixturesDir, 'image-sources.json'), {
+        unsplash: () => new UnsplashService(unsplash.client()),
+      }),
+      cloudinaryService: new CloudinaryService(new CloudinaryStorageBackend()),
+      laravelApiClient: new LaravelApiClient(laravel.client()),
+    });
+  });
+  after(async () => {
+    await Promise.all([unsplash.close(), cloudinary.close(), laravel.close()]);
+  });
+
+  async function settled(manager: IngestionManager, runId: string): Promise<void> {
+    while ((await manager.get(runId))?.state === 'running') {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  test('refuses to resume a run that is still running', async () => {
+    const journal = await RunJournal.create([1]);
+    const manager = new IngestionManager();
+    // The run stays in flight until Laravel answers
+    const release = laravel.hold();
+
+    const resumed = manager.start({ resumeRunId: journal.runId }, dependencies());
+    await assert.rejects(
+      manager.start({ resumeRunId: journal.runId }, dependencies()),
+      RunInProgressError,
+    );
+
+    await resumed;
+    await assert.rejects(
+      manager.start({ resumeRunId: journal.runId }, dependencies()),
+      RunInProgressError,
+    );
+    release();
+    await settled(manager, journal.runId);
+  });
+
+  test('drops settled runs and reports them from their journal', async () => {
+    const manager = new IngestionManager();
+
+    const { runId } = await manager.start({ productIds: [2] }, dependencies());
+    await settled(manager, runId);
+    // Removed from the workers once run() settled, after its last status
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const status = await manager.get(runId);
+    assert.strictEqual(status?.state, 'completed');
+    assert.strictEqual(status?.counts.registered, 1);
+    // No longer running: it can be resumed, with nothing left to do
+    assert.strictEqual((await manager.start({ resumeRunId: runId }, dependencies())).total, 0);
+  });
+});
@@ -0,0 +1,46 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { JsonProductSource } from '../../src/services/JsonProductSource';
+import { testDir } from '../helpers/env';
+
+async function write(fileName: string, content: string): Promise<string> {
+  const filePath = path.join(testDir, fileName);
+  await fs.writeFile(filePath, content, 'utf-8');
+  return filePath;
+}
+
+describe('JsonProductSource', () => {
+  test('reads a JSON array of products', async () => {
+    const filePath = await write('products.json', JSON.stringify([{ id: 1 }, { id: 2 }]));
+
+    assert.deepStrictEqual(await new JsonProductSource(filePath).load(), [
+      { location: 'products.json [0]', value: { id: 1 } },
+      { location: 'products.json [1]', value: { id: 2 } },
+    ]);
+  });
+
+  test('refuses a JSON file that is not an array', async () => {
+    const filePath = await write('object.json', JSON.stringify({ id: 1 }));
+
+    await assert.rejects(new JsonProductSource(filePath).load(), /must contain a JSON array/);
+  });
+
+  test('reads JSONL line by line, reporting unreadable lines', async () => {
+    const filePath = await write('products.jsonl', '{"id":1}\n\n{"id":\n{"id":3}\n');
+
+    const records = await new JsonProductSource(filePath).load();
+
+    assert.deepStrictEqual(
+      records.map((record) => [record.location, record.value]),
+      [
+        ['products.jsonl line 1', { id: 1 }],
+        ['products.jsonl line 3', undefined],
+        ['products.jsonl line 4', { id: 3 }],
+      ],
+    );
+    assert.match(records[1].error!, /^invalid JSON/);
+  });
+});
@@ -0,0 +1,124 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { LaravelApiClient } from '../../src/services/LaravelApiClient';
+import { image } from '../../src/types/image';
+import { FakeLaravel } from '../helpers/fakeLaravel';
+import { json } from '../helpers/fakeServer';
+
+function storedImage(index: number): image {
+  return {
+    secure_url: `https://res.cloudinary.com/test-cloud/image/upload/v1/products/7/image_${index}.webp`,
+    public_id: `products/7/image_${index}`,
+    width: 640,
+    height: 800,
+    bytes: 20_000,
+    format: 'webp',
+    position: index,
+    isPrimary: index === 0,
+    source: {
+      url: `https://images.example.com/${index}.jpg`,
+      provider: 'unsplash',
+      id: `photo-${index}`,
+      photographer: 'Test Photographer',
+      altDescription: 'A hoodie',
+    },
+  };
+}
+
+describe('LaravelApiClient', () => {
+  let laravel: FakeLaravel;
+  let client: LaravelApiClient;
+
+  before(async () => {
+    laravel = await new FakeLaravel().start();
+  });
+  after(() => laravel.close());
+
+  beforeEach(() => {
+    laravel.requests.length = 0;
+    laravel.images.clear();
+    client = new LaravelApiClient(laravel.client());
+  });
+
+  test('registers images with their attribution', async () => {
+    await client.uploadProductImages(7, [storedImage(0), storedImage(1)]);
+
+    const [registration] = laravel.registrations(7);
+    assert.strictEqual(registration.headers['x-internal-token'], 'test-laravel-token');
+    assert.match(String(registration.headers['x-request-id']), /^[0-9a-f-]{36}$/);
+    assert.match(String(registration.headers['idempotency-key']), /^[0-9a-f]{64}$/);
+
+    const [first] = json(registration).imageData;
+    assert.strictEqual(first.public_id, 'products/7/image_0');
+    assert.strictEqual(first.isPrimary, true);
+    assert.strictEqual(first.alt_text, 'A hoodie');
+    assert.deepStrictEqual(first.attribution, {
+      provider: 'unsplash',
+      source_id: 'photo-0',
+      photographer: 'Test Photographer',
+      photographer_url: null,
+      source_url: null,
+    });
+    assert.strictEqual(first.source, undefined);
+
+    assert.strictEqual(await client.registeredImageCount(7), 2);
+  });
+
+  test('retries server errors with the same idempotency key', async () => {
+    laravel.fail({ method: 'POST', status: 503, times: 2 });
+
+    await client.uploadProductImages(7, [storedImage(0)]);
+
+    const attempts = laravel.registrations(7);
+    assert.strictEqual(attempts.length, 3);
+    assert.strictEqual(new Set(attempts.map((a) => a.headers['idempotency-key'])).size, 1);
+    assert.strictEqual(new Set(attempts.map((a) => a.headers['x-request-id'])).size, 3);
+    assert.strictEqual(laravel.images.get(7)?.length, 1);
+  });
+
+  test('retries dropped connections', async () => {
+    laravel.fail({ method: 'POST', status: 'reset' });
+
+    await client.uploadProductImages(7, [storedImage(0)]);
+
+    assert.strictEqual(laravel.registrations(7).length, 2);
+  });
+
+  test('does not retry a refused registration', async () => {
+    laravel.fail({ method: 'POST', status: 422, body: { message: 'Unknown product' } });
+
+    await assert.rejects(client.uploadProductImages(7, [storedImage(0)]), {
+      errorClass: 'validation',
+    });
+    assert.strictEqual(laravel.registrations(7).length, 1);
+  });
+
+  test('fails as an auth error when the token is refused', async () => {
+    laravel.fail({ status: 401 });
+
+    await assert.rejects(client.getProductImages(7), { errorClass: 'auth' });
+  });
+
+  test('unregisters some or all images', async () => {
+    await client.uploadProductImages(7, [storedImage(0), storedImage(1)]);
+
+    await client.unregisterProductImages(7, ['products/7/image_0']);
+    assert.deepStrictEqual(
+      (await client.getProductImages(7)).images?.map((image) => image.public_id),
+      ['products/7/image_1'],
+    );
+
+    await client.unregisterProductImages(7);
+    assert.strictEqual(await client.registeredImageCount(7), 0);
+  });
+
+  test('pages through the products missing images', async () => {
+    laravel.missingImages = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+    assert.deepStrictEqual(await client.listProductsMissingImages(2), {
+      products: [{ id: 3 }],
+      lastPage: 2,
+    });
+  });
+});
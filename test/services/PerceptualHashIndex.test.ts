@@ -0,0 +1,88 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import { beforeEach, describe, test } from 'node:test';
+import { env } from '../../src/config/env';
+import { PerceptualHashIndex } from '../../src/services/PerceptualHashIndex';
+
+// Two hashes 64 bits apart, and one 2 bits away from the first (a near-duplicate)
+const PHOTO = '0000000000000000';
+const NEAR_PHOTO = '0000000000000003';
+const OTHER_PHOTO = 'ffffffffffffffff';
+
+describe('PerceptualHashIndex', () => {
+  let index: PerceptualHashIndex;
+
+  beforeEach(async () => {
+    index = await PerceptualHashIndex.load();
+    await index.forget([1, 2, 3]);
+  });
+
+  async function saved(): Promise<number[]> {
+    const { entries } = JSON.parse(await fs.readFile(env.phashIndexPath, 'utf-8'));
+    return entries.map((entry: { productId: number }) => entry.productId);
+  }
+
+  test('refuses a near-duplicate of a photo another product uses', () => {
+    assert.deepStrictEqual(index.claim({ hash: PHOTO, productId: 1, index: 0, url: 'a' }), []);
+
+    assert.deepStrictEqual(index.claim({ hash: NEAR_PHOTO, productId: 2, index: 0, url: 'b' }), [
+      1,
+    ]);
+    assert.deepStrictEqual(
+      index.claim({ hash: OTHER_PHOTO, productId: 2, index: 0, url: 'c' }),
+      [],
+    );
+  });
+
+  test('refuses a near-duplicate of a photo in another slot of the same product', () => {
+    index.claim({ hash: PHOTO, productId: 1, index: 0, url: 'a' });
+
+    assert.deepStrictEqual(index.claim({ hash: NEAR_PHOTO, productId: 1, index: 1, url: 'b' }), [
+      1,
+    ]);
+    // Claiming the same slot again replaces the earlier claim
+    assert.deepStrictEqual(index.claim({ hash: NEAR_PHOTO, productId: 1, index: 0, url: 'b' }), []);
+  });
+
+  test('releases the claims of a failed product and keeps registered ones', async () => {
+    index.claim({ hash: PHOTO, productId: 1, index: 0, url: 'a' });
+    await index.markRegistered(1);
+    index.claim({ hash: OTHER_PHOTO, productId: 2, index: 0, url: 'b' });
+
+    index.release(1);
+    index.release(2);
+
+    assert.deepStrictEqual(index.productsUsing(PHOTO, 3), [1]);
+    assert.deepStrictEqual(index.productsUsing(OTHER_PHOTO, 3), []);
+  });
+
+  test('is shared by every caller of the process, so saves keep all claims', async () => {
+    const other = await PerceptualHashIndex.load();
+    assert.strictEqual(other, index);
+
+    index.claim({ hash: PHOTO, productId: 1, index: 0, url: 'a' });
+    other.claim({ hash: OTHER_PHOTO, productId: 2, index: 0, url: 'b' });
+    await Promise.all([index.markRegistered(1), other.markRegistered(2)]);
+
+    assert.deepStrictEqual((await saved()).sort(), [1, 2]);
+  });
+
+  test('groups registered near-duplicates into clusters', async () => {
+    // Claimed while reuses were allowed, e.g. before DEDUPE_MAX_REUSES was lowered
+    env.dedupeMaxReuses = 1;
+    try {
+      index.claim({ hash: PHOTO, productId: 1, index: 0, url: 'a' });
+      index.claim({ hash: NEAR_PHOTO, productId: 2, index: 0, url: 'b' });
+      index.claim({ hash: OTHER_PHOTO, productId: 3, index: 0, url: 'c' });
+    } finally {
+      env.dedupeMaxReuses = 0;
+    }
+    await Promise.all([1, 2, 3].map((productId) => index.markRegistered(productId)));
+
+    const clusters = index.duplicateClusters();
+
+    assert.strictEqual(clusters.length, 1);
+    assert.deepStrictEqual(clusters[0].entries.map((entry) => entry.productId).sort(), [1, 2]);
+  });
+});
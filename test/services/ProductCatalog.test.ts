@@ -0,0 +1,89 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import { InlineProductSource } from '../../src/services/InlineProductSource';
+import { createProductSource, ProductCatalog } from '../../src/services/ProductCatalog';
+import { Product } from '../../src/types/product';
+
+const product = (id: number, category: number, status = 'active') => ({
+  id,
+  name: `Product ${id}`,
+  slug: `product-${id}`,
+  status,
+  categories: [category],
+});
+
+// Categories 1 (t-shirts) and 2 (hoodies) of data/categories.json
+const catalog = () =>
+  ProductCatalog.load(
+    new InlineProductSource([
+      product(1, 1),
+      product(2, 2),
+      product(3, 2, 'draft'),
+      product(4, 1),
+      product(5, 2),
+    ]),
+  );
+
+const ids = (products: Product[]) => products.map((selected) => selected.id);
+
+describe('ProductCatalog', () => {
+  test('leaves malformed and duplicate records out of the catalog', async () => {
+    const { products, issues } = await ProductCatalog.load(
+      new InlineProductSource([product(1, 1), product(1, 2), { id: 2, categories: [999] }]),
+    );
+
+    assert.deepStrictEqual(ids(products), [1]);
+    assert.deepStrictEqual(
+      issues.map((issue) => [issue.location, issue.productId]),
+      [
+        ['inline [1]', 1],
+        ['inline [2]', 2],
+      ],
+    );
+    assert.deepStrictEqual(issues[0].errors, ['duplicate product id']);
+  });
+
+  test('selects by IDs, ranges, categories and statuses, all applying', async () => {
+    const products = await catalog();
+
+    assert.deepStrictEqual(
+      ids(await products.select({ productIds: [1], productRanges: [[3, 4]] })),
+      [1, 3, 4],
+    );
+    assert.deepStrictEqual(ids(await products.select({ categories: ['hoodies'] })), [2, 3, 5]);
+    assert.deepStrictEqual(
+      ids(await products.select({ categories: ['hoodies'], statuses: ['active'] })),
+      [2, 5],
+    );
+  });
+
+  test('selects products with fewer registered images than asked', async () => {
+    const products = await catalog();
+    const counts: Record<number, number> = { 1: 4, 2: 0, 3: 1, 4: 3, 5: 4 };
+
+    const selected = await products.select({ fewerThanImages: 4 }, async ({ id }) => counts[id]);
+
+    assert.deepStrictEqual(ids(selected), [2, 3, 4]);
+    await assert.rejects(products.select({ fewerThanImages: 4 }), /not supported/);
+  });
+
+  test('shuffles with a seed the same way every time, then applies the limit', async () => {
+    const products = await catalog();
+
+    const first = ids(await products.select({ shuffleSeed: 'abc' }));
+    const again = ids(await products.select({ shuffleSeed: 'abc', limit: 2 }));
+
+    assert.deepStrictEqual([...first].sort(), [1, 2, 3, 4, 5]);
+    assert.deepStrictEqual(again, first.slice(0, 2));
+  });
+});
+
+describe('createProductSource', () => {
+  test('builds the named source and refuses unknown ones', () => {
+    assert.strictEqual(createProductSource('csv').name, 'csv');
+    // Guessed from the extension of PRODUCT_INPUT_JSON_PATH (test/fixtures/products.json)
+    assert.strictEqual(createProductSource('').name, 'json');
+    assert.throws(() => createProductSource('xml'), /Unknown PRODUCT_SOURCE: xml/);
+  });
+});
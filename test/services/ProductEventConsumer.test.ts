@@ -0,0 +1,111 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { CloudinaryService } from '../../src/services/CloudinaryService';
+import { CloudinaryStorageBackend } from '../../src/services/CloudinaryStorageBackend';
+import { ImageSourceRegistry } from '../../src/services/ImageSourceRegistry';
+import { InMemoryEventQueue } from '../../src/services/InMemoryEventQueue';
+import { LaravelApiClient } from '../../src/services/LaravelApiClient';
+import { ProductEventConsumer } from '../../src/services/ProductEventConsumer';
+import { UnsplashService } from '../../src/services/UnsplashService';
+import { Product } from '../../src/types/product';
+import { ProductEvent } from '../../src/types/queue';
+import { FakeCloudinary } from '../helpers/fakeCloudinary';
+import { fixturesDir } from '../helpers/env';
+import { FakeLaravel } from '../helpers/fakeLaravel';
+import { FakeUnsplash } from '../helpers/fakeUnsplash';
+
+describe('ProductEventConsumer', () => {
+  let unsplash: FakeUnsplash;
+  let cloudinary: FakeCloudinary;
+  let laravel: FakeLaravel;
+  let queue: InMemoryEventQueue;
+  let consumer: ProductEventConsumer;
+
+  beforeEach(async () => {
+    unsplash = await new FakeUnsplash().start();
+    cloudinary = await new FakeCloudinary().start();
+    laravel = await new FakeLaravel().start();
+    queue = new InMemoryEventQueue();
+    consumer = new ProductEventConsumer(
+      queue,
+      { batchSize: 10, maxAttempts: 2, retryBackoffMs: 60_000, drainTimeoutMs: 5000 },
+      {
+        imageSources: new ImageSourceRegistry(path.join(fixturesDir, 'image-sources.json'), {
+          unsplash: () => new UnsplashService(unsplash.client()),
+        }),
+        cloudinaryService: new CloudinaryService(new CloudinaryStorageBackend()),
+        laravelApiClient: new LaravelApiClient(laravel.client()),
+      },
+    );
+  });
+  afterEach(async () => {
+    assert.strictEqual(await consumer.stop(), true);
+    await queue.close();
+    await Promise.all([unsplash.close(), cloudinary.close(), laravel.close()]);
+  });
+
+  async function event(productId: number, changes: Partial<Product> = {}): Promise<ProductEvent> {
+    const products: Product[] = JSON.parse(
+      await fs.readFile(path.join(fixturesDir, 'products.json'), 'utf-8'),
+    );
+    const product = products.find((candidate) => candidate.id === productId)!;
+    return {
+      id: `evt-${productId}`,
+      product: { ...product, ...changes },
+      receivedAt: new Date().toISOString(),
+      attempts: 0,
+    };
+  }
+
+  // Resolves with the event the queue method is first called with
+  function settledBy(method: 'ack' | 'retry' | 'deadLetter'): Promise<ProductEvent> {
+    return new Promise((resolve) => {
+      const original = queue[method].bind(queue);
+      mock.method(queue, method, async (settled: ProductEvent, ...rest: [number]) => {
+        await original(settled, ...rest);
+        resolve(settled);
+      });
+    });
+  }
+
+  test('registers the images of a queued product and acks its event', async () => {
+    const acked = settledBy('ack');
+    await queue.enqueue(await event(2));
+
+    consumer.start();
+
+    assert.strictEqual((await acked).id, 'evt-2');
+    assert.strictEqual(laravel.images.get(2)?.length, 2);
+    // Acked: the product can be queued again
+    assert.strictEqual(await queue.enqueue(await event(2)), true);
+  });
+
+  test('retries an event whose product failed with a transient error', async () => {
+    laravel.fail({ path: /^\/ingest\/products\/2\/images$/, status: 503, times: 100 });
+    const retried = settledBy('retry');
+    await queue.enqueue(await event(2));
+
+    consumer.start();
+
+    const { attempts, lastError } = await retried;
+    assert.strictEqual(attempts, 1);
+    assert.strictEqual(lastError?.errorClass, 'transient');
+    assert.deepStrictEqual(await queue.deadLetters(), []);
+  });
+
+  test('dead-letters an event whose product cannot be processed', async () => {
+    const deadLettered = settledBy('deadLetter');
+    // A category removed since the event was queued
+    await queue.enqueue(await event(2, { categories: [999] }));
+
+    consumer.start();
+
+    const { attempts, lastError } = await deadLettered;
+    assert.strictEqual(attempts, 1);
+    assert.strictEqual(lastError?.errorClass, 'validation');
+    assert.strictEqual((await queue.deadLetters()).length, 1);
+  });
+});
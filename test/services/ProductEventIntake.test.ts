@@ -0,0 +1,65 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { beforeEach, describe, mock, test } from 'node:test';
+import { env } from '../../src/config/env';
+import { InMemoryEventQueue } from '../../src/services/InMemoryEventQueue';
+import { ProductEventIntake } from '../../src/services/ProductEventIntake';
+import { fixturesDir } from '../helpers/env';
+
+const product = async (id: number) => {
+  const products = JSON.parse(await fs.readFile(path.join(fixturesDir, 'products.json'), 'utf-8'));
+  return products.find((candidate: { id: number }) => candidate.id === id);
+};
+
+describe('ProductEventIntake', () => {
+  let queue: InMemoryEventQueue;
+  let intake: ProductEventIntake;
+
+  beforeEach(() => {
+    queue = new InMemoryEventQueue();
+    intake = new ProductEventIntake(queue);
+  });
+
+  test('queues a product once', async () => {
+    const event = { event: 'product.created', event_id: 'evt-1', product: await product(2) };
+
+    assert.deepStrictEqual(await intake.accept(event, 'test'), {
+      outcome: 'queued',
+      eventId: 'evt-1',
+      productId: 2,
+    });
+    assert.strictEqual((await intake.accept(event, 'test')).outcome, 'duplicate');
+    assert.strictEqual((await queue.reserve(0))?.product.id, 2);
+    assert.strictEqual(await queue.reserve(0), undefined);
+  });
+
+  test('rejects other events and invalid products', async () => {
+    const unsupported = await intake.accept({ event: 'product.deleted' }, 'test');
+    assert.strictEqual(unsupported.outcome, 'rejected');
+
+    const invalid = await intake.accept(
+      { event: 'product.created', product: { ...(await product(2)), categories: [999] } },
+      'test',
+    );
+    assert.strictEqual(invalid.outcome, 'rejected');
+    assert.ok(invalid.outcome === 'rejected' && invalid.details!.length > 0);
+  });
+
+  test('reads the categories once', async () => {
+    const readFile = mock.method(fs, 'readFile');
+    try {
+      for (const id of [1, 2, 3]) {
+        await intake.accept({ event: 'product.created', product: await product(id) }, 'test');
+      }
+
+      const categoryReads = readFile.mock.calls.filter(
+        (call) => call.arguments[0] === env.categoriesPath,
+      );
+      assert.strictEqual(categoryReads.length, 1);
+    } finally {
+      readFile.mock.restore();
+    }
+  });
+});
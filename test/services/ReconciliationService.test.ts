@@ -0,0 +1,140 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { env } from '../../src/config/env';
+import { CloudinaryService } from '../../src/services/CloudinaryService';
+import { CloudinaryStorageBackend } from '../../src/services/CloudinaryStorageBackend';
+import { ImageSourceRegistry } from '../../src/services/ImageSourceRegistry';
+import { LaravelApiClient } from '../../src/services/LaravelApiClient';
+import { PerceptualHashIndex } from '../../src/services/PerceptualHashIndex';
+import { PurgeService } from '../../src/services/PurgeService';
+import { ReconciliationService } from '../../src/services/ReconciliationService';
+import { UnsplashService } from '../../src/services/UnsplashService';
+import { ImageIngestionWorker } from '../../src/workers/ImageIngestionWorker';
+import { FakeCloudinary } from '../helpers/fakeCloudinary';
+import { fixturesDir } from '../helpers/env';
+import { FakeLaravel } from '../helpers/fakeLaravel';
+import { FakeUnsplash } from '../helpers/fakeUnsplash';
+
+describe('ReconciliationService and PurgeService', () => {
+  let unsplash: FakeUnsplash;
+  let cloudinary: FakeCloudinary;
+  let laravel: FakeLaravel;
+
+  // Product 2 ingested: image_0 and image_1 stored and registered
+  beforeEach(async () => {
+    unsplash = await new FakeUnsplash().start();
+    cloudinary = await new FakeCloudinary().start();
+    laravel = await new FakeLaravel().start();
+    await (await PerceptualHashIndex.load()).forget([2]);
+
+    const worker = new ImageIngestionWorker(
+      { productIds: [2] },
+      {
+        imageSources: new ImageSourceRegistry(path.join(fixturesDir, 'image-sources.json'), {
+          unsplash: () => new UnsplashService(unsplash.client()),
+        }),
+        cloudinaryService: new CloudinaryService(new CloudinaryStorageBackend()),
+        laravelApiClient: new LaravelApiClient(laravel.client()),
+      },
+    );
+    assert.strictEqual((await worker.run()).counts.registered, 1);
+  });
+  afterEach(async () => {
+    await Promise.all([unsplash.close(), cloudinary.close(), laravel.close()]);
+  });
+
+  const reconciliation = () =>
+    new ReconciliationService(
+      new CloudinaryStorageBackend(),
+      new LaravelApiClient(laravel.client()),
+    );
+
+  // Laravel lost image_1, storage lost image_0, and holds an image no run uploaded
+  function drift(): void {
+    laravel.images.set(
+      2,
+      laravel.images.get(2)!.filter((image) => image.public_id === 'products/2/image_0'),
+    );
+    const stored = cloudinary.assets.get('products/2/image_0')!;
+    cloudinary.assets.delete('products/2/image_0');
+    cloudinary.assets.set('products/2/stray', { ...stored, public_id: 'products/2/stray' });
+  }
+
+  test('finds storage and Laravel in sync after a run', async () => {
+    const [product] = await reconciliation().reconcile([2]);
+
+    assert.deepStrictEqual(
+      [product.status, product.stored, product.registered, product.drift],
+      ['in-sync', 2, 2, []],
+    );
+  });
+
+  test('reports the drift without repairing it', async () => {
+    drift();
+
+    const [product] = await reconciliation().reconcile([2]);
+
+    assert.strictEqual(product.status, 'drift');
+    assert.deepStrictEqual(
+      product.drift.map((item) => [item.kind, item.publicId, item.repair]),
+      [
+        ['missing', 'products/2/image_0', undefined],
+        ['orphan', 'products/2/image_1', undefined],
+        ['orphan', 'products/2/stray', undefined],
+      ],
+    );
+    assert.ok(product.drift[1].runId);
+    assert.strictEqual(product.drift[2].runId, undefined);
+  });
+
+  test('repairs the drift: adopts uploads of a run, deletes the other orphans', async () => {
+    drift();
+
+    const [product] = await reconciliation().reconcile([2], { repair: true });
+
+    assert.strictEqual(product.status, 'repaired');
+    assert.deepStrictEqual(
+      product.drift.map((item) => item.repair),
+      ['unregistered', 'registered', 'deleted'],
+    );
+    assert.deepStrictEqual(
+      laravel.images.get(2)!.map((image) => image.public_id),
+      ['products/2/image_1'],
+    );
+    assert.deepStrictEqual([...cloudinary.assets.keys()], ['products/2/image_1']);
+    assert.strictEqual((await reconciliation().reconcile([2]))[0].status, 'in-sync');
+  });
+
+  test('purges the images of a product everywhere', async () => {
+    const purge = new PurgeService(
+      new CloudinaryService(new CloudinaryStorageBackend()),
+      new LaravelApiClient(laravel.client()),
+    );
+
+    const [result] = await purge.purge([2]);
+
+    assert.deepStrictEqual(result, { productId: 2, unregistered: true, removedImages: 2 });
+    assert.deepStrictEqual(laravel.images.get(2) ?? [], []);
+    assert.strictEqual(cloudinary.assets.size, 0);
+    // Its photos may be used by other products again
+    const { entries } = JSON.parse(await fs.readFile(env.phashIndexPath, 'utf-8'));
+    assert.deepStrictEqual(entries, []);
+  });
+
+  test('keeps the stored images when Laravel refuses to unregister them', async () => {
+    laravel.fail({ method: 'DELETE', status: 422, body: { message: 'Locked' } });
+    const purge = new PurgeService(
+      new CloudinaryService(new CloudinaryStorageBackend()),
+      new LaravelApiClient(laravel.client()),
+    );
+
+    const [result] = await purge.purge([2]);
+
+    assert.strictEqual(result.unregistered, false);
+    assert.ok(result.error);
+    assert.strictEqual(cloudinary.assets.size, 2);
+  });
+});
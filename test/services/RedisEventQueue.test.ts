@@ -0,0 +1,24 @@
+import '../helpers/env';
+import { randomBytes } from 'crypto';
+import Redis from 'ioredis';
+import { after, describe } from 'node:test';
+import { RedisEventQueue } from '../../src/services/RedisEventQueue';
+import { eventQueueBehaviour } from '../helpers/eventQueues';
+
+// Needs a Redis server to talk to, e.g. TEST_REDIS_URL=redis://localhost:6379 npm test
+const redisUrl = process.env.TEST_REDIS_URL;
+
+describe('RedisEventQueue', { skip: !redisUrl && 'TEST_REDIS_URL is not set' }, () => {
+  const prefix = `image-ingestion-test:${randomBytes(4).toString('hex')}`;
+  let queues = 0;
+
+  // Every test gets its own keys, all removed at the end
+  eventQueueBehaviour(async () => new RedisEventQueue(redisUrl, `${prefix}:${++queues}`));
+
+  after(async () => {
+    const redis = new Redis(redisUrl!);
+    const keys = await redis.keys(`${prefix}:*`);
+    if (keys.length > 0) await redis.del(...keys);
+    await redis.quit();
+  });
+});
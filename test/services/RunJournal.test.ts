@@ -0,0 +1,42 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { env } from '../../src/config/env';
+import { RunJournal } from '../../src/services/RunJournal';
+
+describe('RunJournal', () => {
+  test('leaves the runs of the event consumer out of the latest run', async () => {
+    const batch = await RunJournal.create([1, 2]);
+    const consumer = await RunJournal.create([3], 'consumer');
+
+    assert.strictEqual(await RunJournal.latestRunId(), batch.runId);
+    assert.ok((await RunJournal.runIds()).includes(consumer.runId));
+  });
+
+  test('gives runs started in the same millisecond a journal each', async () => {
+    const journals = await Promise.all(
+      [1, 2, 3].map((productId) => RunJournal.create([productId])),
+    );
+
+    assert.strictEqual(new Set(journals.map((journal) => journal.runId)).size, 3);
+    for (const journal of journals) {
+      assert.deepStrictEqual((await RunJournal.open(journal.runId)).productIds, journal.productIds);
+    }
+  });
+
+  test('appends after the truncated last line of a crashed run', async () => {
+    const { runId } = await RunJournal.create([1, 2]);
+    await fs.appendFile(
+      path.join(env.runJournalDir, `${runId}.jsonl`),
+      '{"event":"skipped","productId"',
+    );
+
+    await (await RunJournal.open(runId)).skipped(2);
+
+    const reopened = await RunJournal.open(runId);
+    assert.strictEqual(reopened.progressFor(2)?.skipped, true);
+    assert.deepStrictEqual(reopened.pendingProductIds(), [1]);
+  });
+});
@@ -0,0 +1,119 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { UnsplashService } from '../../src/services/UnsplashService';
+import { ImageSearch } from '../../src/types/imageSource';
+import { FakeUnsplash } from '../helpers/fakeUnsplash';
+
+const search: ImageSearch = {
+  categorySlug: 'hoodies',
+  queries: ['hoodie studio'],
+  negativeKeywords: [],
+  orientation: 'portrait',
+};
+
+describe('UnsplashService', () => {
+  let unsplash: FakeUnsplash;
+  let service: UnsplashService;
+
+  before(async () => {
+    unsplash = await new FakeUnsplash({ photosPerQuery: 70 }).start();
+  });
+  after(() => unsplash.close());
+
+  beforeEach(() => {
+    unsplash.requests.length = 0;
+    service = new UnsplashService(unsplash.client());
+  });
+
+  test('pages through the search results and keeps the attribution', async () => {
+    const images = await service.fetchImagesForCategory(search, 70);
+
+    assert.strictEqual(images.length, 70);
+    assert.deepStrictEqual(
+      unsplash.searches().map((request) => request.query.get('page')),
+      ['1', '2', '3'],
+    );
+    const [first] = unsplash.searches();
+    assert.strictEqual(first.query.get('orientation'), 'portrait');
+    assert.strictEqual(first.headers.authorization, 'Client-ID test-unsplash-key');
+
+    assert.deepStrictEqual(images[0], {
+      url: `${unsplash.url}/images/hoodie-studio-0.jpg`,
+      provider: 'unsplash',
+      id: 'hoodie-studio-0',
+      photographer: 'Test Photographer',
+      photographerUrl: 'https://unsplash.com/@test',
+      pageUrl: 'https://unsplash.com/photos/hoodie-studio-0',
+      altDescription: 'hoodie studio photo hoodie-studio-0',
+      downloadLocation: `${unsplash.url}/photos/hoodie-studio-0/download`,
+    });
+  });
+
+  test('stops paging once it has the candidates wanted', async () => {
+    const images = await service.fetchImagesForCategory(
+      { ...search, queries: ['hoodie studio', 'hoodie street'] },
+      12,
+    );
+
+    // One page of 30 is enough, the second query is not searched either
+    assert.strictEqual(images.length, 30);
+    assert.deepStrictEqual(
+      unsplash.searches().map((request) => [request.query.get('query'), request.query.get('page')]),
+      [['hoodie studio', '1']],
+    );
+  });
+
+  test('drops photos mentioning a negative keyword', async () => {
+    const images = await service.fetchImagesForCategory(
+      {
+        ...search,
+        negativeKeywords: ['hoodie-studio-1'],
+      },
+      70,
+    );
+
+    // hoodie-studio-1 and hoodie-studio-10 to 19
+    assert.strictEqual(images.length, 70 - 11);
+    assert.ok(images.every((image) => !image.id?.startsWith('hoodie-studio-1')));
+  });
+
+  test('retries server errors', async () => {
+    unsplash.fail({ path: /^\/search\/photos$/, status: 503, times: 2 });
+
+    const images = await service.fetchImagesForCategory(search, 70);
+
+    assert.strictEqual(images.length, 70);
+    assert.strictEqual(unsplash.searches().length, 5);
+  });
+
+  test('does not retry a refused access key', async () => {
+    unsplash.fail({ path: /^\/search\/photos$/, status: 401 });
+
+    await assert.rejects(service.fetchImagesForCategory(search, 70), { errorClass: 'auth' });
+    assert.strictEqual(unsplash.searches().length, 1);
+  });
+
+  test('waits for the quota window to reset instead of failing', async () => {
+    unsplash.fail({
+      path: /^\/search\/photos$/,
+      status: 403,
+      headers: { 'X-Ratelimit-Limit': '50', 'X-Ratelimit-Remaining': '0' },
+      body: 'Rate Limit Exceeded',
+    });
+
+    const images = await service.fetchImagesForCategory(search, 70);
+
+    assert.strictEqual(images.length, 70);
+    // The refused page is sent again once the window (UNSPLASH_RATE_WINDOW_MS) resets
+    assert.strictEqual(unsplash.searches().length, 4);
+  });
+
+  test('tracks downloads of used photos', async () => {
+    const [image] = await service.fetchImagesForCategory(search, 70);
+
+    await service.trackDownload(image);
+
+    assert.deepStrictEqual(unsplash.trackedDownloads.slice(-1), ['hoodie-studio-0']);
+  });
+});
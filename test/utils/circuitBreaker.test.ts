@@ -0,0 +1,72 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import { CircuitBreaker, DependencyOpenError } from '../../src/utils/circuitBreaker';
+import { NotFoundError, TransientError } from '../../src/utils/errors';
+
+function breaker(): CircuitBreaker {
+  return new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 50 });
+}
+
+const fail = (error: Error) => async () => {
+  throw error;
+};
+
+describe('CircuitBreaker', () => {
+  test('opens after consecutive failures and then fails fast', async () => {
+    const circuit = breaker();
+    await assert.rejects(circuit.execute(fail(new TransientError('Timeout'))), TransientError);
+    await assert.rejects(circuit.execute(fail(new TransientError('Timeout'))), TransientError);
+
+    let called = false;
+    await assert.rejects(
+      circuit.execute(async () => (called = true)),
+      DependencyOpenError,
+    );
+    assert.strictEqual(called, false);
+    assert.strictEqual(circuit.currentState(), 'open');
+  });
+
+  test('counts answers such as not-found as successes', async () => {
+    const circuit = breaker();
+
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(circuit.execute(fail(new NotFoundError('Gone'))), NotFoundError);
+    }
+
+    assert.strictEqual(circuit.currentState(), 'closed');
+  });
+
+  test('closes again once a trial call succeeds', async () => {
+    const circuit = breaker();
+    await assert.rejects(circuit.execute(fail(new TransientError('Timeout'))));
+    await assert.rejects(circuit.execute(fail(new TransientError('Timeout'))));
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assert.strictEqual(circuit.currentState(), 'half-open');
+
+    let release!: () => void;
+    const trial = circuit.execute(() => new Promise<void>((resolve) => (release = resolve)));
+    // One trial call at a time
+    await assert.rejects(
+      circuit.execute(async () => 'second'),
+      DependencyOpenError,
+    );
+    release();
+    await trial;
+
+    assert.strictEqual(circuit.currentState(), 'closed');
+    assert.strictEqual(await circuit.execute(async () => 'done'), 'done');
+  });
+
+  test('opens again when the trial call fails', async () => {
+    const circuit = breaker();
+    await assert.rejects(circuit.execute(fail(new TransientError('Timeout'))));
+    await assert.rejects(circuit.execute(fail(new TransientError('Timeout'))));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    await assert.rejects(circuit.execute(fail(new TransientError('Still down'))), TransientError);
+
+    assert.strictEqual(circuit.currentState(), 'open');
+  });
+});
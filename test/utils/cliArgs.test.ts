@@ -0,0 +1,65 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import { CliUsageError, parseArgs, workerOptionsFrom } from '../../src/utils/cliArgs';
+
+describe('parseArgs', () => {
+  test('reads positionals, value flags in both forms and boolean flags', () => {
+    assert.deepStrictEqual(
+      parseArgs(['queue', 'dead-letters', '--limit', '5', '--category=hoodies', '--requeue']),
+      {
+        positionals: ['queue', 'dead-letters'],
+        flags: { limit: '5', category: 'hoodies', requeue: true },
+      },
+    );
+    assert.deepStrictEqual(parseArgs(['-h']).flags, { help: true });
+  });
+
+  test('refuses unknown options, missing values and values on boolean flags', () => {
+    assert.throws(() => parseArgs(['--verbose']), CliUsageError);
+    assert.throws(() => parseArgs(['--limit']), /--limit needs a value/);
+    assert.throws(() => parseArgs(['--dry-run=yes']), /Unknown option --dry-run/);
+  });
+});
+
+describe('workerOptionsFrom', () => {
+  test('turns the selectors into worker options', () => {
+    const options = workerOptionsFrom(
+      parseArgs([
+        '--products=12,45,90-120',
+        '--category=hoodies, denim',
+        '--status=active',
+        '--fewer-than=4',
+        '--limit=20',
+        '--shuffle-seed=abc',
+        '--useFailed',
+        '--dry-run',
+        '--plan-out=plan.json',
+      ]),
+    );
+
+    assert.deepStrictEqual(options, {
+      productIds: [12, 45],
+      productRanges: [[90, 120]],
+      categories: ['hoodies', 'denim'],
+      statuses: ['active'],
+      fewerThanImages: 4,
+      limit: 20,
+      shuffleSeed: 'abc',
+      useFailed: true,
+      resumeRunId: undefined,
+      dryRun: true,
+      planOut: 'plan.json',
+      applyPlan: undefined,
+    });
+  });
+
+  test('refuses invalid numbers and ranges', () => {
+    assert.throws(() => workerOptionsFrom(parseArgs(['--limit=0'])), /positive integer/);
+    assert.throws(() => workerOptionsFrom(parseArgs(['--products=abc'])), CliUsageError);
+    assert.throws(
+      () => workerOptionsFrom(parseArgs(['--products=50-10'])),
+      /Invalid product range 50-10/,
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import sharp from 'sharp';
+import { describe, test } from 'node:test';
+import { isTruncated, sniffImageFormat } from '../../src/utils/imageFormat';
+import { testPhoto } from '../helpers/images';
+
+describe('imageFormat', () => {
+  test('recognizes formats by their magic bytes', async () => {
+    const photo = await testPhoto('format');
+
+    assert.strictEqual(sniffImageFormat(photo), 'jpg');
+    assert.strictEqual(sniffImageFormat(await sharp(photo).png().toBuffer()), 'png');
+    assert.strictEqual(sniffImageFormat(await sharp(photo).webp().toBuffer()), 'webp');
+    assert.strictEqual(sniffImageFormat(await sharp(photo).gif().toBuffer()), 'gif');
+    assert.strictEqual(sniffImageFormat(Buffer.from('<!doctype html>')), undefined);
+  });
+
+  test('finds downloads cut short by their missing end marker', async () => {
+    const jpg = await testPhoto('format');
+    const png = await sharp(jpg).png().toBuffer();
+
+    assert.strictEqual(isTruncated(jpg, 'jpg'), false);
+    assert.strictEqual(isTruncated(jpg.subarray(0, jpg.length / 2), 'jpg'), true);
+    assert.strictEqual(isTruncated(png, 'png'), false);
+    assert.strictEqual(isTruncated(png.subarray(0, png.length - 4), 'png'), true);
+  });
+});
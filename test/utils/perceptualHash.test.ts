@@ -0,0 +1,32 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import sharp from 'sharp';
+import { describe, test } from 'node:test';
+import { env } from '../../src/config/env';
+import { computeDHash, hammingDistance } from '../../src/utils/perceptualHash';
+import { testPhoto } from '../helpers/images';
+
+describe('perceptualHash', () => {
+  test('keeps a resized and re-encoded copy within the duplicate threshold', async () => {
+    const photo = await testPhoto('hash');
+    const copy = await sharp(photo).resize(320, 400).jpeg({ quality: 60 }).toBuffer();
+
+    const distance = hammingDistance(await computeDHash(photo), await computeDHash(copy));
+
+    assert.ok(distance <= env.dedupeHammingThreshold, `distance ${distance}`);
+  });
+
+  test('keeps different photos far apart', async () => {
+    const [a, b] = await Promise.all([testPhoto('hash'), testPhoto('other')]);
+
+    const distance = hammingDistance(await computeDHash(a), await computeDHash(b));
+
+    assert.ok(distance > env.dedupeHammingThreshold, `distance ${distance}`);
+  });
+
+  test('counts the differing bits of two hashes', () => {
+    assert.strictEqual(hammingDistance('0000000000000000', '0000000000000000'), 0);
+    assert.strictEqual(hammingDistance('0000000000000000', '000000000000000f'), 4);
+    assert.strictEqual(hammingDistance('0000000000000000', 'ffffffffffffffff'), 64);
+  });
+});
@@ -0,0 +1,51 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import { RateLimiter } from '../../src/utils/rateLimiter';
+
+describe('RateLimiter', () => {
+  test('hands out the quota of the window', async () => {
+    const limiter = new RateLimiter('test', { limit: 3, windowMs: 60_000 });
+
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const budget = limiter.budget();
+    assert.strictEqual(budget.limit, 3);
+    assert.strictEqual(budget.remaining, 1);
+    assert.ok(budget.resetAt);
+  });
+
+  test('waits for the window to reset once the quota is used up', async () => {
+    const limiter = new RateLimiter('test', { limit: 1, windowMs: 100 });
+    await limiter.acquire();
+
+    const startedAt = performance.now();
+    await limiter.acquire();
+
+    // Timers may fire a millisecond early
+    assert.ok(performance.now() - startedAt >= 95);
+  });
+
+  test('follows the quota reported by the server, never handing out more', async () => {
+    const limiter = new RateLimiter('test', { limit: 50, windowMs: 60_000 });
+
+    limiter.update(40, 10);
+    assert.deepStrictEqual([limiter.budget().limit, limiter.budget().remaining], [40, 10]);
+
+    // A later response may report a budget from before requests still in flight
+    limiter.update(40, 30);
+    assert.strictEqual(limiter.budget().remaining, 10);
+  });
+
+  test('pauses every caller once the server refuses for quota reasons', async () => {
+    const limiter = new RateLimiter('test', { limit: 50, windowMs: 100 });
+    limiter.exhaust();
+
+    const startedAt = performance.now();
+    await Promise.all([limiter.acquire(), limiter.acquire()]);
+
+    assert.ok(performance.now() - startedAt >= 95);
+    assert.strictEqual(limiter.budget().remaining, 48);
+  });
+});
@@ -0,0 +1,62 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import { retry } from '../../src/utils/retry';
+import { RateLimitedError, TransientError, ValidationError } from '../../src/utils/errors';
+
+/*
+ * An operation failing with the given errors, in order, then returning 'done'
+ */
+function failing(...errors: unknown[]) {
+  const operation = async () => {
+    operation.calls++;
+    const error = errors.shift();
+    if (error) throw error;
+    return 'done';
+  };
+  operation.calls = 0;
+  return operation;
+}
+
+describe('retry', () => {
+  test('retries transient errors', async () => {
+    const operation = failing(new TransientError('Timeout'), new TransientError('Timeout'));
+
+    assert.strictEqual(await retry(operation), 'done');
+    assert.strictEqual(operation.calls, 3);
+  });
+
+  test('throws the last error once the attempts are used up', async () => {
+    const operation = failing(...Array.from({ length: 3 }, (_, i) => new TransientError(`${i}`)));
+
+    await assert.rejects(retry(operation), { errorClass: 'transient', message: '2' });
+    assert.strictEqual(operation.calls, 3);
+  });
+
+  test('does not retry validation errors', async () => {
+    const operation = failing(new ValidationError('Invalid payload'));
+
+    await assert.rejects(retry(operation), { errorClass: 'validation' });
+    assert.strictEqual(operation.calls, 1);
+  });
+
+  test('waits as long as Retry-After asks', async () => {
+    const operation = failing(new RateLimitedError('Slow down', { retryAfterMs: 100 }));
+
+    const startedAt = performance.now();
+    await retry(operation);
+    // Timers may fire a millisecond early
+    assert.ok(performance.now() - startedAt >= 95);
+  });
+
+  test('classifies axios errors by status', async () => {
+    const operation = failing({
+      isAxiosError: true,
+      message: 'Not found',
+      response: { status: 404 },
+    });
+
+    await assert.rejects(retry(operation), { errorClass: 'not-found', status: 404 });
+    assert.strictEqual(operation.calls, 1);
+  });
+});
@@ -0,0 +1,47 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import { signPayload, verifySignature } from '../../src/utils/webhookSignature';
+
+const SECRET = 'webhook-secret';
+const body = Buffer.from('{"event":"product.created"}');
+const now = Date.parse('2026-01-01T12:00:00Z');
+const timestamp = String(now / 1000);
+
+describe('webhookSignature', () => {
+  test('accepts a body signed with the secret', () => {
+    const signature = signPayload(SECRET, timestamp, body);
+
+    assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+    assert.strictEqual(verifySignature(SECRET, body, signature, timestamp, now), undefined);
+  });
+
+  test('refuses other secrets, altered bodies and missing headers', () => {
+    const signature = signPayload(SECRET, timestamp, body);
+
+    assert.strictEqual(
+      verifySignature('other-secret', body, signature, timestamp, now),
+      'Invalid signature',
+    );
+    assert.strictEqual(
+      verifySignature(SECRET, Buffer.from('{}'), signature, timestamp, now),
+      'Invalid signature',
+    );
+    assert.strictEqual(
+      verifySignature(SECRET, body, 'sha256=short', timestamp, now),
+      'Invalid signature',
+    );
+    assert.match(verifySignature(SECRET, body, undefined, timestamp, now)!, /^Missing/);
+    assert.match(verifySignature(SECRET, body, signature, 'noon', now)!, /^Invalid X-Signature/);
+  });
+
+  test('refuses replays of old requests', () => {
+    const old = String(now / 1000 - 6 * 60);
+    const signature = signPayload(SECRET, old, body);
+
+    assert.strictEqual(
+      verifySignature(SECRET, body, signature, old, now),
+      'Signature timestamp is too old or in the future',
+    );
+  });
+});
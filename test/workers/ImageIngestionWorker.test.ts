@@ -0,0 +1,248 @@
+import '../helpers/env';
+import assert from 'node:assert';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { CloudinaryService } from '../../src/services/CloudinaryService';
+import { CloudinaryStorageBackend } from '../../src/services/CloudinaryStorageBackend';
+import { ImageSourceRegistry } from '../../src/services/ImageSourceRegistry';
+import { IngestionManager } from '../../src/services/IngestionManager';
+import { LaravelApiClient } from '../../src/services/LaravelApiClient';
+import { PerceptualHashIndex } from '../../src/services/PerceptualHashIndex';
+import { RunJournal } from '../../src/services/RunJournal';
+import { UnsplashService } from '../../src/services/UnsplashService';
+import { WorkerOptions } from '../../src/types/ingestion';
+import { RunReport } from '../../src/types/report';
+import { IngestionPlan } from '../../src/types/plan';
+import { readPlan } from '../../src/utils/ingestionPlan';
+import { runReportPath } from '../../src/utils/runReport';
+import { ImageIngestionWorker } from '../../src/workers/ImageIngestionWorker';
+import { FakeCloudinary } from '../helpers/fakeCloudinary';
+import { fixturesDir, testDir } from '../helpers/env';
+import { FakeLaravel } from '../helpers/fakeLaravel';
+import { FakeUnsplash } from '../helpers/fakeUnsplash';
+
+describe('ImageIngestionWorker', () => {
+  let unsplash: FakeUnsplash;
+  let cloudinary: FakeCloudinary;
+  let laravel: FakeLaravel;
+
+  // Every test starts with new fakes and no image used yet
+  beforeEach(async () => {
+    unsplash = await new FakeUnsplash().start();
+    cloudinary = await new FakeCloudinary().start();
+    laravel = await new FakeLaravel().start();
+    await (await PerceptualHashIndex.load()).forget([1, 2, 3]);
+  });
+  afterEach(async () => {
+    await Promise.all([unsplash.close(), cloudinary.close(), laravel.close()]);
+  });
+
+  function worker(options: WorkerOptions = {}): ImageIngestionWorker {
+    return new ImageIngestionWorker(options, {
+      imageSources: new ImageSourceRegistry(path.join(fixturesDir, 'image-sources.json'), {
+        unsplash: () => new UnsplashService(unsplash.client()),
+      }),
+      cloudinaryService: new CloudinaryService(new CloudinaryStorageBackend()),
+      laravelApiClient: new LaravelApiClient(laravel.client()),
+    });
+  }
+
+  async function report(runId: string): Promise<RunReport> {
+    return JSON.parse(await fs.readFile(runReportPath(runId), 'utf-8'));
+  }
+
+  test('registers the images of every product', async () => {
+    const status = await worker().run();
+
+    assert.strictEqual(status.state, 'completed');
+    assert.strictEqual(status.counts.registered, 3);
+
+    for (const productId of [1, 2, 3]) {
+      const images = laravel.images.get(productId)!;
+      assert.deepStrictEqual(images.map((image) => image.public_id).sort(), [
+        `products/${productId}/image_0`,
+        `products/${productId}/image_1`,
+      ]);
+      // Ranked by score: the best image comes first and is the primary one
+      assert.deepStrictEqual(
+        images.map((image) => [image.position, image.isPrimary]).sort(([a], [b]) => a - b),
+        [
+          [0, true],
+          [1, false],
+        ],
+      );
+      assert.ok(images.every((image) => cloudinary.assets.has(image.public_id)));
+      assert.ok(images.every((image) => image.attribution?.provider === 'unsplash'));
+    }
+
+    // Every registered photo is reported to Unsplash, and none is used twice
+    assert.strictEqual(unsplash.trackedDownloads.length, 6);
+    assert.strictEqual(new Set(unsplash.trackedDownloads).size, 6);
+
+    const { totals, failuresByClass } = await report(status.runId);
+    assert.deepStrictEqual(totals, {
+      products: 3,
+      succeeded: 3,
+      failed: 0,
+      images: 6,
+      bytes: totals.bytes,
+    });
+    assert.deepStrictEqual(failuresByClass, {});
+  });
+
+  test('skips products that already have their images', async () => {
+    laravel.images.set(1, [
+      { public_id: 'products/1/image_0' },
+      { public_id: 'products/1/image_1' },
+    ]);
+
+    const status = await worker({ productIds: [1, 2] }).run();
+
+    assert.strictEqual(status.counts.skipped, 1);
+    assert.strictEqual(status.counts.registered, 1);
+    assert.strictEqual(cloudinary.uploads().length, 2);
+
+    // Journaled as settled: the run is complete and a resume has nothing left to do
+    assert.strictEqual((await new IngestionManager().get(status.runId))?.state, 'completed');
+    assert.deepStrictEqual((await RunJournal.open(status.runId)).pendingProductIds(), []);
+  });
+
+  test('retries server errors of every dependency', async () => {
+    unsplash.fail({ path: /^\/search\/photos$/, status: 503 });
+    unsplash.fail({ path: /^\/images\//, status: 'reset' });
+    cloudinary.fail({
+      path: /\/image\/upload$/,
+      status: 500,
+      body: { error: { message: 'Boom' } },
+    });
+    laravel.fail({ method: 'POST', status: 503, times: 2 });
+
+    const status = await worker({ productIds: [1] }).run();
+
+    assert.strictEqual(status.counts.registered, 1);
+    assert.strictEqual(laravel.registrations(1).length, 3);
+    assert.strictEqual(laravel.images.get(1)?.length, 2);
+  });
+
+  test('rolls the uploads back when Laravel refuses the registration', async () => {
+    laravel.fail({
+      method: 'POST',
+      path: /^\/ingest\/products\/2\/images$/,
+      status: 422,
+      body: { message: 'The product is archived.' },
+    });
+
+    const status = await worker().run();
+
+    assert.strictEqual(status.counts.registered, 2);
+    assert.strictEqual(status.counts.failed, 1);
+    assert.strictEqual(laravel.registrations(2).length, 1);
+    assert.deepStrictEqual(cloudinary.destroyed.sort(), [
+      'products/2/image_0',
+      'products/2/image_1',
+    ]);
+
+    const { products, failuresByClass } = await report(status.runId);
+    const failed = products.find((product) => product.productId === 2);
+    assert.strictEqual(failed?.outcome, 'failed');
+    assert.strictEqual(failed?.errorClass, 'validation');
+    assert.deepStrictEqual(failuresByClass, { validation: 1 });
+  });
+
+  test('resumes a failed registration without uploading again', async () => {
+    // More failures than the laravel-register policy has attempts
+    laravel.fail({ method: 'POST', status: 503, times: 5 });
+
+    const first = await worker({ productIds: [1] }).run();
+
+    assert.strictEqual(first.counts.failed, 1);
+    assert.strictEqual(first.products[0].errorClass, 'transient');
+    assert.strictEqual(first.products[0].stage, 'uploaded');
+    assert.strictEqual(cloudinary.uploads().length, 2);
+    assert.deepStrictEqual(cloudinary.destroyed, []);
+
+    const resumed = await worker({ resumeRunId: first.runId }).run();
+
+    assert.strictEqual(resumed.runId, first.runId);
+    assert.strictEqual(resumed.counts.registered, 1);
+    assert.strictEqual(cloudinary.uploads().length, 2);
+    assert.strictEqual(laravel.images.get(1)?.length, 2);
+    assert.strictEqual((await RunJournal.open(first.runId)).progressFor(1)?.registered, true);
+  });
+
+  test('fails the products of a category whose image source keeps failing', async () => {
+    unsplash.fail({ path: /^\/search\/photos$/, status: 503, times: 100 });
+
+    const status = await worker({ categories: ['hoodies'] }).run();
+
+    assert.strictEqual(status.counts.failed, 2);
+    assert.ok(status.products.every((product) => product.errorClass === 'transient'));
+    assert.strictEqual(cloudinary.uploads().length, 0);
+    assert.strictEqual(laravel.registrations().length, 0);
+  });
+
+  async function dryRun(productIds: number[]): Promise<{ plan: IngestionPlan; planPath: string }> {
+    const planPath = path.join(testDir, 'plans', `plan-${productIds.join('-')}.json`);
+    // The plan is printed as well
+    mock.method(console, 'log', () => undefined);
+    try {
+      await worker({ productIds, dryRun: true, planOut: planPath }).run();
+    } finally {
+      mock.restoreAll();
+    }
+    return { plan: await readPlan(planPath), planPath };
+  }
+
+  test('plans a dry run without uploading, registering or journaling anything', async () => {
+    const runIds = await RunJournal.runIds();
+
+    const { plan } = await dryRun([2]);
+
+    const [product] = plan.products;
+    assert.deepStrictEqual(
+      [product.productId, product.categorySlug, product.needed, product.firstIndex],
+      [2, 'hoodies', 2, 0],
+    );
+    assert.deepStrictEqual(product.publicIds, ['products/2/image_0', 'products/2/image_1']);
+    assert.strictEqual(product.candidates.length, 6);
+    assert.strictEqual(cloudinary.uploads().length, 0);
+    assert.strictEqual(laravel.registrations().length, 0);
+    assert.deepStrictEqual(await RunJournal.runIds(), runIds);
+  });
+
+  test('applies a plan with its planned candidates, searching no image again', async () => {
+    const { plan, planPath } = await dryRun([2]);
+    const searches = unsplash.searches().length;
+
+    const status = await worker({ applyPlan: planPath }).run();
+
+    assert.strictEqual(status.counts.registered, 1);
+    assert.strictEqual(unsplash.searches().length, searches);
+    const planned = plan.products[0].candidates.map((candidate) => candidate.id);
+    const registered = laravel.images.get(2)!.map((image) => image.attribution.source_id);
+    assert.ok(registered.every((id) => planned.includes(id)));
+  });
+
+  test('leaves products the plan skips out of the applied run', async () => {
+    laravel.images.set(1, [
+      { public_id: 'products/1/image_0', position: 0, isPrimary: true },
+      { public_id: 'products/1/image_1', position: 1, isPrimary: false },
+    ]);
+    const { plan, planPath } = await dryRun([1, 2]);
+    assert.deepStrictEqual(
+      plan.products.map((product) => [product.productId, product.needed]),
+      [
+        [1, 0],
+        [2, 2],
+      ],
+    );
+
+    const status = await worker({ applyPlan: planPath }).run();
+
+    assert.deepStrictEqual(
+      status.products.map((product) => product.productId),
+      [2],
+    );
+  });
+});